@@ -7,6 +7,10 @@ import {EntityCreateCommand} from "./commands/EntityCreateCommand";
 import {MigrationCreateCommand} from "./commands/MigrationCreateCommand";
 import {MigrationRunCommand} from "./commands/MigrationRunCommand";
 import {MigrationRevertCommand} from "./commands/MigrationRevertCommand";
+import {MigrationLockCommand} from "./commands/MigrationLockCommand";
+import {MigrationShowCommand} from "./commands/MigrationShowCommand";
+import {MigrationCheckCommand} from "./commands/MigrationCheckCommand";
+import {MigrationRepairCommand} from "./commands/MigrationRepairCommand";
 import {SubscriberCreateCommand} from "./commands/SubscriberCreateCommand";
 import {SchemaLogCommand} from "./commands/SchemaLogCommand";
 import {MigrationGenerateCommand} from "./commands/MigrationGenerateCommand";
@@ -26,6 +30,10 @@ require("yargs")
     .command(new MigrationGenerateCommand())
     .command(new MigrationRunCommand())
     .command(new MigrationRevertCommand())
+    .command(new MigrationLockCommand())
+    .command(new MigrationShowCommand())
+    .command(new MigrationCheckCommand())
+    .command(new MigrationRepairCommand())
     .command(new VersionCommand())
     .command(new CacheClearCommand())
     .command(new InitCommand())
@@ -0,0 +1,62 @@
+import {createConnection} from "../index";
+import {ConnectionOptionsReader} from "../connection/ConnectionOptionsReader";
+import {Connection} from "../connection/Connection";
+import * as process from "process";
+const chalk = require("chalk");
+
+/**
+ * Checks if schema of the database is in sync with entities, so that no new migration is needed.
+ */
+export class MigrationCheckCommand {
+
+    command = "migration:check";
+    describe = "Checks if schema of the database is in sync with entities. Exits with non-zero code and shows sql to be executed if not.";
+
+    builder(yargs: any) {
+        return yargs
+            .option("connection", {
+                alias: "c",
+                default: "default",
+                describe: "Name of the connection on which run a query."
+            })
+            .option("config", {
+                alias: "f",
+                default: "ormconfig",
+                describe: "Name of the file with connection configuration."
+            });
+    }
+
+    async handler(argv: any) {
+
+        let connection: Connection|undefined = undefined;
+        try {
+            const connectionOptionsReader = new ConnectionOptionsReader({ root: process.cwd(), configName: argv.config });
+            const connectionOptions = await connectionOptionsReader.get(argv.connection);
+            Object.assign(connectionOptions, {
+                synchronize: false,
+                migrationsRun: false,
+                dropSchema: false,
+                logging: false
+            });
+            connection = await createConnection(connectionOptions);
+            const sqlInMemory = await connection.driver.createSchemaBuilder().log();
+            await connection.close();
+
+            if (sqlInMemory.upQueries.length) {
+                console.log(chalk.red(`Schema of the database is not in sync with entities. Following queries need to be executed by a new migration:`));
+                sqlInMemory.upQueries.forEach(query => console.log(query + ";"));
+                process.exit(1);
+            }
+
+            console.log(chalk.green(`Schema of the database is in sync with entities.`));
+
+        } catch (err) {
+            if (connection) await (connection as Connection).close();
+
+            console.log(chalk.black.bgRed("Error during migration check:"));
+            console.error(err);
+            process.exit(1);
+        }
+    }
+
+}
@@ -0,0 +1,77 @@
+import {createConnection} from "../index";
+import {ConnectionOptionsReader} from "../connection/ConnectionOptionsReader";
+import {Connection} from "../connection/Connection";
+import {MigrationExecutor} from "../migration/MigrationExecutor";
+import * as process from "process";
+const chalk = require("chalk");
+
+/**
+ * Shows or force-releases the migration lock.
+ */
+export class MigrationLockCommand {
+
+    command = "migration:lock";
+    describe = "Shows which process holds the migration lock. With --release, releases the stale lock of the crashed process.";
+
+    builder(yargs: any) {
+        return yargs
+            .option("connection", {
+                alias: "c",
+                default: "default",
+                describe: "Name of the connection on which run a query."
+            })
+            .option("release", {
+                alias: "r",
+                type: "boolean",
+                default: false,
+                describe: "Releases the migration lock regardless of its owner. Use it only when the owner is not running anymore."
+            })
+            .option("config", {
+                alias: "f",
+                default: "ormconfig",
+                describe: "Name of the file with connection configuration."
+            });
+    }
+
+    async handler(argv: any) {
+
+        let connection: Connection|undefined = undefined;
+        try {
+            const connectionOptionsReader = new ConnectionOptionsReader({ root: process.cwd(), configName: argv.config });
+            const connectionOptions = await connectionOptionsReader.get(argv.connection);
+            Object.assign(connectionOptions, {
+                subscribers: [],
+                synchronize: false,
+                migrationsRun: false,
+                dropSchema: false,
+                logging: ["error"]
+            });
+            connection = await createConnection(connectionOptions);
+
+            const migrationExecutor = new MigrationExecutor(connection);
+            const lock = await migrationExecutor.getMigrationLock();
+            if (!lock) {
+                console.log(chalk.green("Migration lock is not held."));
+
+            } else {
+                const expired = lock.expiresAt.getTime() <= Date.now();
+                console.log(`Migration lock is held by ${chalk.blue(lock.owner)} since ${lock.acquiredAt.toISOString()}, ` +
+                    (expired ? chalk.yellow(`expired at ${lock.expiresAt.toISOString()}.`) : `until ${lock.expiresAt.toISOString()}.`));
+
+                if (argv.release) {
+                    await migrationExecutor.forceReleaseMigrationLock();
+                    console.log(chalk.green("Migration lock has been released."));
+                }
+            }
+            await connection.close();
+
+        } catch (err) {
+            if (connection) await (connection as Connection).close();
+
+            console.log(chalk.black.bgRed("Error during migration lock command:"));
+            console.error(err);
+            process.exit(1);
+        }
+    }
+
+}
@@ -0,0 +1,56 @@
+import {createConnection} from "../index";
+import {ConnectionOptionsReader} from "../connection/ConnectionOptionsReader";
+import {Connection} from "../connection/Connection";
+import {MigrationExecutor} from "../migration/MigrationExecutor";
+import * as process from "process";
+const chalk = require("chalk");
+
+/**
+ * Updates checksums of executed migrations command.
+ */
+export class MigrationRepairCommand {
+
+    command = "migration:repair";
+    describe = "Updates checksums of executed migrations to their current source. Use it when executed migrations are changed intentionally.";
+
+    builder(yargs: any) {
+        return yargs
+            .option("connection", {
+                alias: "c",
+                default: "default",
+                describe: "Name of the connection on which run a query."
+            })
+            .option("config", {
+                alias: "f",
+                default: "ormconfig",
+                describe: "Name of the file with connection configuration."
+            });
+    }
+
+    async handler(argv: any) {
+
+        let connection: Connection|undefined = undefined;
+        try {
+            const connectionOptionsReader = new ConnectionOptionsReader({ root: process.cwd(), configName: argv.config });
+            const connectionOptions = await connectionOptionsReader.get(argv.connection);
+            Object.assign(connectionOptions, {
+                subscribers: [],
+                synchronize: false,
+                migrationsRun: false,
+                dropSchema: false,
+                logging: ["query", "error", "schema"]
+            });
+            connection = await createConnection(connectionOptions);
+            await new MigrationExecutor(connection).repairMigrationChecksums();
+            await connection.close();
+
+        } catch (err) {
+            if (connection) await (connection as Connection).close();
+
+            console.log(chalk.black.bgRed("Error during migration repair:"));
+            console.error(err);
+            process.exit(1);
+        }
+    }
+
+}
@@ -0,0 +1,69 @@
+import {createConnection} from "../index";
+import {ConnectionOptionsReader} from "../connection/ConnectionOptionsReader";
+import {Connection} from "../connection/Connection";
+import {MigrationExecutor} from "../migration/MigrationExecutor";
+import * as process from "process";
+const chalk = require("chalk");
+
+/**
+ * Shows all migrations and whether they have been executed or not.
+ */
+export class MigrationShowCommand {
+
+    command = "migration:show";
+    describe = "Shows all migrations and whether they have been executed or not.";
+
+    builder(yargs: any) {
+        return yargs
+            .option("connection", {
+                alias: "c",
+                default: "default",
+                describe: "Name of the connection on which run a query."
+            })
+            .option("config", {
+                alias: "f",
+                default: "ormconfig",
+                describe: "Name of the file with connection configuration."
+            });
+    }
+
+    async handler(argv: any) {
+
+        let connection: Connection|undefined = undefined;
+        try {
+            const connectionOptionsReader = new ConnectionOptionsReader({ root: process.cwd(), configName: argv.config });
+            const connectionOptions = await connectionOptionsReader.get(argv.connection);
+            Object.assign(connectionOptions, {
+                subscribers: [],
+                synchronize: false,
+                migrationsRun: false,
+                dropSchema: false,
+                logging: ["error"]
+            });
+            connection = await createConnection(connectionOptions);
+
+            const migrations = await new MigrationExecutor(connection).showMigrations();
+            if (!migrations.length)
+                console.log(chalk.yellow("No migrations were found."));
+
+            migrations.forEach(({ migration, executed, inSource }) => {
+                const mark = executed ? chalk.green("[X]") : "[ ]";
+                const timestamp = `${migration.timestamp} (${new Date(migration.timestamp).toISOString()})`;
+                const note = inSource ? "" : chalk.yellow(" - executed, but not found in the source code");
+                console.log(` ${mark} ${timestamp} ${chalk.blue(migration.name)}${note}`);
+            });
+
+            const pendingCount = migrations.filter(({ executed }) => !executed).length;
+            console.log(`${migrations.length - pendingCount} executed, ${pendingCount} pending migrations.`);
+            await connection.close();
+
+        } catch (err) {
+            if (connection) await (connection as Connection).close();
+
+            console.log(chalk.black.bgRed("Error during migration show:"));
+            console.error(err);
+            process.exit(1);
+        }
+    }
+
+}
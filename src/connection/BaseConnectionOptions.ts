@@ -47,6 +47,26 @@ export interface BaseConnectionOptions {
      */
     readonly migrationsTableName?: string;
 
+    /**
+     * Time in milliseconds to wait for the migration lock held by other process, before failing.
+     * Default is 5 minutes.
+     */
+    readonly migrationsLockTimeout?: number;
+
+    /**
+     * Time in milliseconds the migration lock is valid for unless renewed. Lock of the crashed process expires after it.
+     * Running process renews the lock periodically. Default is 1 minute.
+     */
+    readonly migrationsLockLeaseTime?: number;
+
+    /**
+     * What to do when source of the executed migration has been changed since it was executed.
+     * "warn" logs a warning and "error" refuses to run pending migrations. Default is "warn".
+     * Source is the loaded (compiled) code of up and down methods, so changes of the compiler or its target change it too.
+     * "warn" is recommended unless migrations are always loaded from the same build.
+     */
+    readonly migrationsChecksumMismatch?: "warn"|"error";
+
     /**
      * Naming strategy to be used to name tables and columns in the database.
      */
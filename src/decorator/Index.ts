@@ -77,7 +77,10 @@ export function Index(nameOrFieldsOrOptions?: string|string[]|((object: any) =>
             unique: options && options.unique ? true : false,
             spatial: options && options.spatial ? true : false,
             fulltext: options && options.fulltext ? true : false,
-            sparse: options && options.sparse ? true : false
+            sparse: options && options.sparse ? true : false,
+            storing: options ? options.storing : undefined,
+            interleaveIn: options ? options.interleaveIn : undefined,
+            nullFiltered: options && options.nullFiltered ? true : false
         } as IndexMetadataArgs);
     };
 }
@@ -0,0 +1,32 @@
+import {ColumnOptions, getMetadataArgsStorage} from "../../";
+import {ColumnMetadataArgs} from "../../metadata-args/ColumnMetadataArgs";
+
+/**
+ * Options of the commit timestamp column.
+ */
+export interface CommitTimestampColumnOptions extends ColumnOptions {
+
+    /**
+     * "create" writes the commit timestamp only when the row is inserted,
+     * "update" writes it each time the row is inserted or updated.
+     * Default is "update".
+     */
+    readonly mode?: "create"|"update";
+}
+
+/**
+ * This column will store the timestamp at which spanner committed the transaction which inserted (or updated) the object.
+ * The column is created with allow_commit_timestamp option, and the commit timestamp is set to the entity after commit.
+ * Supported only by spanner.
+ */
+export function CommitTimestampColumn(options?: CommitTimestampColumnOptions): Function {
+    return function (object: Object, propertyName: string) {
+
+        getMetadataArgsStorage().columns.push({
+            target: object.constructor,
+            propertyName: propertyName,
+            mode: options && options.mode === "create" ? "createCommitTimestamp" : "updateCommitTimestamp",
+            options: options ? options : {}
+        } as ColumnMetadataArgs);
+    };
+}
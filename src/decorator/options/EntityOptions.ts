@@ -1,4 +1,5 @@
 import {OrderByCondition} from "../../find-options/OrderByCondition";
+import {InterleaveOptions} from "./InterleaveOptions";
 
 /**
  * Describes all entity's options.
@@ -40,4 +41,9 @@ export interface EntityOptions {
      * By default schema synchronization is enabled for all entities.
      */
     synchronize?: boolean;
+
+    /**
+     * Interleaves table in the table of the given parent entity. Used only in spanner.
+     */
+    interleave?: InterleaveOptions;
 }
@@ -32,4 +32,22 @@ export interface IndexOptions {
      */
     sparse?: boolean;
 
+    /**
+     * Non-key columns (property names) whose values are stored in the index as well, to cover the queries.
+     * Works only in Spanner (STORING clause).
+     */
+    storing?: string[];
+
+    /**
+     * Parent entity (or its name) which index is interleaved in.
+     * Works only in Spanner (INTERLEAVE IN clause).
+     */
+    interleaveIn?: string|((type?: any) => Function);
+
+    /**
+     * Indicates if rows which have NULL in any of indexed columns are excluded from the index.
+     * Works only in Spanner (NULL_FILTERED modifier).
+     */
+    nullFiltered?: boolean;
+
 }
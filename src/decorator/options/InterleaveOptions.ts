@@ -0,0 +1,19 @@
+/**
+ * Describes how entity's table is interleaved in the table of its parent entity.
+ * Used only in spanner (INTERLEAVE IN PARENT clause).
+ */
+export interface InterleaveOptions {
+
+    /**
+     * Parent entity (or its name) which table this entity's table is interleaved in.
+     * Primary columns of the parent should be the leading primary columns of this entity.
+     */
+    parent: string|((type?: any) => Function);
+
+    /**
+     * What spanner does with the rows of this table when their parent row is deleted.
+     * Default is "NO ACTION".
+     */
+    onDelete?: "CASCADE"|"NO ACTION";
+
+}
@@ -36,6 +36,59 @@ export interface SpannerConnectionOptions extends BaseConnectionOptions {
      */
     readonly keyFilename?: string;
 
+    /**
+     * Host and port of spanner emulator, e.g. "localhost:9010".
+     * When given, the client connects to the emulator by plain text connection without credentials.
+     */
+    readonly emulatorHost?: string;
+
+    /**
+     * Session pool options of the database.
+     */
+    readonly sessionPool?: {
+
+        /**
+         * Minimum number of sessions kept in the pool (default: 0).
+         */
+        readonly min?: number;
+
+        /**
+         * Maximum number of sessions the pool creates (default: 100).
+         */
+        readonly max?: number;
+
+        /**
+         * Fraction of sessions prepared for read-write transactions, from 0 to 1 (default: 0).
+         */
+        readonly writes?: number;
+
+        /**
+         * Milliseconds to wait for a session when the pool is exhausted, before failing (default: Infinity).
+         */
+        readonly acquireTimeout?: number;
+
+        /**
+         * Fails immediately instead of waiting when the pool is exhausted (default: false).
+         */
+        readonly fail?: boolean;
+
+        /**
+         * Maximum number of idle sessions kept in the pool (default: 1).
+         */
+        readonly maxIdle?: number;
+
+        /**
+         * Minutes between pings which keep idle sessions alive (default: 50).
+         */
+        readonly keepAlive?: number;
+    };
+
+    /**
+     * Timeout in milliseconds of each query and DML request. it is set to client config of the spanner client,
+     * so it also applies to queries and DML executed in transactions, and failed requests are not retried.
+     */
+    readonly requestTimeout?: number;
+
     /**
      * Automatically create the database if it doesn't exist
      */
@@ -50,4 +103,35 @@ export interface SpannerConnectionOptions extends BaseConnectionOptions {
      * migration ddl type. if not specified, ddl should be pure spanner's one
      */
     readonly migrationDDLType?: "mysql";
+
+    /**
+     * How many times Connection/EntityManager.transaction restarts its callback
+     * when spanner aborts the read-write transaction (default: 5). 0 disables the restart.
+     */
+    readonly transactionRetryLimit?: number;
+
+    /**
+     * Maximum number of mutations (row x column) sent by one commit (default: 20000, spanner's own limit).
+     * Multi-row update/upsert outside of transaction is split into several commits to stay under it.
+     */
+    readonly mutationLimit?: number;
+
+    /**
+     * Allows schema changes which spanner cannot do by ALTER TABLE (renaming table or column, changing primary key
+     * or column type) to rebuild the table: new table is created, rows are copied into it and old table is dropped.
+     * Rebuild copies all rows of the table, so it can take long for large tables (default: false).
+     */
+    readonly allowTableRebuild?: boolean;
+
+    /**
+     * Returns INT64 values as strings, so that values beyond 2^53 are not rounded (default: false).
+     * Entity properties of int64 columns are hydrated with strings too.
+     */
+    readonly bigNumberStrings?: boolean;
+
+    /**
+     * Runs queries in PROFILE mode when maxQueryExecutionTime is set, and logs execution statistics and
+     * query plan of slow queries with "warn" level (default: false). Profiling adds some overhead to each query.
+     */
+    readonly logSlowQueryStats?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,450 @@
+import {SpannerQueryRunner} from "./SpannerQueryRunner";
+import {SpannerColumnUpdateWithCommitTimestamp} from "./SpannerDriver";
+import {Table} from "../../schema-builder/table/Table";
+import {TableColumn} from "../../schema-builder/table/TableColumn";
+import {TableIndex} from "../../schema-builder/table/TableIndex";
+import {TableForeignKey} from "../../schema-builder/table/TableForeignKey";
+
+/**
+ * the parser cannot read "ON UPDATE CURRENT_TIMESTAMP", so it is replaced with a column comment which has this text.
+ */
+const OnUpdateCurrentTimestampMarker = "__spanner_on_update_current_timestamp__";
+
+/**
+ * maximum length of spanner STRING and BYTES columns. longer columns are created as MAX.
+ */
+const SpannerMaxStringLength = 2621440;
+const SpannerMaxBytesLength = 10485760;
+
+/**
+ * Translates DDL written in other dialect (migrationDDLType connection option, currently "mysql") into
+ * spanner schema changes, so that one migration set can be shared with mysql deployment.
+ * Statements are parsed by sql-ddl-to-json-schema, and applied by the schema methods of the query runner
+ * (createTable, addColumn, createIndex, ...), so the result is the same as spanner schema synchronization.
+ */
+export class SpannerDDLTranslator {
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected queryRunner: SpannerQueryRunner) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Parses given DDL statements and applies them to the database in order.
+     */
+    async run(sql: string): Promise<void> {
+        for (const statement of this.split(sql)) {
+            await this.runStatement(statement, this.parse(statement));
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * splits given sql into statements, after rewriting the parts which the parser does not understand.
+     */
+    protected split(sql: string): string[] {
+        const parser = this.queryRunner.driver.ddlParser;
+        sql = sql
+            .replace(/\b(CURRENT_TIMESTAMP|NOW)\s*\(\s*\d+\s*\)/gi, "CURRENT_TIMESTAMP")
+            .replace(/\s+ON\s+UPDATE\s+CURRENT_TIMESTAMP\b(\s*\(\s*\))?/gi, ` COMMENT '${OnUpdateCurrentTimestampMarker}'`)
+            .trim();
+        if (!sql.endsWith(";"))
+            sql += ";";
+        parser.feed(sql);
+        const statements: string[] = parser.statements.splice(0);
+        return statements.filter(statement => statement.replace(/;/g, "").trim().length > 0);
+    }
+
+    /**
+     * parses single statement, and returns its definition.
+     */
+    protected parse(statement: string): any {
+        const parser = this.queryRunner.driver.ddlParser;
+        try {
+            parser.feed(statement);
+            const results = parser.results;
+            return results.def[0].def;
+
+        } catch (e) {
+            throw new Error(`cannot parse ${this.queryRunner.driver.options.migrationDDLType} DDL for spanner: ${statement.trim()}\n${e.message}`);
+        }
+    }
+
+    protected async runStatement(statement: string, definition: any): Promise<void> {
+        const queryRunner = this.queryRunner;
+        switch (definition.id) {
+            case "P_CREATE_TABLE":
+                if (definition.def.id !== "P_CREATE_TABLE_COMMON")
+                    throw this.unsupported(statement, "CREATE TABLE ... LIKE");
+                const table = this.buildTable(statement, definition.def.def);
+                return queryRunner.createTable(table, /^\s*CREATE\s+(TEMPORARY\s+)?TABLE\s+IF\s+NOT\s+EXISTS\s/i.test(statement));
+
+            case "P_DROP_TABLE":
+                const ifExists = /^\s*DROP\s+(TEMPORARY\s+)?TABLE\s+IF\s+EXISTS\s/i.test(statement);
+                for (const tableName of definition.def) {
+                    await queryRunner.dropTable(tableName, ifExists);
+                }
+                return;
+
+            case "P_RENAME_TABLE":
+                for (const rename of definition.def) {
+                    await queryRunner.renameTable(rename.table, rename.newName);
+                }
+                return;
+
+            case "P_CREATE_INDEX":
+                return queryRunner.createIndex(definition.def.table, this.buildIndex(statement, definition.def.table, definition.def));
+
+            case "P_DROP_INDEX":
+                return queryRunner.dropIndex(definition.def.table, definition.def.index);
+
+            case "P_ALTER_TABLE":
+                for (const spec of definition.def.specs) {
+                    await this.runAlterTableSpec(statement, definition.def.table, spec.def.spec.def);
+                }
+                return;
+
+            default:
+                throw this.unsupported(statement, "this statement");
+        }
+    }
+
+    protected async runAlterTableSpec(statement: string, tableName: string, spec: any): Promise<void> {
+        const queryRunner = this.queryRunner;
+        switch (spec.action) {
+            case "addColumn":
+                return this.addColumn(statement, tableName, spec.name, spec.datatype, spec.columnDefinition);
+
+            case "addColumns":
+                for (const column of spec.columns) {
+                    await this.addColumn(statement, tableName, column.name, column.datatype, column.columnDefinition);
+                }
+                return;
+
+            case "dropColumn":
+                return queryRunner.dropColumn(tableName, spec.column);
+
+            case "changeColumn":
+                const oldColumn = await this.findColumn(statement, tableName, spec.column);
+                const newColumn = this.buildColumn(statement, tableName, spec.newName || spec.column, spec.datatype, spec.columnDefinition);
+                newColumn.isPrimary = oldColumn.isPrimary;
+                if (newColumn.isPrimary)
+                    newColumn.isNullable = false;
+                await queryRunner.changeColumn(tableName, oldColumn, newColumn);
+                if (newColumn.isUnique)
+                    await queryRunner.createIndex(tableName, this.buildUniqueColumnIndex(tableName, newColumn));
+                return;
+
+            case "setDefaultColumnValue":
+            case "dropDefaultColumnValue":
+                const column = await this.findColumn(statement, tableName, spec.column);
+                const changedColumn = column.clone();
+                changedColumn.default = spec.action === "setDefaultColumnValue"
+                    ? this.buildDefault(statement, column.type, spec.value)
+                    : undefined;
+                return queryRunner.changeColumn(tableName, column, changedColumn);
+
+            case "addIndex":
+            case "addUniqueKey":
+                return queryRunner.createIndex(tableName, this.buildIndex(statement, tableName, spec, spec.action === "addUniqueKey"));
+
+            case "dropIndex":
+                return queryRunner.dropIndex(tableName, spec.index);
+
+            case "addForeignKey":
+                return queryRunner.createForeignKey(tableName, this.buildForeignKey(tableName, spec));
+
+            case "dropForeignKey":
+                return queryRunner.dropForeignKey(tableName, spec.key);
+
+            case "addPrimaryKey":
+                return queryRunner.createPrimaryKey(tableName, spec.columns.map((column: any) => column.def.column));
+
+            case "dropPrimaryKey":
+                throw this.unsupported(statement, "DROP PRIMARY KEY (spanner table always has primary key, change it by ADD PRIMARY KEY)");
+
+            case "rename":
+                return queryRunner.renameTable(tableName, spec.newName);
+
+            case "addFulltextIndex":
+                throw this.unsupported(statement, "FULLTEXT index");
+
+            case "addSpatialIndex":
+                throw this.unsupported(statement, "SPATIAL index");
+
+            case "renameIndex":
+                throw this.unsupported(statement, "RENAME INDEX");
+
+            default:
+                throw this.unsupported(statement, `ALTER TABLE ${spec.action}`);
+        }
+    }
+
+    protected async addColumn(statement: string, tableName: string, name: string, datatype: any, definitions: any[]): Promise<void> {
+        const column = this.buildColumn(statement, tableName, name, datatype, definitions);
+        if (column.isPrimary)
+            throw this.unsupported(statement, "adding primary key column (use ADD PRIMARY KEY after the column is added)");
+        await this.queryRunner.addColumn(tableName, column);
+        if (column.isUnique)
+            await this.queryRunner.createIndex(tableName, this.buildUniqueColumnIndex(tableName, column));
+    }
+
+    protected async findColumn(statement: string, tableName: string, columnName: string): Promise<TableColumn> {
+        // cached table already reflects DDL queued by the running migration, so it is read without applying them
+        const [table] = await this.queryRunner.driver.loadTables(tableName);
+        const column = table ? table.findColumnByName(columnName) : undefined;
+        if (!column)
+            throw new Error(`column ${tableName}.${columnName} does not exist: ${statement.trim()}`);
+        return column;
+    }
+
+    protected buildTable(statement: string, definition: any): Table {
+        const tableName: string = definition.table;
+        const columns: TableColumn[] = [];
+        const indices: TableIndex[] = [];
+        const foreignKeys: TableForeignKey[] = [];
+        let primaryColumnNames: string[] = [];
+
+        definition.columnsDef.def.forEach((createDefinition: any) => {
+            const def = createDefinition.def;
+            if (def.column) {
+                const column = this.buildColumn(statement, tableName, def.column.name, def.column.def.datatype, def.column.def.columnDefinition);
+                if (column.isPrimary)
+                    primaryColumnNames.push(column.name);
+                if (column.isUnique)
+                    indices.push(this.buildUniqueColumnIndex(tableName, column));
+                columns.push(column);
+
+            } else if (def.primaryKey) {
+                primaryColumnNames = def.primaryKey.columns.map((column: any) => column.def.column);
+
+            } else if (def.index || def.uniqueKey) {
+                indices.push(this.buildIndex(statement, tableName, def.index || def.uniqueKey, !!def.uniqueKey));
+
+            } else if (def.foreignKey) {
+                foreignKeys.push(this.buildForeignKey(tableName, def.foreignKey));
+
+            } else if (def.fulltextIndex) {
+                throw this.unsupported(statement, "FULLTEXT index");
+
+            } else if (def.spatialIndex) {
+                throw this.unsupported(statement, "SPATIAL index");
+
+            } else {
+                throw this.unsupported(statement, `table definition ${Object.keys(def).join(", ")}`);
+            }
+        });
+
+        if (primaryColumnNames.length === 0)
+            throw this.unsupported(statement, "table without primary key");
+        columns.forEach(column => {
+            column.isPrimary = primaryColumnNames.indexOf(column.name) !== -1;
+            if (column.isPrimary)
+                column.isNullable = false;
+        });
+
+        // table options (ENGINE, CHARSET, ...) have no meaning on spanner
+        const table = new Table({ name: tableName });
+        table.columns = primaryColumnNames
+            .map(name => columns.find(column => column.name === name)!)
+            .concat(columns.filter(column => !column.isPrimary));
+        table.indices = indices;
+        table.foreignKeys = foreignKeys;
+        return table;
+    }
+
+    protected buildColumn(statement: string, tableName: string, name: string, datatype: any, definitions: any[]): TableColumn {
+        const options: any = {};
+        (definitions || []).forEach(definition => Object.assign(options, definition.def));
+
+        // charset, collation, unsigned, zerofill and comments have no meaning on spanner
+        const column = new TableColumn({
+            name,
+            ...this.buildType(statement, name, datatype.def.def),
+            isNullable: options.nullable !== false && !options.primary,
+            isPrimary: !!options.primary,
+            isUnique: !!options.unique,
+        });
+        if (options.autoincrement) {
+            // spanner has no auto increment. generation strategy is recorded as schema synchronization does.
+            column.isGenerated = true;
+            column.generationStrategy = "increment";
+        }
+        if (options.comment === OnUpdateCurrentTimestampMarker) {
+            if (column.type !== "timestamp")
+                throw this.unsupported(statement, `ON UPDATE CURRENT_TIMESTAMP of ${column.type} column ${name}`);
+            column.default = SpannerColumnUpdateWithCommitTimestamp;
+
+        } else {
+            column.default = this.buildDefault(statement, column.type, options.default);
+        }
+        return column;
+    }
+
+    /**
+     * returns spanner type and length for the given mysql data type of the column.
+     */
+    protected buildType(statement: string, columnName: string, datatype: any): { type: string, length?: string } {
+        const name = String(datatype.datatype).toLowerCase();
+        const length = (max: number) => datatype.length && datatype.length <= max ? String(datatype.length) : "MAX";
+        switch (name) {
+            case "tinyint":
+                // typeorm creates boolean column as tinyint(1) on mysql. the parser reads bare tinyint as width 1 too,
+                // so the declaration is looked up in the statement.
+                return { type: this.isDeclaredBoolean(statement, columnName) ? "bool" : "int64" };
+            case "bool":
+            case "boolean":
+                return { type: "bool" };
+            case "bit":
+                if (datatype.length !== 1)
+                    throw this.unsupported(statement, `${name}(${datatype.length}) type`);
+                return { type: "bool" };
+            case "smallint":
+            case "mediumint":
+            case "int":
+            case "integer":
+            case "bigint":
+                return { type: "int64" };
+            case "float":
+            case "double":
+                return { type: "float64" };
+            case "decimal":
+            case "numeric":
+                // spanner NUMERIC has 29 digits before and 9 digits after the decimal point
+                if ((datatype.decimals || 0) > 9 || (datatype.digits || 0) - (datatype.decimals || 0) > 29)
+                    throw this.unsupported(statement, `${name}(${datatype.digits},${datatype.decimals}) type`);
+                return { type: "numeric" };
+            case "char":
+            case "varchar":
+            case "nchar":
+            case "tinytext":
+            case "text":
+            case "mediumtext":
+            case "longtext":
+                return { type: "string", length: length(SpannerMaxStringLength) };
+            case "enum":
+                return { type: "string", length: String(Math.max(...datatype.values.map((value: string) => value.length))) };
+            case "set":
+                return { type: "string", length: "MAX" };
+            case "binary":
+            case "varbinary":
+            case "tinyblob":
+            case "blob":
+            case "mediumblob":
+            case "longblob":
+                return { type: "bytes", length: length(SpannerMaxBytesLength) };
+            case "date":
+                return { type: "date" };
+            case "datetime":
+            case "timestamp":
+                return { type: "timestamp" };
+            case "json":
+                return { type: "json" };
+            default:
+                throw this.unsupported(statement, `${name} type`);
+        }
+    }
+
+    /**
+     * checks if the column is declared as tinyint(1), bool or boolean in the statement.
+     */
+    protected isDeclaredBoolean(statement: string, columnName: string): boolean {
+        const escapedName = columnName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return new RegExp(`(^|[\\s,(\`])${escapedName}\`?\\s+(tinyint\\s*\\(\\s*1\\s*\\)|bool(ean)?\\b)`, "i").test(statement);
+    }
+
+    /**
+     * returns spanner expression of mysql default value for the column of given spanner type.
+     */
+    protected buildDefault(statement: string, type: string, value: any): string|undefined {
+        if (value === undefined || value === null || String(value).toUpperCase() === "NULL")
+            return undefined;
+
+        if (typeof value === "string" && /^(CURRENT_TIMESTAMP|NOW\(\)|LOCALTIMESTAMP)$/i.test(value)) {
+            if (type === "timestamp")
+                return "CURRENT_TIMESTAMP()";
+            if (type === "date")
+                return "CURRENT_DATE()";
+            throw this.unsupported(statement, `DEFAULT ${value} of ${type} column`);
+        }
+
+        switch (type) {
+            case "bool":
+                return ["1", "true"].indexOf(String(value).toLowerCase()) !== -1 ? "true" : "false";
+            case "int64":
+            case "float64":
+                if (isNaN(Number(value)))
+                    throw this.unsupported(statement, `DEFAULT ${value} of ${type} column`);
+                return String(value);
+            case "numeric":
+                return `NUMERIC ${this.quote(value)}`;
+            case "date":
+                return `DATE ${this.quote(value)}`;
+            case "timestamp":
+                return `TIMESTAMP ${this.quote(value)}`;
+            case "json":
+                return `JSON ${this.quote(value)}`;
+            case "bytes":
+                return `B${this.quote(value)}`;
+            default:
+                return this.quote(value);
+        }
+    }
+
+    protected buildIndex(statement: string, tableName: string, definition: any, isUnique?: boolean): TableIndex {
+        if (definition.type && /FULLTEXT|SPATIAL/i.test(definition.type))
+            throw this.unsupported(statement, `${definition.type}`);
+
+        // prefix length and sort order of index columns are not kept
+        const columnNames: string[] = definition.columns.map((column: any) => column.def.column);
+        return new TableIndex({
+            name: definition.name || this.queryRunner.connection.namingStrategy.indexName(tableName, columnNames),
+            columnNames,
+            isUnique: isUnique || (!!definition.type && /UNIQUE/i.test(definition.type))
+        });
+    }
+
+    protected buildUniqueColumnIndex(tableName: string, column: TableColumn): TableIndex {
+        return new TableIndex({
+            name: this.queryRunner.connection.namingStrategy.uniqueConstraintName(tableName, [column.name]),
+            columnNames: [column.name],
+            isUnique: true
+        });
+    }
+
+    protected buildForeignKey(tableName: string, definition: any): TableForeignKey {
+        const columnNames: string[] = definition.columns.map((column: any) => column.def.column);
+        const reference = definition.reference.def;
+        const onDelete = reference.on.find((on: any) => on.trigger === "DELETE");
+        const onUpdate = reference.on.find((on: any) => on.trigger === "UPDATE");
+        return new TableForeignKey({
+            name: definition.name || this.queryRunner.connection.namingStrategy.foreignKeyName(tableName, columnNames),
+            columnNames,
+            referencedTableName: reference.table,
+            referencedColumnNames: reference.columns.map((column: any) => column.def.column),
+            onDelete: onDelete ? onDelete.action : undefined,
+            onUpdate: onUpdate ? onUpdate.action : undefined
+        });
+    }
+
+    /**
+     * quotes value as spanner string literal. backslash escapes of mysql string are same in spanner.
+     */
+    protected quote(value: any): string {
+        return `'${String(value).replace(/\\.|'/g, match => match === "'" ? "\\'" : match)}'`;
+    }
+
+    protected unsupported(statement: string, feature: string): Error {
+        return new Error(`spanner does not support ${feature}: ${statement.trim()}`);
+    }
+
+}
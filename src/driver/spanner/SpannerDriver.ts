@@ -11,20 +11,37 @@ import {PlatformTools} from "../../platform/PlatformTools";
 import {ColumnMetadata} from "../../metadata/ColumnMetadata";
 import {TableColumn} from "../../schema-builder/table/TableColumn";
 import {TableOptions} from "../../schema-builder/options/TableOptions";
+import {TableInterleaveOptions} from "../../schema-builder/options/TableInterleaveOptions";
 import {TableColumnOptions} from "../../schema-builder/options/TableColumnOptions";
 import {TableIndexOptions} from "../../schema-builder/options/TableIndexOptions";
 import {TableForeignKeyOptions} from "../../schema-builder/options/TableForeignKeyOptions";
-import {TableUniqueOptions} from "../../schema-builder/options/TableUniqueOptions";
+import {TableCheckOptions} from "../../schema-builder/options/TableCheckOptions";
 import {EntityMetadata} from "../../metadata/EntityMetadata";
 import {DateUtils} from "../../util/DateUtils";
-import {SpannerDatabase, SpannerExtendSchemas} from "./SpannerRawTypes";
+import {SpannerDatabase, SpannerExtendSchemas, SpannerParameterType} from "./SpannerRawTypes";
 import {Table} from "../../schema-builder/table/Table";
 import {ObjectLiteral} from "../../common/ObjectLiteral";
 import {DataTypeNotSupportedError} from "../../error/DataTypeNotSupportedError";
+import {SpannerParameter} from "./SpannerParameter";
 
 
 export const SpannerColumnUpdateWithCommitTimestamp = "commit_timestamp";
 
+/**
+ * value which spanner replaces with the commit timestamp, when it is written to allow_commit_timestamp column by mutation.
+ */
+export const SpannerCommitTimestampPlaceholder = "spanner.commit_timestamp()";
+
+/**
+ * grpc status code which spanner returns when it aborts read-write transaction.
+ */
+export const SpannerAbortedErrorCode = 10;
+
+/**
+ * maximum number of mutations spanner accepts in one commit.
+ */
+export const SpannerMaxMutationsPerCommit = 20000;
+
 /**
  * Organizes communication with MySQL DBMS.
  */
@@ -94,6 +111,8 @@ export class SpannerDriver implements Driver {
         "float64",
         "string",
         "timestamp",
+        "numeric",
+        "json",
     ];
 
     /**
@@ -180,6 +199,7 @@ export class SpannerDriver implements Driver {
     constructor(connection: Connection) {
         this.connection = connection;
         this.options = connection.options as SpannerConnectionOptions;
+        this.database = this.options.database;
 
         // load mysql package
         this.loadDependencies();
@@ -265,12 +285,57 @@ export class SpannerDriver implements Driver {
             return database.tables[name];
         })).then(tables => tables.filter(t => !!t));
     }
+    /**
+     * drop tables cache and load all tables from database schema again.
+     */
+    async reloadTables(): Promise<Table[]> {
+        if (!this.spanner) {
+            throw new Error("connect() driver first");
+        }
+        const database = this.spanner.database;
+        const schemaResponse: string[][] = await database.handle.getSchema();
+        database.tables = await this.parseSchema(schemaResponse[0]);
+        if (database.schemas) {
+            this.updateTableWithExtendSchema(database, database.schemas);
+        }
+        return Object.keys(database.tables).map(name => database.tables[name]);
+    }
     getDatabases(): string[] {
         return Object.keys([this.options.database]);
     }
     isSchemaTable(table: Table): boolean {
         return (this.options.schemaTableName || "schemas") === table.name;
     }
+    /**
+     * returns how many times aborted read-write transaction should be restarted.
+     */
+    getTransactionRetryLimit(): number {
+        const limit = this.options.transactionRetryLimit;
+        return limit === undefined || limit === null ? 5 : limit;
+    }
+    /**
+     * returns how many mutations can be sent by one commit.
+     */
+    getMutationLimit(): number {
+        return this.options.mutationLimit || SpannerMaxMutationsPerCommit;
+    }
+    /**
+     * checks given error means spanner aborted the read-write transaction.
+     * error may be raw grpc error or QueryFailedError which copies its code.
+     */
+    isTransactionAbortedError(err: any): boolean {
+        return !!err && err.code === SpannerAbortedErrorCode;
+    }
+    /**
+     * returns milliseconds to wait before restarting aborted transaction.
+     * uses retry delay provided by spanner if exists, otherwise exponential backoff.
+     */
+    getTransactionRetryDelay(err: any, attempts: number): number {
+        if (err && err.metadata && typeof err.metadata.get === "function") {
+            return this.spannerLib.Transaction.getRetryDelay_(err, attempts);
+        }
+        return Math.pow(2, attempts) * 1000 + Math.floor(Math.random() * 1000);
+    }
 
     // -------------------------------------------------------------------------
     // Public Methods
@@ -283,13 +348,25 @@ export class SpannerDriver implements Driver {
         if (!this.spanner) {
 			const Spanner = this.spannerLib.Spanner;
             // create objects
-            const client = new Spanner({
+            // spanner client 2.x does not send call options given with each query,
+            // so timeout is set to the client config of query methods.
+            const clientOptions: ObjectLiteral = {
                 projectId: this.options.projectId,
-                credenitals: this.options.credentials,
+                credentials: this.options.credentials,
                 keyFilename: this.options.keyFilename,
-            });
+            };
+            if (this.options.requestTimeout)
+                clientOptions.clientConfig = this.buildRequestTimeoutConfig(this.options.requestTimeout);
+            if (this.options.emulatorHost) {
+                // emulator accepts only plain text connection without authentication
+                const [servicePath, port] = this.options.emulatorHost.split(":");
+                clientOptions.servicePath = servicePath;
+                clientOptions.port = port ? Number(port) : 9010;
+                clientOptions.sslCreds = PlatformTools.load("grpc").credentials.createInsecure();
+            }
+            const client = new Spanner(clientOptions);
             const instance = client.instance(this.options.instanceId);
-            const database = instance.database(this.options.database);
+            const database = instance.database(this.options.database, this.options.sessionPool);
             await database.get({ autoCreate: this.options.autoCreate });
             this.spanner = {
                 client,
@@ -305,6 +382,24 @@ export class SpannerDriver implements Driver {
         }
     }
 
+    /**
+     * builds client config which overrides timeout of query (ExecuteSql, ExecuteStreamingSql) calls.
+     * ExecuteSql is retried on DEADLINE_EXCEEDED by default, which replaces the timeout by retry settings, so retry is disabled.
+     */
+    protected buildRequestTimeoutConfig(timeout: number): ObjectLiteral {
+        return {
+            interfaces: {
+                "google.spanner.v1.Spanner": {
+                    retry_codes: { no_retry: [] },
+                    methods: {
+                        ExecuteSql: { timeout_millis: timeout, retry_codes_name: "no_retry" },
+                        ExecuteStreamingSql: { timeout_millis: timeout },
+                    }
+                }
+            }
+        };
+    }
+
     /**
      * Makes any action after connection (e.g. create extensions in Postgres driver).
      */
@@ -325,7 +420,15 @@ export class SpannerDriver implements Driver {
      * Closes connection with the database.
      */
     async disconnect(): Promise<void> {
+        if (!this.spanner)
+            return;
+
+        // closes session pool of the database, otherwise its timers keep the process alive
+        const spanner = this.spanner;
         this.spanner = null;
+        await spanner.database.handle.close();
+        if (typeof spanner.client.close === "function")
+            await spanner.client.close();
     }
 
     /**
@@ -363,9 +466,17 @@ export class SpannerDriver implements Driver {
       
       const sqlReplaced = sql.replace(new RegExp(keys, "g"), (key: string) => {
         // console.log('REPLACING KEY', key)
-        const keyName = key.substr(0, 4) === ":..." ? key.substr(4) : key.substr(1)
-        const value = parameters[keyName];
-        const isArray = value instanceof Array
+        const isSpread = key.substr(0, 4) === ":...";
+        const keyName = isSpread ? key.substr(4) : key.substr(1);
+        let value = parameters[keyName];
+        if (isSpread && value instanceof SpannerParameter && value.value instanceof Array) {
+          // spread typed array into typed elements
+          const type = value.type;
+          const childType = typeof type === "object" && type.type === "array" ? type.child : undefined;
+          value = (value.value as any[]).map(element => childType ? new SpannerParameter(element, childType) : element);
+        }
+        // only spread parameters (:...name) are expanded, other arrays are bound as ARRAY parameters
+        const isArray = isSpread && value instanceof Array;
 
         if (value instanceof Function) {
           return value();
@@ -413,63 +524,36 @@ export class SpannerDriver implements Driver {
      * Prepares given value to a value to be persisted, based on its column type and metadata.
      */
     preparePersistentValue(value: any, columnMetadata: ColumnMetadata): any {
+        // DML writes commit timestamp by function instead of the placeholder
+        if (value === SpannerCommitTimestampPlaceholder)
+            return () => "PENDING_COMMIT_TIMESTAMP()";
+
         if (columnMetadata.transformer)
             value = columnMetadata.transformer.to(value);
 
         if (value === null || value === undefined)
             return value;
 
-        if (columnMetadata.type === "timestamp" || 
-            columnMetadata.type === "date" || 
-            columnMetadata.type === Date) {
-            return DateUtils.mixedDateToDate(value);
-
-        } /*else if (columnMetadata.type === "simple-array") {
-            return DateUtils.simpleArrayToString(value);
-
-        } else if (columnMetadata.type === "simple-json") {
-            return DateUtils.simpleJsonToString(value);
-        } */ else if (
-            columnMetadata.type === "int64" ||
-            columnMetadata.type === "float64" ||
-            columnMetadata.type === "bool" ||
-            columnMetadata.type === "string" ||
-            (<any>columnMetadata.type).name === "String" ||
-            (<any>columnMetadata.type).name === "Number" ||
-            columnMetadata.type === "bytes") {
-            return value;
+        if (columnMetadata.isArray) {
+            if (!(value instanceof Array))
+                throw new Error(`Column ${columnMetadata.propertyName} of entity ${columnMetadata.entityMetadata.name} is an array column, but given value is not an array.`);
+            return value.map(element => element === null || element === undefined ? null : this.preparePersistentElementValue(element, columnMetadata));
         }
 
-        throw new DataTypeNotSupportedError(columnMetadata, columnMetadata.type, "spanner");
+        return this.preparePersistentElementValue(value, columnMetadata);
     }
 
     /**
-     * Prepares given value to a value to be persisted, based on its column type or metadata.
+     * Prepares given value to a value to be persisted, based on its column type and metadata.
      */
     prepareHydratedValue(value: any, columnMetadata: ColumnMetadata): any {
         if (value === null || value === undefined)
             return value;
 
-        if (columnMetadata.type === "timestamp" || 
-            columnMetadata.type === "date" || 
-            columnMetadata.type === Date) {
-            value = DateUtils.mixedDateToDate(value);
-
-        } /*else if (columnMetadata.type === "simple-array") {
-            value = DateUtils.simpleArrayToString(value);
-
-        } else if (columnMetadata.type === "simple-json") {
-            value = DateUtils.simpleJsonToString(value);
-        } */ else if (
-            columnMetadata.type == "int64" ||
-            columnMetadata.type == "float64" ||
-            columnMetadata.type == "bool" ||
-            columnMetadata.type == "string" ||
-            (<any>columnMetadata.type).name === "String" ||
-            (<any>columnMetadata.type).name === "Number" ||
-            columnMetadata.type == "bytes") {
+        if (columnMetadata.isArray && value instanceof Array) {
+            value = value.map((element: any) => element === null || element === undefined ? element : this.prepareHydratedElementValue(element, columnMetadata));
         } else {
-            throw new DataTypeNotSupportedError(columnMetadata, columnMetadata.type, "spanner");
+            value = this.prepareHydratedElementValue(value, columnMetadata);
         }
 
         if (columnMetadata.transformer)
@@ -511,7 +595,7 @@ export class SpannerDriver implements Driver {
     normalizeDefault(columnMetadata: ColumnMetadata): string {
         const defaultValue = columnMetadata.default;
 
-        if (columnMetadata.isUpdateDate) {
+        if (columnMetadata.isUpdateDate || columnMetadata.isCreateCommitTimestamp || columnMetadata.isUpdateCommitTimestamp) {
             return SpannerColumnUpdateWithCommitTimestamp;
 
         } else if (typeof defaultValue === "number") {
@@ -577,7 +661,7 @@ export class SpannerDriver implements Driver {
         }
 
         if (column.isArray)
-            type = `Array<${type}>`;
+            type = `ARRAY<${type}>`;
 
         return type;
     }
@@ -653,7 +737,8 @@ export class SpannerDriver implements Driver {
 
             return tableColumn.name !== columnMetadata.databaseName
                 || tableColumn.type !== this.normalizeType(columnMetadata)
-                || tableColumn.length !== columnMetadata.length
+                // loaded columns have the length spanner requires, e.g. STRING(255) of column without length
+                || tableColumn.length !== this.getColumnLength(columnMetadata)
                 || tableColumn.width !== columnMetadata.width
                 || tableColumn.precision !== columnMetadata.precision
                 || tableColumn.scale !== columnMetadata.scale
@@ -666,6 +751,7 @@ export class SpannerDriver implements Driver {
                 || tableColumn.onUpdate !== columnMetadata.onUpdate
                 || tableColumn.isPrimary !== columnMetadata.isPrimary
                 || tableColumn.isNullable !== columnMetadata.isNullable
+                || tableColumn.isArray !== columnMetadata.isArray
                 || tableColumn.isUnique !== this.normalizeIsUnique(columnMetadata)
                 || (columnMetadata.generationStrategy !== "uuid" && tableColumn.isGenerated !== columnMetadata.isGenerated);
         });
@@ -747,35 +833,310 @@ export class SpannerDriver implements Driver {
 
     }
 
+    /**
+     * Prepares a single (non array or array element) value to be persisted.
+     */
+    protected preparePersistentElementValue(value: any, columnMetadata: ColumnMetadata): any {
+        if (columnMetadata.type === "date") {
+            return DateUtils.mixedDateToDateString(value);
+
+        } else if (columnMetadata.type === "timestamp" ||
+            columnMetadata.type === Date) {
+            return DateUtils.mixedDateToDate(value);
+
+        } else if (columnMetadata.type === "numeric") {
+            // decimal string keeps precision which number cannot hold
+            return String(value);
+
+        } else if (columnMetadata.type === "json" || columnMetadata.type === "simple-json") {
+            return DateUtils.simpleJsonToString(value);
+
+        } else if (columnMetadata.type === "simple-array") {
+            return DateUtils.simpleArrayToString(value);
+
+        } else if (
+            columnMetadata.type === "int64" ||
+            columnMetadata.type === "float64" ||
+            columnMetadata.type === "bool" ||
+            columnMetadata.type === "string" ||
+            (<any>columnMetadata.type).name === "String" ||
+            (<any>columnMetadata.type).name === "Number" ||
+            (<any>columnMetadata.type).name === "Boolean" ||
+            columnMetadata.type === "bytes") {
+            return value;
+        }
+
+        throw new DataTypeNotSupportedError(columnMetadata, columnMetadata.type, "spanner");
+    }
+
+    /**
+     * Prepares a single (non array or array element) value fetched from database.
+     */
+    protected prepareHydratedElementValue(value: any, columnMetadata: ColumnMetadata): any {
+        if (columnMetadata.type === "timestamp" ||
+            columnMetadata.type === "date" ||
+            columnMetadata.type === Date) {
+            return DateUtils.mixedDateToDate(value);
+
+        } else if (columnMetadata.type === "numeric") {
+            // spanner client may return NUMERIC as wrapper object holding decimal string
+            return typeof value === "object" && value.value !== undefined ? String(value.value) : String(value);
+
+        } else if (columnMetadata.type === "json" || columnMetadata.type === "simple-json") {
+            return DateUtils.stringToSimpleJson(value);
+
+        } else if (columnMetadata.type === "simple-array") {
+            return DateUtils.stringToSimpleArray(value);
+
+        } else if (
+            columnMetadata.type === "int64" ||
+            columnMetadata.type === "float64" ||
+            columnMetadata.type === "bool" ||
+            columnMetadata.type === "string" ||
+            (<any>columnMetadata.type).name === "String" ||
+            (<any>columnMetadata.type).name === "Number" ||
+            (<any>columnMetadata.type).name === "Boolean" ||
+            columnMetadata.type === "bytes") {
+            return value;
+        }
+
+        throw new DataTypeNotSupportedError(columnMetadata, columnMetadata.type, "spanner");
+    }
+
+    /**
+     * Infers spanner type of the query parameter from its value.
+     * returns undefined if type cannot be inferred (e.g. null), and spanner client infers it by itself.
+     */
+    getParameterType(value: any): SpannerParameterType|undefined {
+        if (value === null || value === undefined) {
+            return undefined;
+
+        } else if (typeof value === "boolean") {
+            return "bool";
+
+        } else if (typeof value === "number") {
+            return Number.isInteger(value) ? "int64" : "float64";
+
+        } else if (typeof value === "string") {
+            return "string";
+
+        } else if (value instanceof Date) {
+            return "timestamp";
+
+        } else if (value instanceof Buffer) {
+            return "bytes";
+
+        } else if (value instanceof SpannerParameter) {
+            return value.type;
+
+        } else if (value.constructor && value.constructor.name === "Struct") {
+            // value created by Spanner.struct(), which is an array of fields.
+            // fields cannot be converted in SQL, so numeric and json fields are sent as strings
+            return { type: "struct", fields: (value as { name: string, value: any }[]).map(field => {
+                const type = this.getParameterType(field.value);
+                return { name: field.name, type: !type || type === "numeric" || type === "json" ? "string" : type };
+            }) };
+
+        } else if (value instanceof Array) {
+            const element = value.find(element => element !== null && element !== undefined);
+            const child = this.getParameterType(element);
+            return child ? { type: "array", child } : undefined;
+
+        } else if (value.constructor && (value.constructor.name === "Int" || value.constructor.name === "Float")) {
+            // values created by Spanner.int() and Spanner.float()
+            return value.constructor.name === "Int" ? "int64" : "float64";
+
+        } else if (typeof value === "object") {
+            return "json";
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Returns spanner type of query parameter compared with the column.
+     * array value for non-array column (e.g. IN UNNEST(@param)) is typed as array of the column type,
+     * and non-array value for array column (e.g. value of ArrayContains) is typed as its element.
+     */
+    getColumnParameterType(column: ColumnMetadata, value: any): SpannerParameterType {
+        const type = this.normalizeType(column);
+        const elementType = type === "simple-json" || type === "simple-array" ? "string" : type;
+        return value instanceof Array ? { type: "array", child: elementType } : elementType;
+    }
+
+    /**
+     * Spanner's parameters need to be sent with their types, otherwise spanner client infers them from values.
+     * This method wraps the value into SpannerParameter based on the column definition.
+     * value should be already prepared by preparePersistentValue (only Date for DATE column is converted here).
+     */
+    parametrizeValue(column: ColumnMetadata, value: any): SpannerParameter {
+        // if its already SpannerParameter then simply return it
+        if (value instanceof SpannerParameter)
+            return value;
+
+        const type = this.getColumnParameterType(column, value);
+        if (this.normalizeType(column) === "date") {
+            const toDateString = (element: any) => element instanceof Date ? DateUtils.mixedDateToDateString(element) : element;
+            value = value instanceof Array ? value.map(toDateString) : toDateString(value);
+        }
+        return new SpannerParameter(value, type);
+    }
+
+    /**
+     * Converts parameter value into the form spanner client can send as the given type.
+     */
+    prepareParameterValue(value: any, type: SpannerParameterType|undefined): any {
+        if (value instanceof SpannerParameter)
+            value = value.value;
+
+        if (value === null || value === undefined || !type)
+            return value;
+
+        // numeric and json are sent as strings, see getStringEncodedParameter
+        if (type === "numeric")
+            return String(value);
+        if (type === "json")
+            return typeof value === "string" ? value : JSON.stringify(value);
+        if (typeof type === "string")
+            return value;
+
+        if (type.type === "array" && value instanceof Array) {
+            return value.map(element => this.prepareParameterValue(element, type.child));
+
+        } else if (type.type === "struct" && !(value instanceof Array)) {
+            // plain object given for struct parameter is converted into Spanner.struct
+            return this.spannerLib.Spanner.struct(value);
+        }
+        return value;
+    }
+
+    /**
+     * spanner client 2.x has no type codes for NUMERIC and JSON, so their parameters (and arrays of them) are sent as STRING,
+     * and converted into the actual type in SQL. returns the type to send and the expression which replaces the parameter in SQL,
+     * or undefined if the parameter is sent with its own type.
+     */
+    getStringEncodedParameter(name: string, type: SpannerParameterType|undefined): { type: SpannerParameterType, expression: string }|undefined {
+        const convert = (expression: string, type: SpannerParameterType|undefined) => type === "numeric" ? `CAST(${expression} AS NUMERIC)` : `PARSE_JSON(${expression})`;
+        if (type === "numeric" || type === "json")
+            return { type: "string", expression: convert(`@${name}`, type) };
+
+        if (type && typeof type === "object" && type.type === "array" && (type.child === "numeric" || type.child === "json")) {
+            const expression = `ARRAY(SELECT ${convert("element", type.child)} FROM UNNEST(@${name}) AS element WITH OFFSET AS element_offset ORDER BY element_offset)`;
+            return { type: { type: "array", child: "string" }, expression };
+        }
+        return undefined;
+    }
+
     /**
      * parse typename and return additional information required by TableColumn object.
+     * e.g. STRING(255), STRING(MAX), ARRAY<INT64>, ARRAY<STRING(MAX)>
      */
     protected parseTypeName(typeName: string): {
         typeName: string;
         isArray: boolean;
-        length: number;
+        length: string;
     } {
-        const tm = typeName.match(/([^\(]+)\((\d+)\)/);
+        const am = typeName.match(/^\s*ARRAY\s*<\s*(.+?)\s*>\s*$/i);
+        const elementTypeName = am ? am[1] : typeName;
+        const tm = elementTypeName.match(/([^\(]+)\((\d+|MAX)\)/i);
         if (tm) {
             return {
                 typeName: tm[1].toLowerCase(),
-                isArray: false,
-                length: Number(tm[2])
+                isArray: !!am,
+                length: tm[2].toUpperCase()
             };
-        } 
-        const am = typeName.match(/([^<]+)<(\w+)>/);
-        if (am) {
-            return {
-                typeName: typeName.toLowerCase(),
-                isArray: true,
-                length: 1
+        }
+        return {
+            typeName: elementTypeName.toLowerCase(),
+            isArray: !!am,
+            // types without length, e.g. INT64, have no length in TableColumn either
+            length: ""
+        }
+    }
+
+    /**
+     * split definitions listed in CREATE TABLE statement by commas, except ones in parentheses.
+     */
+    protected splitDefinitions(definitions: string): string[] {
+        const result: string[] = [];
+        let depth = 0;
+        let start = 0;
+        for (let i = 0; i < definitions.length; i++) {
+            const c = definitions[i];
+            if (c === "(") {
+                depth++;
+            } else if (c === ")") {
+                depth--;
+            } else if (c === "," && depth === 0) {
+                result.push(definitions.substring(start, i));
+                start = i + 1;
             }
         }
+        result.push(definitions.substring(start));
+        return result.filter(definition => definition.trim().length > 0);
+    }
+
+    /**
+     * parse foreign key constraint. returns undefined if given definition is not a foreign key.
+     * definition =~ [CONSTRAINT ${name}] FOREIGN KEY (${columns}) REFERENCES ${tableName} (${columns}) [ON DELETE (CASCADE|NO ACTION)]
+     */
+    protected parseForeignKey(definition: string): TableForeignKeyOptions|undefined {
+        const fm = definition.match(/^\s*(?:CONSTRAINT\s+`?(\w+)`?\s+)?FOREIGN\s+KEY\s*\(([^)]+)\)\s*REFERENCES\s+`?(\w+)`?\s*\(([^)]+)\)(?:\s+ON\s+DELETE\s+(CASCADE|NO\s+ACTION))?/);
+        if (!fm)
+            return undefined;
+
+        const parseColumnNames = (columnNames: string) => columnNames.split(",").map(e => e.trim().replace(/`/g, ""));
+        return {
+            name: fm[1],
+            columnNames: parseColumnNames(fm[2]),
+            referencedTableName: fm[3],
+            referencedColumnNames: parseColumnNames(fm[4]),
+            onDelete: fm[5] && fm[5].indexOf("CASCADE") === 0 ? "CASCADE" : "NO ACTION"
+        };
+    }
+
+    /**
+     * parse check constraint. returns undefined if given definition is not a check constraint.
+     * definition =~ CONSTRAINT ${name} CHECK (${expression})
+     */
+    protected parseCheck(definition: string): TableCheckOptions|undefined {
+        const cm = definition.match(/^\s*CONSTRAINT\s+`?(\w+)`?\s+CHECK\s*\(([\s\S]*)\)\s*$/);
+        if (!cm)
+            return undefined;
+
         return {
-            typeName: typeName.toLowerCase(),
-            isArray: false,
-            length: 1
+            name: cm[1],
+            expression: cm[2].trim()
+        };
+    }
+
+    /**
+     * parse parenthesized expression which follows given keyword in column attributes, except ones in parentheses.
+     * returns undefined if the keyword is not found.
+     * attributes =~ [NOT NULL] [${keyword} (${expression})] ...
+     */
+    protected parseColumnExpression(attributes: string, keyword: string): string|undefined {
+        const keywordPattern = new RegExp(`^${keyword}\\s*\\(`);
+        let depth = 0;
+        let start = -1;
+        for (let i = 0; i < attributes.length; i++) {
+            const c = attributes[i];
+            if (c === "(") {
+                depth++;
+            } else if (c === ")") {
+                depth--;
+                if (depth === 0 && start >= 0)
+                    return attributes.substring(start, i);
+            } else if (depth === 0 && start < 0 && (i === 0 || /\s/.test(attributes[i - 1]))) {
+                const km = attributes.substring(i).match(keywordPattern);
+                if (km) {
+                    start = i + km[0].length;
+                    depth++;
+                    i = start - 1;
+                }
+            }
         }
+        return undefined;
     }
 
      /**
@@ -783,6 +1144,8 @@ export class SpannerDriver implements Driver {
      */
     private async parseSchema(ddlStatements: string[]): Promise<{[tableName: string]: Table}> {
         const tableOptionsMap: {[tableName: string]: TableOptions} = {};
+        const indexStatements: string[] = [];
+        const constraintStatements: string[] = [];
         // console.log('================================================================')
         // console.log('PARSE SCHEMA')
         // console.log('statements', ddlStatements)
@@ -798,6 +1161,17 @@ export class SpannerDriver implements Driver {
             ) PRIMARY KEY(id)
             in below regex, ,(?=\s*\)) is matched `,\n)` just before PRIMARY KEY
             */
+            if (stmt.match(/^\s*CREATE\s+(UNIQUE\s+)?(NULL_FILTERED\s+)?INDEX\s/)) {
+                // parse indices after all tables are parsed
+                indexStatements.push(stmt);
+                continue;
+            }
+            // stmt =~ ALTER TABLE ${tableName} ADD [CONSTRAINT ${name}] (FOREIGN KEY ...|CHECK ...)
+            if (stmt.match(/^\s*ALTER\s+TABLE\s+`?(\w+)`?\s+ADD\s+(CONSTRAINT|FOREIGN\s+KEY)\s/)) {
+                // parse constraints after all tables are parsed
+                constraintStatements.push(stmt);
+                continue;
+            }
             const m = stmt.match(/\s*CREATE\s+TABLE\s+(\w+)\s?[^\(]*\(([\s\S]*?),(?=\s*\))\s*\)([\s\S]*)/);
             if (!m) {
                 // Just ignore indicies instead of throwing - we want to support migrations
@@ -809,87 +1183,76 @@ export class SpannerDriver implements Driver {
             const indexStmts: string = m[3];
             // parse columns
             const columns: TableColumnOptions[] = [];
-            for (const columnStmt of columnStmts.split(',')) {
+            const foreignKeys: TableForeignKeyOptions[] = [];
+            const checks: TableCheckOptions[] = [];
+            for (const columnStmt of this.splitDefinitions(columnStmts)) {
                 // console.log('columnStmt', columnStmt);
-                const cm = columnStmt.match(/(\w+)\s+([\w\(\)]+)\s*([^\n]*)/);
+                // constraints are listed with columns, e.g. CONSTRAINT ${name} FOREIGN KEY (${columns}) REFERENCES ${tableName} (${columns})
+                const foreignKey = this.parseForeignKey(columnStmt);
+                if (foreignKey) {
+                    foreignKeys.push(foreignKey);
+                    continue;
+                }
+                const check = this.parseCheck(columnStmt);
+                if (check) {
+                    checks.push(check);
+                    continue;
+                }
+                const cm = columnStmt.match(/(\w+)\s+([\w\(\)<>]+)\s*([\s\S]*)/);
                 if (!cm) {
                     throw new Error("invalid ddl column format:" + columnStmt);
                 }
                 const type = this.parseTypeName(cm[2]);
-                // check and store constraint with m[3]
+                // cm[3] =~ [NOT NULL] [DEFAULT (${expression})|AS (${expression}) STORED] [OPTIONS (allow_commit_timestamp=true)]
+                const defaultExpression = this.parseColumnExpression(cm[3], "DEFAULT");
+                const asExpression = this.parseColumnExpression(cm[3], "AS");
+                // remove expressions so that keywords in them are not matched below
+                let attributes = cm[3];
+                if (defaultExpression !== undefined)
+                    attributes = attributes.replace(`(${defaultExpression})`, "");
+                if (asExpression !== undefined)
+                    attributes = attributes.replace(`(${asExpression})`, "");
+                const allowCommitTimestamp = /OPTIONS\s*\([^)]*allow_commit_timestamp\s*=\s*true/i.test(attributes);
                 columns.push({
                     name: cm[1],
                     type: type.typeName,
-                    isNullable: cm[3].indexOf("NOT NULL") < 0,
+                    isNullable: attributes.indexOf("NOT NULL") < 0,
                     isGenerated: false, // set in updateTableWithExtendSchema
                     isPrimary: false, // set afterwards
                     isUnique: false, // set afterwards
                     isArray: type.isArray,
-                    length: type.length.toString(), 
-                    default: undefined, // set in updateTableWithExtendSchema
+                    length: type.length,
+                    default: allowCommitTimestamp ? SpannerColumnUpdateWithCommitTimestamp : defaultExpression && defaultExpression.trim(),
+                    asExpression: asExpression && asExpression.trim(),
+                    generatedType: asExpression !== undefined ? "STORED" : undefined,
                     generationStrategy: undefined, // set in updateTableWithExtendSchema
                 });
             }
-            // parse primary and interleave statements
+            // parse interleave clause
+            // indexStmts =~ PRIMARY KEY (${columns}), INTERLEAVE IN PARENT ${parentTableName} ON DELETE (CASCADE|NO ACTION)
+            let interleave: TableInterleaveOptions|undefined;
+            const im = indexStmts && indexStmts.match(/INTERLEAVE\s+IN\s+PARENT\s+`?(\w+)`?(?:\s+ON\s+DELETE\s+(CASCADE|NO\s+ACTION))?/);
+            if (im) {
+                interleave = {
+                    parentTableName: im[1],
+                    onDelete: im[2] && im[2].indexOf("CASCADE") === 0 ? "CASCADE" : "NO ACTION"
+                };
+            }
+            // parse primary key statement
             const indices: TableIndexOptions[] = [];
-            const foreignKeys: TableForeignKeyOptions[] = [];
-            const uniques: TableUniqueOptions[] = [];
             // probably tweak required (need to see actual index/interleave statements format)
             if (indexStmts == null) {
                 continue;
             }
             for (const idxStmt of (indexStmts.match(/(\w+[\w\s]+\([^)]+\)[^,]*)/g) || [])) {
                 // console.log('idxStmt', idxStmt);
-                // distinguish index and foreignKey. fk should contains INTERLEAVE
-                if (idxStmt.indexOf("INTERLEAVE") == 0) {
-                    // foreighkey
-                    // idxStmt =~ INTERLEAVE IN PARENT ${this.escapeTableName(fk.referencedTableName)}
-                    const im = idxStmt.match(/INTERLEAVE\s+IN\s+PARENT\s+(\w+)\s*\((\w+)\)/);
-                    if (im) {
-                        // foreignKeys.push({
-                        //     name: tableName,
-                        //     columnNames: [`${m[2]}_id`],
-                        //     referencedTableName: m[2],
-                        //     referencedColumnNames: [] // set afterwards (primary key column of referencedTable)
-                        // });
-                        // return m[0];
-                        throw new Error("NYI spanner: handle interleaved index")
-                    }
-                } else if (idxStmt.indexOf("PRIMARY") == 0) {
-                    // primary key
-                    // idxStmt =~ PRIMARY KEY (${columns})
-                    const pm = idxStmt.match(/PRIMARY\s+KEY\s*\(([^)]+)\)/);
-                    if (pm) {
-                        for (const primaryColumnName of pm[1].split(',').map(e => e.trim())) {
-                            const options = columns.find(c => c.name == primaryColumnName);
-                            if (options) {
-                                options.isPrimary = true;
-                            }
-                        }
-                    };
-                } else {
-                    // index
-                    // idxStmt =~ (UNIQUE|NULL_FILTERED) INDEX ${name} ON ${tableName}(${columns})
-                    const im = idxStmt.match(/(\w[\w\s]+?)\s+INDEX\s+(\w+)\s+ON\s+(\w+)\s*\(([^)]+)\)(.*)/);
-                    if (im) {
-                        const tableIndexOptions = {
-                            name: im[2],
-                            columnNames: im[4].split(",").map(e => e.trim()),
-                            isUnique: im[1].indexOf("UNIQUE") >= 0,
-                            isSpatial: im[1].indexOf("NULL_FILTERED") >= 0
-                        };
-                        indices.push(tableIndexOptions);
-                        if (tableIndexOptions.isUnique) {
-                            uniques.push({
-                                name: tableIndexOptions.name,
-                                columnNames: tableIndexOptions.columnNames
-                            });
-                            for (const uniqueColumnName of tableIndexOptions.columnNames) {
-                                const options = columns.find(c => c.name == uniqueColumnName);
-                                if (options) {
-                                    options.isUnique = true;
-                                }
-                            }
+                // idxStmt =~ PRIMARY KEY (${columns})
+                const pm = idxStmt.match(/PRIMARY\s+KEY\s*\(([^)]+)\)/);
+                if (pm) {
+                    for (const primaryColumnName of pm[1].split(",").map(e => e.trim())) {
+                        const options = columns.find(c => c.name === primaryColumnName);
+                        if (options) {
+                            options.isPrimary = true;
                         }
                     }
                 }
@@ -899,8 +1262,46 @@ export class SpannerDriver implements Driver {
                 columns,
                 indices,
                 foreignKeys,
-                uniques
+                checks,
+                interleave
+            };
+        }
+        for (const stmt of indexStatements) {
+            // stmt =~ CREATE [UNIQUE] [NULL_FILTERED] INDEX ${name} ON ${tableName} (${columns}) [STORING (${columns})] [, INTERLEAVE IN ${tableName}]
+            const im = stmt.match(/CREATE\s+(UNIQUE\s+)?(NULL_FILTERED\s+)?INDEX\s+`?(\w+)`?\s+ON\s+`?(\w+)`?\s*\(([^)]+)\)(?:\s*STORING\s*\(([^)]+)\))?(?:\s*,\s*INTERLEAVE\s+IN\s+`?(\w+)`?)?/);
+            if (!im || !tableOptionsMap[im[4]]) {
+                continue;
+            }
+            const tableOptions = tableOptionsMap[im[4]];
+            const parseColumnNames = (columnNames: string) => columnNames.split(",").map(e => e.trim().replace(/`/g, "").replace(/\s+(ASC|DESC)$/i, ""));
+            const tableIndexOptions: TableIndexOptions = {
+                name: im[3],
+                columnNames: parseColumnNames(im[5]),
+                isUnique: !!im[1],
+                isNullFiltered: !!im[2],
+                storingColumnNames: im[6] ? parseColumnNames(im[6]) : [],
+                interleaveIn: im[7]
             };
+            tableOptions.indices!.push(tableIndexOptions);
+            // unique constraints are managed as unique indices, so they are not listed in table uniques
+            if (tableIndexOptions.isUnique && tableIndexOptions.columnNames.length === 1) {
+                const options = tableOptions.columns!.find(c => c.name === tableIndexOptions.columnNames[0]);
+                if (options) {
+                    options.isUnique = true;
+                }
+            }
+        }
+        for (const stmt of constraintStatements) {
+            const am = stmt.match(/^\s*ALTER\s+TABLE\s+`?(\w+)`?\s+ADD\s+([\s\S]*)/)!;
+            const tableOptions = tableOptionsMap[am[1]];
+            if (!tableOptions)
+                continue;
+            const foreignKey = this.parseForeignKey(am[2]);
+            if (foreignKey)
+                tableOptions.foreignKeys!.push(foreignKey);
+            const check = this.parseCheck(am[2]);
+            if (check)
+                tableOptions.checks!.push(check);
         }
         this.linkOptions(tableOptionsMap);
         const result: { [tableName:string]: Table } = {};
@@ -919,8 +1320,8 @@ export class SpannerDriver implements Driver {
                     const columnSchema = extendSchema[columnName];
                     const column = table.findColumnByName(columnName);
                     if (column) {
+                        // default is read from the column DDL
                         column.isGenerated = !!columnSchema.generator;
-                        column.default = columnSchema.default;
                         column.generationStrategy = columnSchema.generatorStorategy;
                     } else {
                         console.log(`extendSchema for column ${columnName} exists but table does not have it`);
@@ -0,0 +1,21 @@
+import {SpannerParameterType} from "./SpannerRawTypes";
+
+/**
+ * Spanner query parameter sent with explicit spanner type.
+ * Without it, type of the parameter is inferred from its value, which cannot tell e.g. DATE from TIMESTAMP,
+ * INT64 given as string (to keep values beyond 2^53) from STRING, or type of NULL.
+ * Query builders create it from column metadata, and it can be passed to raw queries, e.g.
+ * connection.query("SELECT * FROM `user` WHERE `birthday` = @birthday", [{ birthday: new SpannerParameter("2000-01-01", "date") }])
+ *
+ * @see https://cloud.google.com/spanner/docs/data-types
+ */
+export class SpannerParameter {
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public value: any, public type: SpannerParameterType) {
+    }
+
+}
@@ -0,0 +1,119 @@
+/**
+ * Node of spanner query plan.
+ *
+ * @see https://cloud.google.com/spanner/docs/query-execution-plans
+ */
+export interface SpannerQueryPlanNode {
+
+    /**
+     * Index of the node in the plan.
+     */
+    readonly index: number;
+
+    /**
+     * Kind of the node, "RELATIONAL" or "SCALAR".
+     */
+    readonly kind: string;
+
+    /**
+     * Name of the operator, e.g. "Distributed Union", "Table Scan", "Filter".
+     */
+    readonly displayName: string;
+
+    /**
+     * Short representation of scalar node, e.g. filter condition.
+     */
+    readonly description?: string;
+
+    /**
+     * Operator specific information, e.g. scanned table and scan method.
+     */
+    readonly metadata: { [key: string]: any };
+
+    /**
+     * Number of rows produced by the operator. Only available with analyze.
+     */
+    readonly rows?: number;
+
+    /**
+     * Rows scanned by scan operator. Only available with analyze.
+     */
+    readonly scannedRows?: number;
+
+    /**
+     * CPU time spent by the operator, e.g. "0.35 msecs". Only available with analyze.
+     */
+    readonly cpuTime?: string;
+
+    /**
+     * Latency of the operator, e.g. "1.2 msecs". Only available with analyze.
+     */
+    readonly latency?: string;
+
+    /**
+     * Raw execution statistics of the operator. Only available with analyze.
+     */
+    readonly executionStats?: { [key: string]: any };
+
+    /**
+     * Child nodes.
+     */
+    readonly children: SpannerQueryPlanNode[];
+}
+
+/**
+ * Statistics of the query execution. Only available with analyze.
+ */
+export interface SpannerQueryStats {
+
+    /**
+     * Number of rows returned by the query.
+     */
+    readonly rowsReturned?: number;
+
+    /**
+     * Number of rows scanned by the query.
+     */
+    readonly rowsScanned?: number;
+
+    /**
+     * Total CPU time, e.g. "1.35 msecs".
+     */
+    readonly cpuTime?: string;
+
+    /**
+     * Elapsed time, e.g. "2.4 msecs".
+     */
+    readonly elapsedTime?: string;
+
+    /**
+     * Time spent to create the query plan.
+     */
+    readonly queryPlanCreationTime?: string;
+
+    /**
+     * All statistics returned by spanner.
+     */
+    readonly raw: { [key: string]: any };
+}
+
+/**
+ * Query plan returned by SpannerQueryRunner.explain.
+ */
+export interface SpannerQueryPlan {
+
+    /**
+     * Root node of the plan tree.
+     */
+    readonly root?: SpannerQueryPlanNode;
+
+    /**
+     * All nodes of the plan, ordered by index.
+     */
+    readonly nodes: SpannerQueryPlanNode[];
+
+    /**
+     * Statistics of the query execution. Only available with analyze.
+     */
+    readonly stats?: SpannerQueryStats;
+}
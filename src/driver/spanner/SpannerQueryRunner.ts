@@ -7,7 +7,7 @@ import {TableForeignKey} from "../../schema-builder/table/TableForeignKey";
 import {TableIndex} from "../../schema-builder/table/TableIndex";
 import {QueryRunnerAlreadyReleasedError} from "../../error/QueryRunnerAlreadyReleasedError";
 import {SpannerDriver, SpannerColumnUpdateWithCommitTimestamp} from "./SpannerDriver";
-import {SpannerExtendSchemas} from "./SpannerRawTypes";
+import {SpannerExtendSchemas, SpannerParameterType} from "./SpannerRawTypes";
 import {ReadStream} from "../../platform/PlatformTools";
 import {RandomGenerator} from "../../util/RandomGenerator";
 import {QueryFailedError} from "../../error/QueryFailedError";
@@ -19,6 +19,18 @@ import {TableCheck} from "../../schema-builder/table/TableCheck";
 import {IsolationLevel} from "../types/IsolationLevel";
 import {QueryBuilder} from "../../query-builder/QueryBuilder";
 import {ObjectLiteral} from "../../common/ObjectLiteral";
+import {TransactionOptions} from "../types/TransactionOptions";
+import {SpannerTimestampBound} from "./SpannerTimestampBound";
+import {SpannerQueryPlan, SpannerQueryPlanNode} from "./SpannerQueryPlan";
+import {SpannerDDLTranslator} from "./SpannerDDLTranslator";
+import {ColumnMetadata} from "../../metadata/ColumnMetadata";
+import {OrmUtils} from "../../util/OrmUtils";
+
+/**
+ * comment which marks INSERT ... SELECT recorded by table rebuild. such statement is executed as batched copy
+ * of rows by mutations, because single DML transaction is limited by mutations per commit.
+ */
+const BatchedCopyMarker = "/* batched copy */";
 
 
 /**
@@ -44,6 +56,50 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      */
     protected tx: any; 
 
+    /**
+     * timestamp bound of active read-only transaction.
+     * undefined if read-write transaction is active or no transaction is started.
+     */
+    protected readOnlyBound?: SpannerTimestampBound;
+
+    /**
+     * timestamp which spanner selected for reads of the last read-only transaction.
+     */
+    protected readTimestamp?: Date;
+
+    /**
+     * timestamp at which spanner committed the last read-write transaction (or mutations sent outside of transaction).
+     */
+    protected commitTimestamp?: Date;
+
+    /**
+     * entities which commit timestamp columns are filled after the next commit.
+     */
+    protected commitTimestampEntities: { entity: ObjectLiteral, columns: ColumnMetadata[] }[] = [];
+
+    /**
+     * true while schema changes built by this query runner run, which are already written in spanner DDL.
+     */
+    protected runningSchemaQueries: boolean = false;
+
+    /**
+     * state of the migration running by this query runner.
+     * DDL statements are queued in ddlBatch and applied by single schema update,
+     * statements already applied by the failed run (skipStatements) are skipped.
+     */
+    protected migrationRun?: {
+        skipStatements: number,
+        seenStatements: number,
+        appliedStatements: number,
+        ddlBatch: string[],
+        onProgress?: (appliedStatements: number) => Promise<void>
+    };
+
+    /**
+     * number of running writes of extended schema rows, which do not apply DDL queued by the running migration.
+     */
+    protected writingExtendSchema: number = 0;
+
 
     // -------------------------------------------------------------------------
     // Constructor
@@ -68,6 +124,7 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         if (!this.databaseConnection) {
             return (async () => {
                 this.databaseConnection = await this.driver.getDatabaseHandle();
+                return this.databaseConnection;
             })();
         }
         return Promise.resolve(this.databaseConnection);
@@ -83,22 +140,67 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
 
     /**
      * Starts transaction on the current connection.
+     * spanner read-write transaction is always serializable, so isolation level is ignored.
+     * passing readOnly option starts read-only snapshot transaction with given timestamp bound.
      */
-    async startTransaction(isolationLevel?: IsolationLevel): Promise<void> {
+    async startTransaction(isolationLevelOrOptions?: IsolationLevel|TransactionOptions): Promise<void> {
         if (this.isTransactionActive)
             throw new TransactionAlreadyStartedError();
-            
+
+        const readOnly = typeof isolationLevelOrOptions === "object" ? isolationLevelOrOptions.readOnly : undefined;
         this.isTransactionActive = true;
-        return this.connect().then(async (db) => {
-          // TODO: Specify spanner transaction types
-            const txResponse = await this.databaseConnection.getTransaction({
-              readOnly: false
-                // //readOnly: true,
-                // strong: !!isolationLevel
-            });
+        this.commitTimestamp = undefined;
+        try {
+            await this.connect();
+            if (readOnly) {
+                const bound: SpannerTimestampBound = readOnly === true ? { strong: true } : readOnly;
+                this.readOnlyBound = bound;
+                this.readTimestamp = undefined;
+
+                // spanner accepts max staleness and min read timestamp bounds only for single-use reads,
+                // so we do not begin transaction for them and each read is executed with the bound.
+                if (this.isSingleUseTimestampBound(bound))
+                    return;
 
-            this.tx = txResponse[0]
-        });
+                const [tx] = await this.databaseConnection.getTransaction({ ...bound, readOnly: true });
+                this.tx = tx;
+                this.readTimestamp = tx.readTimestamp;
+            } else {
+                const txResponse = await this.databaseConnection.getTransaction({
+                    readOnly: false
+                });
+                this.tx = txResponse[0];
+            }
+        } catch (e) {
+            this.releaseTransaction();
+            throw e;
+        }
+    }
+
+    /**
+     * Returns timestamp at which the last read-only transaction read the data.
+     * for maxStaleness and minReadTimestamp bounds spanner selects timestamp for each read,
+     * so timestamp of the last read is returned. undefined until first read is done.
+     */
+    getReadTimestamp(): Date|undefined {
+        return this.readTimestamp;
+    }
+
+    /**
+     * Returns timestamp at which spanner committed the last read-write transaction,
+     * or the last mutations which were sent outside of transaction.
+     * undefined until the transaction started last is committed, or if it is read-only.
+     */
+    getCommitTimestamp(): Date|undefined {
+        return this.commitTimestamp;
+    }
+
+    /**
+     * Fills given commit timestamp columns of the entity with the commit timestamp, once the data is committed.
+     * should be called before the data is written, because mutations outside of transaction are committed immediately.
+     */
+    fillCommitTimestampOnCommit(entity: ObjectLiteral, columns: ColumnMetadata[]): void {
+        this.commitTimestampEntities.push({ entity, columns });
     }
 
     /**
@@ -109,12 +211,21 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
       // console.log('SpannerQueryRunner.commitTransaction')
         if (!this.isTransactionActive)
             throw new TransactionNotStartedError();
-            
-        await new Promise((res, rej) => this.tx.commit((err: Error) => {
-            if (err) { rej(err); }
+
+        // read-only transaction has nothing to commit
+        if (this.readOnlyBound)
+            return this.releaseTransaction();
+
+        await new Promise((res, rej) => this.tx.commit((err: Error, response?: ObjectLiteral) => {
+            if (err) {
+                if (this.driver.isTransactionAbortedError(err))
+                    this.releaseTransaction();
+                rej(err);
+            }
             else { 
                 this.tx = null;
                 this.isTransactionActive = false;
+                this.applyCommitTimestamp(response);
                 res(); 
             }
         }));
@@ -129,11 +240,20 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         if (!this.isTransactionActive)
             throw new TransactionNotStartedError();
 
+        if (this.readOnlyBound)
+            return this.releaseTransaction();
+
         await new Promise((res, rej) => this.tx.rollback((err: Error) => {
-            if (err) { rej(err); }
+            if (err && this.driver.isTransactionAbortedError(err)) {
+                // spanner already rolled back aborted transaction
+                this.releaseTransaction();
+                res();
+            }
+            else if (err) { rej(err); }
             else { 
                 this.tx = null;
                 this.isTransactionActive = false;
+                this.commitTimestampEntities = [];
                 res(); 
             }
         }));
@@ -148,8 +268,13 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
 
         // handle administrative queries.
         let m: RegExpMatchArray | null;
-        
-        if ((m = query.match(/^\s*(CREATE|DROP|ALTER)\s+(.+)/s))) {
+
+        // DDL of migrations written in other dialect is translated into spanner schema changes
+        if (this.driver.ddlParser && !this.runningSchemaQueries && query.match(/^\s*(CREATE|DROP|ALTER|RENAME)\s/i)) {
+            this.driver.connection.logger.logQuery(query, parameters, this);
+            return new SpannerDDLTranslator(this).run(query);
+
+        } else if ((m = query.match(/^\s*(CREATE|DROP|ALTER)\s+(.+)/s))) {
             const statements = query
               .split(';')
               .map(statement => statement.trim())
@@ -157,7 +282,15 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
 
             this.driver.connection.logger.logQuery(query, parameters, this);
 
+            if (this.migrationRun && !m[2].match(/^DATABASE\s/i))
+                return this.queueMigrationDDL(statements);
+
             return this.simpleHandleAdministrativeQuery(statements)
+        } else if (query.match(/^\s*(INSERT|UPDATE|DELETE)\s/i) || query.trim().startsWith(BatchedCopyMarker)) {
+            // DML statements, e.g. ones recorded in migrations
+            if (this.migrationRun)
+                return this.runMigrationDML(query, parameters);
+            return this.executeDML(query, parameters);
         } else if (!query.match(/^\s*SELECT\s+(.+)/)) {
             throw new Error(`the query cannot handle by this function: ${query}`);
         }
@@ -165,9 +298,10 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         return new Promise(async (ok, fail) => {
             try {
                 await this.connect();
+                // queued DDL of the migration should be applied before reading
+                await this.flushMigrationDDL();
                 const db = this.databaseConnection;
-                // const [params, types] = this.generateQueryParameterAndTypes(parameters);
-                const params = this.generateQueryParameters(parameters)
+                const [sql, params, types] = this.generateQueryParameterAndTypes(query, parameters);
                 
                 // const params = { id: 'b993f470-eb84-472b-a34e-96c0d564d563'}
                 // const types = {}
@@ -182,15 +316,26 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
 
                 this.driver.connection.logger.logQuery(query, parameters, this);
                 const queryStartTime = +new Date();
-                db.run({sql: query, params, types: {}, json: true}, (err: any, result: any) => {
+                const request: ObjectLiteral = {sql, params, types, json: true};
+                // INT64 (and FLOAT64) values are wrapped by spanner client, and unwrapped below without rounding
+                if (this.driver.options.bigNumberStrings)
+                    request.jsonOptions = { wrapNumbers: true };
+                // profile the query to log execution statistics of slow queries
+                const maxQueryExecutionTime = this.driver.connection.options.maxQueryExecutionTime;
+                const profile = !!maxQueryExecutionTime && !!this.driver.options.logSlowQueryStats;
+                if (profile)
+                    request.queryMode = "PROFILE";
+                const callback = (err: any, result?: any, stats?: any) => {
 
 
                     // log slow queries if maxQueryExecution time is set
-                    const maxQueryExecutionTime = this.driver.connection.options.maxQueryExecutionTime;
                     const queryEndTime = +new Date();
                     const queryExecutionTime = queryEndTime - queryStartTime;
-                    if (maxQueryExecutionTime && queryExecutionTime > maxQueryExecutionTime)
+                    if (maxQueryExecutionTime && queryExecutionTime > maxQueryExecutionTime) {
                         this.driver.connection.logger.logQuerySlow(queryExecutionTime, query, parameters, this);
+                        if (stats)
+                            this.driver.connection.logger.log("warn", this.formatQueryPlan(this.buildQueryPlan(stats)), this);
+                    }
 
                     if (err) {
                         this.driver.connection.logger.logQueryError(err, query, parameters, this);
@@ -202,8 +347,21 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
                     // console.log(JSON.stringify(result, null, 2))
                     // console.log('========================================================================')
 
-                    ok(result);
-                });
+                    ok(this.driver.options.bigNumberStrings && result instanceof Array ? result.map(row => this.unwrapNumbers(row)) : result);
+                };
+
+                if (this.readOnlyBound || profile) {
+                    this.runQueryStream(request).then(([rows, stats]) => callback(null, rows, stats), err => callback(err));
+                } else if (this.tx) {
+                    // read in the active read-write transaction, so that rows read are locked until it ends
+                    this.tx.run(request, (err: any, result?: any) => {
+                        if (err && this.driver.isTransactionAbortedError(err))
+                            this.releaseTransaction();
+                        callback(err, result);
+                    });
+                } else {
+                    db.run(request, callback);
+                }
 
             } catch (err) {
                 fail(err);
@@ -211,6 +369,31 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         });
     }
 
+    /**
+     * Returns spanner's query plan of the given SELECT query, without executing it.
+     * With analyze, the query is executed in PROFILE mode, and the plan has execution statistics.
+     */
+    async explain(query: string, parameters?: any[], analyze: boolean = false): Promise<SpannerQueryPlan> {
+        if (this.isReleased)
+            throw new QueryRunnerAlreadyReleasedError();
+
+        if (!query.match(/^\s*SELECT\s/i))
+            throw new Error(`only SELECT query can be explained: ${query}`);
+
+        await this.connect();
+        const [sql, params, types] = this.generateQueryParameterAndTypes(query, parameters);
+        const request: ObjectLiteral = {sql, params, types, json: true, queryMode: analyze ? "PROFILE" : "PLAN"};
+        this.driver.connection.logger.logQuery(query, parameters, this);
+        try {
+            const [, stats] = await this.runQueryStream(request);
+            return this.buildQueryPlan(stats);
+
+        } catch (err) {
+            this.driver.connection.logger.logQueryError(err, query, parameters, this);
+            throw new QueryFailedError(query, parameters, err);
+        }
+    }
+
     /**
      * execute query. call from XXXQueryBuilder
      */
@@ -221,12 +404,27 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
       // console.log('======================================================================')
         const fmaps: { [key:string]:(qb:QueryBuilder<Entity>) => Promise<any>} = {
             select: this.select,
-            insert: this.insert, 
+            insert: qb.expressionMap.onDuplicate ? this.upsert : this.insert, 
             update: this.update,
             delete: this.delete
         };
         
-        return fmaps[qb.expressionMap.queryType].call(this, qb);
+        // writes of the running migration are counted as its statements, in the same way as DML statements are
+        const queryType = qb.expressionMap.queryType;
+        if (this.migrationRun && queryType !== "select") {
+            const skippedResult = queryType === "update" || queryType === "delete" ? [undefined, 0] : qb.expressionMap.valuesSet;
+            return this.runMigrationWrite(`${queryType} of ${qb.mainTableName}`, () => fmaps[queryType].call(this, qb), skippedResult);
+        }
+        return fmaps[queryType].call(this, qb);
+    }
+
+    /**
+     * Loads given table's data from the database.
+     * while migration runs, its queued DDL is applied first, so that the table is loaded as the migration changed it.
+     */
+    async getTable(tablePath: string): Promise<Table|undefined> {
+        await this.flushMigrationDDLForRows();
+        return super.getTable(tablePath);
     }
 
     /**
@@ -240,9 +438,9 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             try {
                 await this.connect();
                 const db = this.databaseConnection;
-                const [params, types] = this.generateQueryParameterAndTypes(parameters);
+                const [sql, params, types] = this.generateQueryParameterAndTypes(query, parameters);
                 this.driver.connection.logger.logQuery(query, parameters, this);
-                const stream = db.runStream({sql: query, params, types});
+                const stream = db.runStream({sql, params, types});
                 if (onEnd) stream.on("end", onEnd);
                 if (onError) stream.on("error", onError);
                 ok(stream);
@@ -359,6 +557,13 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         upQueries.push(this.createTableSql(table, createForeignKeys));
         downQueries.push(this.dropTableSql(table));
 
+        // spanner creates indices by separate statements
+        table.indices.forEach(index => {
+            if (!index.name)
+                index.name = this.connection.namingStrategy.indexName(table.name, index.columnNames, index.where);
+            upQueries.push(this.createIndexSql(table, index));
+        });
+
         // we must first drop indices, than drop foreign keys, because drop queries runs in reversed order
         // and foreign keys will be dropped first as indices. This order is very important, because we can't drop index
         // if it related to the foreign key.
@@ -416,75 +621,18 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * Renames a table.
      */
     async renameTable(oldTableOrName: Table|string, newTableName: string): Promise<void> {
-        // TODO: re-create table
-        throw new Error(`NYI: spanner: renameTable`);
-
-        /*const upQueries: string[] = [];
-        const downQueries: string[] = [];
         const oldTable = oldTableOrName instanceof Table ? oldTableOrName : await this.getCachedTable(oldTableOrName);
         const newTable = oldTable.clone();
-        const dbName = oldTable.name.indexOf(".") === -1 ? undefined : oldTable.name.split(".")[0];
-        newTable.name = dbName ? `${dbName}.${newTableName}` : newTableName;
-
-        // rename table
-        upQueries.push(`RENAME TABLE ${this.escapeTableName(oldTable.name)} TO ${this.escapeTableName(newTable.name)}`);
-        downQueries.push(`RENAME TABLE ${this.escapeTableName(newTable.name)} TO ${this.escapeTableName(oldTable.name)}`);
+        newTable.name = newTableName;
 
-        // rename index constraints
-        newTable.indices.forEach(index => {
-            // build new constraint name
-            const columnNames = index.columnNames.map(column => `\`${column}\``).join(", ");
-            const newIndexName = this.connection.namingStrategy.indexName(newTable, index.columnNames, index.where);
-
-            // build queries
-            let indexType = "";
-            if (index.isUnique)
-                indexType += "UNIQUE ";
-            if (index.isSpatial)
-                indexType += "SPATIAL ";
-            if (index.isFulltext)
-                indexType += "FULLTEXT ";
-            upQueries.push(`ALTER TABLE ${this.escapeTableName(newTable)} DROP INDEX \`${index.name}\`, ADD ${indexType}INDEX \`${newIndexName}\` (${columnNames})`);
-            downQueries.push(`ALTER TABLE ${this.escapeTableName(newTable)} DROP INDEX \`${newIndexName}\`, ADD ${indexType}INDEX \`${index.name}\` (${columnNames})`);
-
-            // replace constraint name
-            index.name = newIndexName;
-        });
-
-        // rename foreign key constraint
-        newTable.foreignKeys.forEach(foreignKey => {
-            // build new constraint name
-            const columnNames = foreignKey.columnNames.map(column => `\`${column}\``).join(", ");
-            const referencedColumnNames = foreignKey.referencedColumnNames.map(column => `\`${column}\``).join(",");
-            const newForeignKeyName = this.connection.namingStrategy.foreignKeyName(newTable, foreignKey.columnNames);
-
-            // build queries
-            let up = `ALTER TABLE ${this.escapeTableName(newTable)} DROP FOREIGN KEY \`${foreignKey.name}\`, ADD CONSTRAINT \`${newForeignKeyName}\` FOREIGN KEY (${columnNames}) ` +
-                `REFERENCES ${this.escapeTableName(foreignKey.referencedTableName)}(${referencedColumnNames})`;
-            if (foreignKey.onDelete)
-                up += ` ON DELETE ${foreignKey.onDelete}`;
-            if (foreignKey.onUpdate)
-                up += ` ON UPDATE ${foreignKey.onUpdate}`;
-
-            let down = `ALTER TABLE ${this.escapeTableName(newTable)} DROP FOREIGN KEY \`${newForeignKeyName}\`, ADD CONSTRAINT \`${foreignKey.name}\` FOREIGN KEY (${columnNames}) ` +
-                `REFERENCES ${this.escapeTableName(foreignKey.referencedTableName)}(${referencedColumnNames})`;
-            if (foreignKey.onDelete)
-                down += ` ON DELETE ${foreignKey.onDelete}`;
-            if (foreignKey.onUpdate)
-                down += ` ON UPDATE ${foreignKey.onUpdate}`;
-
-            upQueries.push(up);
-            downQueries.push(down);
-
-            // replace constraint name
-            foreignKey.name = newForeignKeyName;
-        });
-
-        await this.executeQueries(upQueries, downQueries);
+        // rename index and foreign key constraints
+        newTable.indices.forEach(index => index.name = this.connection.namingStrategy.indexName(newTable, index.columnNames, index.where));
+        newTable.foreignKeys.forEach(foreignKey => foreignKey.name = this.connection.namingStrategy.foreignKeyName(newTable, foreignKey.columnNames));
 
-        // rename old table and replace it in cached tabled;
-        oldTable.name = newTable.name;
-        this.replaceCachedTable(oldTable, newTable);*/
+        // spanner cannot rename table, so rows are copied into the new table
+        const columnMap: { [newColumnName: string]: string } = {};
+        newTable.columns.forEach(column => columnMap[column.name] = column.name);
+        await this.rebuildTable(oldTable, newTable, columnMap, `renameTable ${oldTable.name} => ${newTableName}`);
     }
 
     /**
@@ -575,8 +723,6 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * Renames column in the given table.
      */
     async renameColumn(tableOrName: Table|string, oldTableColumnOrName: TableColumn|string, newTableColumnOrName: TableColumn|string): Promise<void> {
-        throw new Error(`NYI: spanner: renameColumn`);
-        /*
         const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
         const oldColumn = oldTableColumnOrName instanceof TableColumn ? oldTableColumnOrName : table.columns.find(c => c.name === oldTableColumnOrName);
         if (!oldColumn)
@@ -591,7 +737,6 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         }
 
         await this.changeColumn(table, oldColumn, newColumn);
-        */
     }
 
     /**
@@ -601,10 +746,9 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * - Increase or decrease the length limit for a STRING or BYTES type (including to MAX), unless it is a primary key column inherited by one or more child tables.
      * - Add/Remove NOT NULL constraint for non-key column
      * - Enable or disable commit timestamps in value and primary key columns.
+     * - Set or drop DEFAULT expression.
      */
     async changeColumn(tableOrName: Table|string, oldColumnOrName: TableColumn|string, newColumn: TableColumn): Promise<void> {
-        //TODO: implement above changes in comment
-
         const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
         let clonedTable = table.clone();
         const upQueries: string[] = [];
@@ -616,243 +760,43 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         if (!oldColumn)
             throw new Error(`Column "${oldColumnOrName}" was not found in the "${table.name}" table.`);
 
-        if (oldColumn.name !== newColumn.name) {
-            throw new Error(`NYI: spanner: changeColumn: change column name ${oldColumn.name} => ${newColumn.name}`);
-        }
-
-        if (oldColumn.type !== newColumn.type) {
-            // - Change a STRING column to a BYTES column or a BYTES column to a STRING column.
-            if (!(oldColumn.type === "string" && newColumn.type === "bytes") &&
-                !(oldColumn.type === "bytes" && newColumn.type === "string")) {
-                throw new Error(`NYI: spanner: changeColumn: change column type ${oldColumn.type} => ${newColumn.type}`);
-            }
-        }
-
-        if (oldColumn.length && newColumn.length && (oldColumn.length !== newColumn.length)) {
-            // - Increase or decrease the length limit for a STRING or BYTES type (including to MAX)
-            if (!(oldColumn.type === "string" && newColumn.type === "bytes") &&
-                !(oldColumn.type === "bytes" && newColumn.type === "string")) {
-                throw new Error(`NYI: spanner: changeColumn: change column type ${oldColumn.type} => ${newColumn.type}`);
-            }
-            // TODO: implement following check.
-            // `unless it is a primary key column inherited by one or more child tables.`
-        }
-
-        if (oldColumn.isNullable !== newColumn.isNullable) {
-            // - Add/Remove NOT NULL constraint for non-key column
-            if (clonedTable.indices.find(index => {
-                return index.columnNames.length === 1 && index.columnNames[0] === newColumn.name;
-            })) {
-                throw new Error(`NYI: spanner: changeColumn: change nullable for ${oldColumn.name}, which is indexed`);
-            }
-        }
-
-        // - Enable or disable commit timestamps in value and primary key columns.
-        if (oldColumn.default !== newColumn.default) {
-            if (newColumn.default !== SpannerColumnUpdateWithCommitTimestamp &&
-                oldColumn.default !== SpannerColumnUpdateWithCommitTimestamp) {
-                throw new Error(`NYI: spanner: changeColumn: set default ${oldColumn.default} => ${newColumn.default}`);
-
+        // changes which ALTER TABLE cannot do are done by rebuilding the table
+        const unalterableChange = this.findUnalterableColumnChange(clonedTable, oldColumn, newColumn);
+        if (unalterableChange) {
+            const newTable = table.clone();
+            newTable.columns[newTable.columns.findIndex(column => column.name === oldColumn.name)] = newColumn.clone();
+            if (oldColumn.name !== newColumn.name) {
+                const renameColumn = (columnNames: string[]) => columnNames.forEach((columnName, index) => {
+                    if (columnName === oldColumn.name)
+                        columnNames[index] = newColumn.name;
+                });
+                newTable.indices.forEach(index => {
+                    renameColumn(index.columnNames);
+                    renameColumn(index.storingColumnNames);
+                });
+                newTable.foreignKeys.forEach(foreignKey => renameColumn(foreignKey.columnNames));
+                newTable.uniques.forEach(unique => renameColumn(unique.columnNames));
             }
-        }
 
-        // any other invalid changes
-        if (oldColumn.isPrimary !== newColumn.isPrimary ||
-            oldColumn.asExpression !== newColumn.asExpression ||
-            oldColumn.charset !== newColumn.charset || 
-            oldColumn.collation !== newColumn.collation ||
-            //oldColumn.comment !== newColumn.comment ||
-            // default is managed by schemas table. 
-            oldColumn.enum !== newColumn.enum ||
-            oldColumn.generatedType !== newColumn.generatedType ||
-            // generationStorategy is managed by schemas table
-            oldColumn.isArray !== newColumn.isArray
-            // isGenerated is managed by schemas table
-        ) {
-            throw new Error(`NYI: spanner: changeColumn: not supported change ${JSON.stringify(oldColumn)} => ${JSON.stringify(newColumn)}`);
+            const columnMap: { [newColumnName: string]: string } = {};
+            table.columns.forEach(column => columnMap[column.name === oldColumn.name ? newColumn.name : column.name] = column.name);
+            await this.rebuildTable(table, newTable, columnMap, `changeColumn: ${unalterableChange}`);
+            return;
         }
 
         // if actually changed, store SQLs
-        if (this.isColumnChanged(oldColumn, newColumn, true)) {
-            upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ALTER COLUMN \`${oldColumn.name}\` ${this.buildCreateColumnSql(newColumn, true)}`);
-            downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ALTER COLUMN \`${newColumn.name}\` ${this.buildCreateColumnSql(oldColumn, true)}`);
+        const commitTimestampChanged = (oldColumn.default === SpannerColumnUpdateWithCommitTimestamp) !== (newColumn.default === SpannerColumnUpdateWithCommitTimestamp);
+        if (this.isColumnChanged(oldColumn, newColumn, false) || commitTimestampChanged) {
+            upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ALTER COLUMN \`${oldColumn.name}\` ${this.buildCreateColumnSql(newColumn, true, true)}`);
+            downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ALTER COLUMN \`${newColumn.name}\` ${this.buildCreateColumnSql(oldColumn, true, true)}`);
+        } else if (oldColumn.default !== newColumn.default) {
+            upQueries.push(this.buildChangeColumnDefaultSql(table, newColumn));
+            downQueries.push(this.buildChangeColumnDefaultSql(table, oldColumn));
         }
 
         await this.executeQueries(upQueries, downQueries);
         await this.syncExtendSchema(table, newColumn);
         this.replaceCachedTable(table, clonedTable);
-
-
-        /*
-        if ((newColumn.isGenerated !== oldColumn.isGenerated && newColumn.generationStrategy !== "uuid")
-            || oldColumn.type !== newColumn.type
-            || oldColumn.length !== newColumn.length
-            || oldColumn.generatedType !== newColumn.generatedType) {
-            await this.dropColumn(table, oldColumn);
-            await this.addColumn(table, newColumn);
-
-            // update cloned table
-            clonedTable = table.clone();
-
-        } else {
-            if (newColumn.name !== oldColumn.name) {
-                // We don't change any column properties, just rename it.
-                upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${oldColumn.name}\` \`${newColumn.name}\` ${this.buildCreateColumnSql(oldColumn, true, true)}`);
-                downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${newColumn.name}\` \`${oldColumn.name}\` ${this.buildCreateColumnSql(oldColumn, true, true)}`);
-
-                // rename index constraints
-                clonedTable.findColumnIndices(oldColumn).forEach(index => {
-                    // build new constraint name
-                    index.columnNames.splice(index.columnNames.indexOf(oldColumn.name), 1);
-                    index.columnNames.push(newColumn.name);
-                    const columnNames = index.columnNames.map(column => `\`${column}\``).join(", ");
-                    const newIndexName = this.connection.namingStrategy.indexName(clonedTable, index.columnNames, index.where);
-
-                    // build queries
-                    let indexType = "";
-                    if (index.isUnique)
-                        indexType += "UNIQUE ";
-                    if (index.isSpatial)
-                        indexType += "SPATIAL ";
-                    if (index.isFulltext)
-                        indexType += "FULLTEXT ";
-                    upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP INDEX \`${index.name}\`, ADD ${indexType}INDEX \`${newIndexName}\` (${columnNames})`);
-                    downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP INDEX \`${newIndexName}\`, ADD ${indexType}INDEX \`${index.name}\` (${columnNames})`);
-
-                    // replace constraint name
-                    index.name = newIndexName;
-                });
-
-                // rename foreign key constraints
-                clonedTable.findColumnForeignKeys(oldColumn).forEach(foreignKey => {
-                    // build new constraint name
-                    foreignKey.columnNames.splice(foreignKey.columnNames.indexOf(oldColumn.name), 1);
-                    foreignKey.columnNames.push(newColumn.name);
-                    const columnNames = foreignKey.columnNames.map(column => `\`${column}\``).join(", ");
-                    const referencedColumnNames = foreignKey.referencedColumnNames.map(column => `\`${column}\``).join(",");
-                    const newForeignKeyName = this.connection.namingStrategy.foreignKeyName(clonedTable, foreignKey.columnNames);
-
-                    // build queries
-                    let up = `ALTER TABLE ${this.escapeTableName(table)} DROP FOREIGN KEY \`${foreignKey.name}\`, ADD CONSTRAINT \`${newForeignKeyName}\` FOREIGN KEY (${columnNames}) ` +
-                        `REFERENCES ${this.escapeTableName(foreignKey.referencedTableName)}(${referencedColumnNames})`;
-                    if (foreignKey.onDelete)
-                        up += ` ON DELETE ${foreignKey.onDelete}`;
-                    if (foreignKey.onUpdate)
-                        up += ` ON UPDATE ${foreignKey.onUpdate}`;
-
-                    let down = `ALTER TABLE ${this.escapeTableName(table)} DROP FOREIGN KEY \`${newForeignKeyName}\`, ADD CONSTRAINT \`${foreignKey.name}\` FOREIGN KEY (${columnNames}) ` +
-                        `REFERENCES ${this.escapeTableName(foreignKey.referencedTableName)}(${referencedColumnNames})`;
-                    if (foreignKey.onDelete)
-                        down += ` ON DELETE ${foreignKey.onDelete}`;
-                    if (foreignKey.onUpdate)
-                        down += ` ON UPDATE ${foreignKey.onUpdate}`;
-
-                    upQueries.push(up);
-                    downQueries.push(down);
-
-                    // replace constraint name
-                    foreignKey.name = newForeignKeyName;
-                });
-
-                // rename old column in the Table object
-                const oldTableColumn = clonedTable.columns.find(column => column.name === oldColumn.name);
-                clonedTable.columns[clonedTable.columns.indexOf(oldTableColumn!)].name = newColumn.name;
-                oldColumn.name = newColumn.name;
-            }
-
-            if (this.isColumnChanged(oldColumn, newColumn, true)) {
-                upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${oldColumn.name}\` ${this.buildCreateColumnSql(newColumn, true)}`);
-                downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${newColumn.name}\` ${this.buildCreateColumnSql(oldColumn, true)}`);
-            }
-
-            if (newColumn.isPrimary !== oldColumn.isPrimary) {
-                // if table have generated column, we must drop AUTO_INCREMENT before changing primary constraints.
-                const generatedColumn = clonedTable.columns.find(column => column.isGenerated && column.generationStrategy === "increment");
-                if (generatedColumn) {
-                    const nonGeneratedColumn = generatedColumn.clone();
-                    nonGeneratedColumn.isGenerated = false;
-                    nonGeneratedColumn.generationStrategy = undefined;
-
-                    upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${generatedColumn.name}\` ${this.buildCreateColumnSql(nonGeneratedColumn, true)}`);
-                    downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${nonGeneratedColumn.name}\` ${this.buildCreateColumnSql(generatedColumn, true)}`);
-                }
-
-                const primaryColumns = clonedTable.primaryColumns;
-
-                // if primary column state changed, we must always drop existed constraint.
-                if (primaryColumns.length > 0) {
-                    const columnNames = primaryColumns.map(column => `\`${column.name}\``).join(", ");
-                    upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP PRIMARY KEY`);
-                    downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ADD PRIMARY KEY (${columnNames})`);
-                }
-
-                if (newColumn.isPrimary === true) {
-                    primaryColumns.push(newColumn);
-                    // update column in table
-                    const column = clonedTable.columns.find(column => column.name === newColumn.name);
-                    column!.isPrimary = true;
-                    const columnNames = primaryColumns.map(column => `\`${column.name}\``).join(", ");
-                    upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ADD PRIMARY KEY (${columnNames})`);
-                    downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP PRIMARY KEY`);
-
-                } else {
-                    const primaryColumn = primaryColumns.find(c => c.name === newColumn.name);
-                    primaryColumns.splice(primaryColumns.indexOf(primaryColumn!), 1);
-                    // update column in table
-                    const column = clonedTable.columns.find(column => column.name === newColumn.name);
-                    column!.isPrimary = false;
-
-                    // if we have another primary keys, we must recreate constraint.
-                    if (primaryColumns.length > 0) {
-                        const columnNames = primaryColumns.map(column => `\`${column.name}\``).join(", ");
-                        upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ADD PRIMARY KEY (${columnNames})`);
-                        downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP PRIMARY KEY`);
-                    }
-                }
-
-                // if we have generated column, and we dropped AUTO_INCREMENT property before, we must bring it back
-                if (generatedColumn) {
-                    const nonGeneratedColumn = generatedColumn.clone();
-                    nonGeneratedColumn.isGenerated = false;
-                    nonGeneratedColumn.generationStrategy = undefined;
-
-                    upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${nonGeneratedColumn.name}\` ${this.buildCreateColumnSql(generatedColumn, true)}`);
-                    downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${generatedColumn.name}\` ${this.buildCreateColumnSql(nonGeneratedColumn, true)}`);
-                }
-            }
-
-            if (newColumn.isUnique !== oldColumn.isUnique) {
-                if (newColumn.isUnique === true) {
-                    const uniqueIndex = new TableIndex({
-                        name: this.connection.namingStrategy.indexName(table.name, [newColumn.name]),
-                        columnNames: [newColumn.name],
-                        isUnique: true
-                    });
-                    clonedTable.indices.push(uniqueIndex);
-                    clonedTable.uniques.push(new TableUnique({
-                        name: uniqueIndex.name,
-                        columnNames: uniqueIndex.columnNames
-                    }));
-                    upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ADD UNIQUE INDEX \`${uniqueIndex.name}\` (\`${newColumn.name}\`)`);
-                    downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP INDEX \`${uniqueIndex.name}\``);
-
-                } else {
-                    const uniqueIndex = clonedTable.indices.find(index => {
-                        return index.columnNames.length === 1 && index.isUnique === true && !!index.columnNames.find(columnName => columnName === newColumn.name);
-                    });
-                    clonedTable.indices.splice(clonedTable.indices.indexOf(uniqueIndex!), 1);
-
-                    const tableUnique = clonedTable.uniques.find(unique => unique.name === uniqueIndex!.name);
-                    clonedTable.uniques.splice(clonedTable.uniques.indexOf(tableUnique!), 1);
-
-                    upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP INDEX \`${uniqueIndex!.name}\``);
-                    downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ADD UNIQUE INDEX \`${uniqueIndex!.name}\` (\`${newColumn.name}\`)`);
-                }
-            }
-        } */
-
-        // await this.executeQueries(upQueries, downQueries);
-        // this.replaceCachedTable(table, clonedTable);
     }
 
     /**
@@ -962,83 +906,16 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * Creates a new primary key.
      */
     async createPrimaryKey(tableOrName: Table|string, columnNames: string[]): Promise<void> {
-        throw new Error(`NYI: spanner: createPrimaryKey`);
-
-        /*
         const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
-        const clonedTable = table.clone();
-
-        const up = this.createPrimaryKeySql(table, columnNames);
-        const down = this.dropPrimaryKeySql(table);
-
-        await this.executeQueries(up, down);
-        clonedTable.columns.forEach(column => {
-            if (columnNames.find(columnName => columnName === column.name))
-                column.isPrimary = true;
-        });
-        this.replaceCachedTable(table, clonedTable);
-        */
+        await this.rebuildTableWithPrimaryKeys(table, columnNames);
     }
 
     /**
      * Updates composite primary keys.
      */
     async updatePrimaryKeys(tableOrName: Table|string, columns: TableColumn[]): Promise<void> {
-        throw new Error(`NYI: spanner: updatePrimaryKeys`);
-        /*
         const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
-        const clonedTable = table.clone();
-        const columnNames = columns.map(column => column.name);
-        const upQueries: string[] = [];
-        const downQueries: string[] = [];
-
-        // if table have generated column, we must drop AUTO_INCREMENT before changing primary constraints.
-        const generatedColumn = clonedTable.columns.find(column => column.isGenerated && column.generationStrategy === "increment");
-        if (generatedColumn) {
-            const nonGeneratedColumn = generatedColumn.clone();
-            nonGeneratedColumn.isGenerated = false;
-            nonGeneratedColumn.generationStrategy = undefined;
-
-            upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${generatedColumn.name}\` ${this.buildCreateColumnSql(nonGeneratedColumn, true)}`);
-            downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${nonGeneratedColumn.name}\` ${this.buildCreateColumnSql(generatedColumn, true)}`);
-        }
-
-        // if table already have primary columns, we must drop them.
-        const primaryColumns = clonedTable.primaryColumns;
-        if (primaryColumns.length > 0) {
-            const columnNames = primaryColumns.map(column => `\`${column.name}\``).join(", ");
-            upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP PRIMARY KEY`);
-            downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ADD PRIMARY KEY (${columnNames})`);
-        }
-
-        // update columns in table.
-        clonedTable.columns
-            .filter(column => columnNames.indexOf(column.name) !== -1)
-            .forEach(column => column.isPrimary = true);
-
-        const columnNamesString = columnNames.map(columnName => `\`${columnName}\``).join(", ");
-        upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} ADD PRIMARY KEY (${columnNamesString})`);
-        downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} DROP PRIMARY KEY`);
-
-        // if we already have generated column or column is changed to generated, and we dropped AUTO_INCREMENT property before, we must bring it back
-        const newOrExistGeneratedColumn = generatedColumn ? generatedColumn : columns.find(column => column.isGenerated && column.generationStrategy === "increment");
-        if (newOrExistGeneratedColumn) {
-            const nonGeneratedColumn = newOrExistGeneratedColumn.clone();
-            nonGeneratedColumn.isGenerated = false;
-            nonGeneratedColumn.generationStrategy = undefined;
-
-            upQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${nonGeneratedColumn.name}\` ${this.buildCreateColumnSql(newOrExistGeneratedColumn, true)}`);
-            downQueries.push(`ALTER TABLE ${this.escapeTableName(table)} CHANGE \`${newOrExistGeneratedColumn.name}\` ${this.buildCreateColumnSql(nonGeneratedColumn, true)}`);
-
-            // if column changed to generated, we must update it in table
-            const changedGeneratedColumn = clonedTable.columns.find(column => column.name === newOrExistGeneratedColumn.name);
-            changedGeneratedColumn!.isGenerated = true;
-            changedGeneratedColumn!.generationStrategy = "increment";
-        }
-
-        await this.executeQueries(upQueries, downQueries);
-        this.replaceCachedTable(table, clonedTable);
-        */
+        await this.rebuildTableWithPrimaryKeys(table, columns.map(column => column.name));
     }
 
     /**
@@ -1058,63 +935,94 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
     }
 
     /**
-     * Creates a new unique constraint.
+     * Creates a new unique constraint. spanner does not have unique constraint, so unique index is created instead.
      */
     async createUniqueConstraint(tableOrName: Table|string, uniqueConstraint: TableUnique): Promise<void> {
-        throw new Error(`NYI: spanner: createUniqueConstraint`);
+        const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
+        if (!uniqueConstraint.name)
+            uniqueConstraint.name = this.connection.namingStrategy.uniqueConstraintName(table.name, uniqueConstraint.columnNames);
+
+        await this.createIndex(table, new TableIndex({
+            name: uniqueConstraint.name,
+            columnNames: uniqueConstraint.columnNames,
+            isUnique: true
+        }));
     }
 
     /**
      * Creates a new unique constraints.
      */
     async createUniqueConstraints(tableOrName: Table|string, uniqueConstraints: TableUnique[]): Promise<void> {
-        throw new Error(`NYI: spanner: createUniqueConstraints`);
+        await PromiseUtils.runInSequence(uniqueConstraints, uniqueConstraint => this.createUniqueConstraint(tableOrName, uniqueConstraint));
     }
 
     /**
-     * Drops an unique constraint.
+     * Drops an unique constraint, i.e. unique index which is created for it.
      */
     async dropUniqueConstraint(tableOrName: Table|string, uniqueOrName: TableUnique|string): Promise<void> {
-        throw new Error(`NYI: spanner: dropUniqueConstraint`);
+        const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
+        const uniqueName = uniqueOrName instanceof TableUnique ? uniqueOrName.name : uniqueOrName;
+        const index = table.indices.find(index => index.isUnique === true && index.name === uniqueName);
+        if (!index)
+            throw new Error(`Supplied unique constraint was not found in table ${table.name}`);
+
+        await this.dropIndex(table, index);
     }
 
     /**
      * Drops an unique constraints.
      */
     async dropUniqueConstraints(tableOrName: Table|string, uniqueConstraints: TableUnique[]): Promise<void> {
-        throw new Error(`NYI: spanner: dropUniqueConstraints`);
+        await PromiseUtils.runInSequence(uniqueConstraints, uniqueConstraint => this.dropUniqueConstraint(tableOrName, uniqueConstraint));
     }
 
     /**
      * Creates a new check constraint.
      */
     async createCheckConstraint(tableOrName: Table|string, checkConstraint: TableCheck): Promise<void> {
-        throw new Error(`NYI: spanner: createCheckConstraint`);
+        const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
+
+        // new check constraint may be passed without name. In this case we generate unique name manually.
+        if (!checkConstraint.name)
+            checkConstraint.name = this.connection.namingStrategy.checkConstraintName(table.name, checkConstraint.expression!);
+
+        const up = `ALTER TABLE ${this.escapeTableName(table)} ADD ${this.buildCheckConstraintSql(checkConstraint)}`;
+        const down = `ALTER TABLE ${this.escapeTableName(table)} DROP CONSTRAINT \`${checkConstraint.name}\``;
+        await this.executeQueries(up, down);
+        table.addCheckConstraint(checkConstraint);
     }
 
     /**
      * Creates a new check constraints.
      */
     async createCheckConstraints(tableOrName: Table|string, checkConstraints: TableCheck[]): Promise<void> {
-        throw new Error(`NYI: spanner: createCheckConstraints`);
+        await PromiseUtils.runInSequence(checkConstraints, checkConstraint => this.createCheckConstraint(tableOrName, checkConstraint));
     }
 
     /**
      * Drops check constraint.
      */
     async dropCheckConstraint(tableOrName: Table|string, checkOrName: TableCheck|string): Promise<void> {
-        throw new Error(`NYI: spanner: dropCheckConstraint`);
+        const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
+        const checkConstraint = checkOrName instanceof TableCheck ? checkOrName : table.checks.find(c => c.name === checkOrName);
+        if (!checkConstraint)
+            throw new Error(`Supplied check constraint was not found in table ${table.name}`);
+
+        const up = `ALTER TABLE ${this.escapeTableName(table)} DROP CONSTRAINT \`${checkConstraint.name}\``;
+        const down = `ALTER TABLE ${this.escapeTableName(table)} ADD ${this.buildCheckConstraintSql(checkConstraint)}`;
+        await this.executeQueries(up, down);
+        table.removeCheckConstraint(checkConstraint);
     }
 
     /**
      * Drops check constraints.
      */
     async dropCheckConstraints(tableOrName: Table|string, checkConstraints: TableCheck[]): Promise<void> {
-        throw new Error(`NYI: spanner: dropCheckConstraints`);
+        await PromiseUtils.runInSequence(checkConstraints, checkConstraint => this.dropCheckConstraint(tableOrName, checkConstraint));
     }
 
     /**
-     * Creates a new foreign key. in spanner, it creates corresponding index too
+     * Creates a new foreign key.
      */
     async createForeignKey(tableOrName: Table|string, foreignKey: TableForeignKey): Promise<void> {
         const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
@@ -1133,8 +1041,8 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * Creates a new foreign keys.
      */
     async createForeignKeys(tableOrName: Table|string, foreignKeys: TableForeignKey[]): Promise<void> {
-        const promises = foreignKeys.map(foreignKey => this.createForeignKey(tableOrName, foreignKey));
-        await Promise.all(promises);
+        // spanner refuses concurrent schema changes, so constraints are added one by one
+        await PromiseUtils.runInSequence(foreignKeys, foreignKey => this.createForeignKey(tableOrName, foreignKey));
     }
 
     /**
@@ -1156,8 +1064,22 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * Drops a foreign keys from the table.
      */
     async dropForeignKeys(tableOrName: Table|string, foreignKeys: TableForeignKey[]): Promise<void> {
-        const promises = foreignKeys.map(foreignKey => this.dropForeignKey(tableOrName, foreignKey));
-        await Promise.all(promises);
+        await PromiseUtils.runInSequence(foreignKeys, foreignKey => this.dropForeignKey(tableOrName, foreignKey));
+    }
+
+    /**
+     * Changes what spanner does with the rows of interleaved table when their parent row is deleted.
+     * spanner cannot change parent table of the existing table.
+     */
+    async changeInterleaveOnDelete(tableOrName: Table|string, onDelete: "CASCADE"|"NO ACTION"): Promise<void> {
+        const table = tableOrName instanceof Table ? tableOrName : await this.getCachedTable(tableOrName);
+        if (!table.interleave)
+            throw new Error(`Table ${table.name} is not interleaved in any table`);
+
+        const up = `ALTER TABLE ${this.escapeTableName(table)} SET ON DELETE ${onDelete}`;
+        const down = `ALTER TABLE ${this.escapeTableName(table)} SET ON DELETE ${table.interleave.onDelete}`;
+        await this.executeQueries(up, down);
+        table.interleave.onDelete = onDelete;
     }
 
     /**
@@ -1173,6 +1095,7 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         const up = this.createIndexSql(table, index);
         const down = this.dropIndexSql(table, index);
         await this.executeQueries(up, down);
+        // single column unique index marks its column unique, same as parseSchema does
         table.addIndex(index, true);
     }
 
@@ -1209,48 +1132,61 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
 
     /**
      * Clears all table contents.
-     * Note: this operation uses SQL's TRUNCATE query which cannot be reverted in transactions.
+     * Note: rows are deleted by partitioned DML (or DML in the active transaction), which cannot be reverted.
+     * tables interleaved in the table are cleared before it, so that ON DELETE NO ACTION does not refuse the delete.
      */
     async clearTable(tableOrName: Table|string): Promise<void> {
-        throw new Error(`TODO: spanner: clearTable`);
-        //await this.query(`TRUNCATE TABLE ${this.escapeTableName(tableOrName)}`);
+        const tableName = tableOrName instanceof Table ? tableOrName.name : tableOrName;
+        await this.driver.loadTables(tableName);
+        const tables = this.driver.spanner ? Object.keys(this.driver.spanner.database.tables).map(name => this.driver.spanner!.database.tables[name]) : [];
+        const clear = async (name: string): Promise<void> => {
+            const children = tables.filter(table => table.interleave && table.interleave.parentTableName === name);
+            await PromiseUtils.runInSequence(children, child => clear(child.name));
+            // partitioned DML cannot be used inside transaction
+            await this.runUpdate(`DELETE FROM ${this.escapeTableName(name)} WHERE true`, [], !this.tx);
+        };
+        await clear(tableName);
     }
 
     /**
      * Removes all tables from the currently connected database.
      * Be careful using this method and avoid using it in production or migrations
      * (because it can clear all your database).
+     * indices, foreign keys and tables (interleaved ones before their parents) are dropped by single schema update.
+     * `schemas` table is kept but its rows are deleted.
      */
     async clearDatabase(database?: string): Promise<void> {
-        throw new Error(`TODO: spanner: clearDatabase`);
-        /*const dbName = database ? database : this.driver.database;
-        if (dbName) {
-            const isDatabaseExist = await this.hasDatabase(dbName);
-            if (!isDatabaseExist)
-                return Promise.resolve();
-        } else {
-            throw new Error(`Can not clear database. No database is specified`);
+        if (database && database !== this.driver.database)
+            throw new Error(`Can not clear database ${database}. only connected database ${this.driver.database} can be cleared`);
+        if (this.tx)
+            throw new Error(`cannot clear database inside transaction`);
+
+        const schemaTableName = this.driver.options.schemaTableName || "schemas";
+        const tables = (await this.driver.reloadTables()).filter(table => table.name !== schemaTableName);
+        const statements: string[] = [];
+        // indices and foreign keys are dropped first, because tables cannot be dropped while they exist.
+        // check constraints are dropped with their tables.
+        tables.forEach(table => table.indices.forEach(index => statements.push(this.dropIndexSql(table, index))));
+        tables.forEach(table => table.foreignKeys.forEach(foreignKey => statements.push(this.dropForeignKeySql(table, foreignKey))));
+        let remainingTables = tables;
+        while (remainingTables.length > 0) {
+            const leafTables = remainingTables.filter(table => !remainingTables.some(child => !!child.interleave && child.interleave.parentTableName === table.name));
+            if (leafTables.length === 0)
+                throw new Error(`cannot determine drop order of tables ${remainingTables.map(table => table.name).join(", ")}`);
+            leafTables.forEach(table => statements.push(this.dropTableSql(table)));
+            remainingTables = remainingTables.filter(table => leafTables.indexOf(table) === -1);
         }
 
-        await this.startTransaction();
-        try {
-            const disableForeignKeysCheckQuery = `SET FOREIGN_KEY_CHECKS = 0;`;
-            const dropTablesQuery = `SELECT concat('DROP TABLE IF EXISTS \`', table_schema, '\`.\`', table_name, '\`') AS \`query\` FROM \`INFORMATION_SCHEMA\`.\`TABLES\` WHERE \`TABLE_SCHEMA\` = '${dbName}'`;
-            const enableForeignKeysCheckQuery = `SET FOREIGN_KEY_CHECKS = 1;`;
-
-            await this.query(disableForeignKeysCheckQuery);
-            const dropQueries: ObjectLiteral[] = await this.query(dropTablesQuery);
-            await Promise.all(dropQueries.map(query => this.query(query["query"])));
-            await this.query(enableForeignKeysCheckQuery);
-
-            await this.commitTransaction();
+        if (statements.length > 0) {
+            this.driver.connection.logger.logQuery(statements.join(";\n"), [], this);
+            await this.simpleHandleAdministrativeQuery(statements);
+        }
 
-        } catch (error) {
-            try { // we throw original error even if rollback thrown an error
-                await this.rollbackTransaction();
-            } catch (rollbackError) { }
-            throw error;
-        }*/
+        await this.clearTable(schemaTableName);
+        if (this.driver.spanner)
+            this.driver.spanner.database.schemas = {};
+        await this.driver.reloadTables();
+        this.loadedTables = [];
     }
 
     /**
@@ -1338,10 +1274,8 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
                     columnSchema.generator = RandomGenerator.uuid4;
                 }
             } else if (type === "default") {
-                const value = rawObject["value"];
-                columnSchema.default = value;
-                columnSchema.generator = () => { return value; }
-
+                // written by older versions. default is read from the column DDL instead.
+                columnSchema.default = rawObject["value"];
             }
         }
         return schemas;
@@ -1351,6 +1285,27 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
     // Protected Methods
     // -------------------------------------------------------------------------
 
+    /**
+     * Executes sql used special for schema build.
+     * Built queries are spanner DDL, so they are not translated even if migrationDDLType is set.
+     */
+    protected executeQueries(upQueries: string|string[], downQueries: string|string[]): Promise<void> {
+        return this.runSchemaQueries(() => super.executeQueries(upQueries, downQueries));
+    }
+
+    /**
+     * runs given function with runningSchemaQueries flag.
+     */
+    protected async runSchemaQueries(fn: () => Promise<void>): Promise<void> {
+        const runningSchemaQueries = this.runningSchemaQueries;
+        this.runningSchemaQueries = true;
+        try {
+            await fn();
+        } finally {
+            this.runningSchemaQueries = runningSchemaQueries;
+        }
+    }
+
     /**
      * check whether entity has all primary column key
      */
@@ -1362,24 +1317,11 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         }
         return true;
     }
-    /**
-     * get query string to examine select/update/upsert/delete keys. 
-     * null means value contains all key elements already.
-     */
-    protected getKeyExamineQuery<Entity>(value: ObjectLiteral, table: Table, qb: QueryBuilder<Entity>): string|null {
-        if (!this.doesValueContainAllPrimaryKeys(value, table)) {
-            const whex = qb.whereExpression;
-            return `SELECT ${table.primaryColumns.map((c) => c.name).join(',')} FROM ${qb.escapedMainTableName} ${whex}`
-        } else {
-            return null;
-        }
-    }
-
     /**
      * wrapper to integrate request by transaction and table
      * connect() should be already called before this function invoked.
      */
-    protected request(table: Table, method: string, ...args: any[]): Promise<any> {
+    protected async request(table: Table, method: string, ...args: any[]): Promise<any> {
       // console.log('======================================================================')
       // console.log('SpannerqueryRunner.request')
       // console.log('table', table.name)
@@ -1387,60 +1329,289 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
       // console.log('args', JSON.stringify(args))
       // console.log('tx?', !!this.tx)
       // console.log('======================================================================')
+        if (this.readOnlyBound)
+            throw new Error(`cannot ${method} ${table.name} in read-only transaction`);
+
+        await this.flushMigrationDDLForRows();
         if (this.tx) {
-            return this.tx[method](table.name, ...args);
+            return Promise.resolve(this.tx[method](table.name, ...args)).catch((err: any) => {
+                if (this.driver.isTransactionAbortedError(err))
+                    this.releaseTransaction();
+                throw err;
+            });
         } else {
-            return this.databaseConnection.table(table.name)[method](...args);
+            // mutations outside of transaction are committed by this request
+            return Promise.resolve(this.databaseConnection.table(table.name)[method](...args)).then((result: any) => {
+                this.applyCommitTimestamp(result instanceof Array ? result[0] : result);
+                return result;
+            }, (err: any) => {
+                this.commitTimestampEntities = [];
+                throw err;
+            });
         }
     }
 
     /**
-     * Handle select query
+     * remembers commit timestamp of given commit response, and fills entities waiting for it.
      */
-    protected select<Entity>(qb: QueryBuilder<Entity>): Promise<any> {
-        if(qb.connection.options.logging){
-            if (qb.connection.options.logging !== false)
-                console.log('select', qb.getSql(), this.databaseConnection);
+    protected applyCommitTimestamp(response?: ObjectLiteral): void {
+        const timestamp = response && response.commitTimestamp;
+        if (timestamp) {
+            // commitTimestamp is google.protobuf.Timestamp, seconds of which may be given as string or Long
+            this.commitTimestamp = new Date(Number(timestamp.seconds) * 1000 + Math.floor((timestamp.nanos || 0) / 1000000));
+            const commitTimestamp = this.commitTimestamp;
+            this.commitTimestampEntities.forEach(({ entity, columns }) => {
+                columns.forEach(column => column.setEntityValue(entity, commitTimestamp));
+            });
         }
-        if (!this.tx) {
-            const [query, params] = qb.getQueryAndParameters();
-            return this.databaseConnection.run({sql: query, params});
-        } else {
-            return new Promise(async (ok, fail) => {
-                try {
-                    const table = await this.getTable(qb.mainTableName);
-                    if (!table) {
-                        fail(new Error(`fatal: no such table ${qb.mainTableName}`));
-                        return;
-                    }
-                    const tx = this.tx;
-                    const whex = qb.whereExpression;
-                    //TODO: check where expression contains all primary key of the table, 
-                    //if contained, we can omit SELECT statement. 
-                    //currently, I pray spanner's optimizer is so clever that it infers values of keys from where statement.
-                    const query = `SELECT ${table.primaryColumns.map((c) => c.name).join(',')} FROM ${qb.escapedMainTableName} ${whex}`;
-                    const [keys,err] = await this.databaseConnection.run(query);
-                    if (err) {
-                        this.driver.connection.logger.logQueryError(err, query, [], this);
-                        fail(new QueryFailedError(query, [], err));
-                        return;
-                    }
-                    if (!keys || keys.length <= 0) {
-                        ok(); //nothing to select
-                        return;
-                    }
-                    return tx.read(qb.mainTableName, keys, (err: Error, rows: any[]) => {
-                        if (err) {
-                            fail(err);
-                        } else {
-                            ok(rows);
-                        }
-                    });
-                } catch (e) {
-                    fail(e);
-                }
-            });            
+        this.commitTimestampEntities = [];
+    }
+
+    /**
+     * releases transaction which cannot or need not be committed nor rolled back,
+     * i.e. read-only transaction or read-write transaction which spanner aborted,
+     * and resets transaction state to let the caller start new transaction.
+     */
+    protected releaseTransaction(): void {
+        if (this.tx)
+            this.tx.end();
+        this.tx = null;
+        this.commitTimestampEntities = [];
+        this.readOnlyBound = undefined;
+        this.isTransactionActive = false;
+    }
+
+    /**
+     * checks spanner requires given timestamp bound to be used with single-use read.
+     */
+    protected isSingleUseTimestampBound(bound: SpannerTimestampBound): boolean {
+        return bound.maxStaleness !== undefined || bound.minReadTimestamp !== undefined;
+    }
+
+    /**
+     * runs query by streaming, in the active transaction if any, and returns rows with query statistics.
+     * in read-only transaction, remembers timestamp spanner selected for the read.
+     */
+    protected runQueryStream(request: ObjectLiteral): Promise<[any[], any]> {
+        return new Promise((ok, fail) => {
+            const rows: any[] = [];
+            let stats: any;
+            const stream = this.tx
+                ? this.tx.runStream(request)
+                : this.readOnlyBound
+                    ? this.databaseConnection.runStream(request, { ...this.readOnlyBound, returnReadTimestamp: true })
+                    : this.databaseConnection.runStream(request);
+            stream
+                .on("response", (response: any) => {
+                    const transaction = response.metadata && response.metadata.transaction;
+                    if (this.readOnlyBound && transaction && transaction.readTimestamp)
+                        this.readTimestamp = this.driver.spannerLib.TransactionRequest.fromProtoTimestamp_(transaction.readTimestamp);
+                })
+                .on("stats", (resultStats: any) => stats = resultStats)
+                .on("error", (err: any) => {
+                    if (this.tx && !this.readOnlyBound && this.driver.isTransactionAbortedError(err))
+                        this.releaseTransaction();
+                    fail(err);
+                })
+                .on("data", (row: any) => rows.push(row))
+                .on("end", () => ok([rows, stats]));
+        });
+    }
+
+    /**
+     * builds query plan tree from result set statistics of PLAN or PROFILE mode query.
+     */
+    protected buildQueryPlan(stats: any): SpannerQueryPlan {
+        const kinds = ["KIND_UNSPECIFIED", "RELATIONAL", "SCALAR"];
+        const planNodes: any[] = (stats && stats.queryPlan && stats.queryPlan.planNodes) || [];
+        const statNumber = (stat: any) => stat && stat.total !== undefined ? Number(stat.total) : undefined;
+        const statTime = (stat: any) => stat && stat.total !== undefined ? `${stat.total} ${stat.unit}` : undefined;
+        const nodes: SpannerQueryPlanNode[] = planNodes.map(node => {
+            const executionStats = node.executionStats ? this.decodeProtoValue(node.executionStats) : undefined;
+            return {
+                index: Number(node.index || 0),
+                kind: typeof node.kind === "number" ? kinds[node.kind] : node.kind,
+                displayName: node.displayName,
+                description: node.shortRepresentation ? node.shortRepresentation.description : undefined,
+                metadata: this.decodeProtoValue(node.metadata) || {},
+                rows: executionStats ? statNumber(executionStats.rows) : undefined,
+                scannedRows: executionStats ? statNumber(executionStats.scanned_rows) : undefined,
+                cpuTime: executionStats ? statTime(executionStats.cpu_time) : undefined,
+                latency: executionStats ? statTime(executionStats.latency) : undefined,
+                executionStats,
+                children: []
+            };
+        });
+        planNodes.forEach((node, i) => (node.childLinks || []).forEach((link: any) => {
+            const child = nodes.find(n => n.index === Number(link.childIndex || 0));
+            if (child)
+                nodes[i].children.push(child);
+        }));
+
+        const queryStats = stats && stats.queryStats ? this.decodeProtoValue(stats.queryStats) : undefined;
+        const numberOrUndefined = (value: any) => value !== undefined ? Number(value) : undefined;
+        return {
+            root: nodes.find(node => node.index === 0),
+            nodes: nodes.sort((a, b) => a.index - b.index),
+            stats: queryStats ? {
+                rowsReturned: numberOrUndefined(queryStats.rows_returned),
+                rowsScanned: numberOrUndefined(queryStats.rows_scanned),
+                cpuTime: queryStats.cpu_time,
+                elapsedTime: queryStats.elapsed_time,
+                queryPlanCreationTime: queryStats.query_plan_creation_time,
+                raw: queryStats
+            } : undefined
+        };
+    }
+
+    /**
+     * formats query statistics and relational operators of the plan into text for logging.
+     */
+    protected formatQueryPlan(plan: SpannerQueryPlan): string {
+        const lines: string[] = [];
+        if (plan.stats)
+            lines.push(`query stats: rows returned ${plan.stats.rowsReturned}, rows scanned ${plan.stats.rowsScanned}, cpu time ${plan.stats.cpuTime}, elapsed time ${plan.stats.elapsedTime}`);
+        const format = (node: SpannerQueryPlanNode, depth: number) => {
+            if (node.kind === "SCALAR")
+                return;
+            const stats = [
+                node.rows !== undefined ? `rows: ${node.rows}` : undefined,
+                node.scannedRows !== undefined ? `scanned rows: ${node.scannedRows}` : undefined,
+                node.cpuTime !== undefined ? `cpu time: ${node.cpuTime}` : undefined
+            ].filter(stat => !!stat);
+            lines.push(`${"  ".repeat(depth)}${node.displayName}${stats.length > 0 ? ` (${stats.join(", ")})` : ""}`);
+            node.children.forEach(child => format(child, depth + 1));
+        };
+        if (plan.root)
+            format(plan.root, 0);
+        return lines.join("\n");
+    }
+
+    /**
+     * converts protobuf Struct/Value given by spanner client into plain javascript value.
+     */
+    protected decodeProtoValue(value: any): any {
+        if (value === null || value === undefined || typeof value !== "object") {
+            return value;
+
+        } else if (typeof value.kind === "string") {
+            return value.kind === "nullValue" ? null : this.decodeProtoValue(value[value.kind]);
+
+        } else if (value.fields !== undefined) {
+            const result: ObjectLiteral = {};
+            Object.keys(value.fields).forEach(key => result[key] = this.decodeProtoValue(value.fields[key]));
+            return result;
+
+        } else if (value.values instanceof Array) {
+            return value.values.map((item: any) => this.decodeProtoValue(item));
+
+        } else if (value.structValue !== undefined) {
+            return this.decodeProtoValue(value.structValue);
+
+        } else if (value.listValue !== undefined) {
+            return this.decodeProtoValue(value.listValue);
+
+        } else if (value.stringValue !== undefined) {
+            return value.stringValue;
+
+        } else if (value.numberValue !== undefined) {
+            return value.numberValue;
+
+        } else if (value.boolValue !== undefined) {
+            return value.boolValue;
+
+        } else if (value.nullValue !== undefined) {
+            return null;
+        }
+        return value;
+    }
+
+    /**
+     * converts INT64 values wrapped by spanner client into strings, and FLOAT64 values into numbers.
+     */
+    protected unwrapNumbers(value: any): any {
+        if (value === null || value === undefined || typeof value !== "object") {
+            return value;
+
+        } else if (value.constructor && value.constructor.name === "Int") {
+            return String(value.value);
+
+        } else if (value.constructor && value.constructor.name === "Float") {
+            return Number(value.value);
+
+        } else if (value instanceof Array) {
+            return value.map(element => this.unwrapNumbers(element));
+
+        } else if (value.constructor === Object) {
+            const row: ObjectLiteral = {};
+            Object.keys(value).forEach(key => row[key] = this.unwrapNumbers(value[key]));
+            return row;
+        }
+        return value;
+    }
+
+    /**
+     * Executes up sql queries, which are spanner DDL built by this query runner.
+     */
+    executeMemoryUpSql(): Promise<void> {
+        return this.runSchemaQueries(() => super.executeMemoryUpSql());
+    }
+
+    /**
+     * Executes down sql queries, which are spanner DDL built by this query runner.
+     */
+    executeMemoryDownSql(): Promise<void> {
+        return this.runSchemaQueries(() => super.executeMemoryDownSql());
+    }
+
+    /**
+     * Returns true if read-only transaction is active.
+     */
+    isReadOnly(): boolean {
+        return this.isTransactionActive && !!this.readOnlyBound;
+    }
+
+    /**
+     * Starts running migration. until it finishes, consecutive DDL statements are batched into single schema update,
+     * and first skipStatements DDL/DML statements, which were applied by the previous failed run, are skipped.
+     * onProgress is called with the number of applied statements each time statements are applied.
+     */
+    startMigrationRun(skipStatements: number = 0, onProgress?: (appliedStatements: number) => Promise<void>): void {
+        if (this.migrationRun)
+            throw new Error(`migration is already running by this query runner`);
+
+        this.migrationRun = { skipStatements, seenStatements: 0, appliedStatements: skipStatements, ddlBatch: [], onProgress };
+    }
+
+    /**
+     * Applies DDL statements queued by the running migration, and finishes it.
+     */
+    async finishMigrationRun(): Promise<void> {
+        try {
+            await this.flushMigrationDDL();
+        } finally {
+            this.migrationRun = undefined;
+        }
+    }
+
+    /**
+     * Finishes running migration without applying queued DDL statements.
+     */
+    abortMigrationRun(): void {
+        this.migrationRun = undefined;
+    }
+
+    /**
+     * Handle select query
+     */
+    protected select<Entity>(qb: QueryBuilder<Entity>): Promise<any> {
+        if(qb.connection.options.logging){
+            if (qb.connection.options.logging !== false)
+                console.log('select', qb.getSql(), this.databaseConnection);
         }
+        // inside a read-write transaction query() runs the statement through the transaction itself
+        const [query, parameters] = qb.getQueryAndParameters();
+        return this.query(query, parameters);
     }
 
     /**
@@ -1467,92 +1638,91 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
     }
 
     /**
-     * Handle update query
+     * Handle update query. resolves [raw, affected].
+     * update by value sets containing primary keys runs as mutations, unless where conditions other than
+     * whereEntity on the same keys are given. other updates run as DML.
      */
-    protected update<Entity>(qb: QueryBuilder<Entity>): Promise<any> {
+    protected async update<Entity>(qb: QueryBuilder<Entity>): Promise<any> {
         if(qb.connection.options.logging){
             if (qb.connection.options.logging !== false)
-                console.log('update', qb.getSql());
+                console.log("update", qb.expressionMap.valuesSet instanceof Array ? qb.expressionMap.valuesSet : qb.getSql());
         } 
-        return new Promise(async (ok, fail) => {
-            try {
-                let vs = qb.expressionMap.valuesSet instanceof Array ? qb.expressionMap.valuesSet : [qb.expressionMap.valuesSet];
-                if (!vs || vs.length > 1 || (vs.length == 1 && !vs[0])) {
-                    fail(new Error('only single value set can be used spanner update'));
-                }
-                const table = await this.getTable(qb.mainTableName);
-                if (!table) {
-                    fail(new Error(`fatal: no such table ${qb.mainTableName}`));
-                    return;
-                }
-                const value = <ObjectLiteral>vs[0]; //above vs checks assure this cast is valid
-                const query = this.getKeyExamineQuery(value, table, qb);
-                if (query) {
-                    const [keys,err] = await this.databaseConnection.run(query);
-                    if (err) {
-                        this.driver.connection.logger.logQueryError(err, query, [], this);
-                        fail(new QueryFailedError(query, [], err));
-                        return;
-                    }
-                    if (!keys || keys.length <= 0) {
-                        ok(); //nothing to update
-                        return;
-                    }
-                    const rows = keys;
-                    for (const row of rows) {
-                        Object.assign(row, value);
-                    }
-                    await this.request(table, 'update', rows);
-                    ok(rows);                         
-                } else {
-                    await this.request(table, 'update', value);
-                    ok(value);
-                }
-                //const query = `SELECT ${table.primaryColumns.map((c) => c.name).join(',')} FROM ${qb.escapedMainTableName} ${whex}`;
-            } catch (e) {
-                fail(e);
-            }
-        });
+        if (qb.expressionMap.partitionedDml)
+            return [undefined, await this.runPartitionedUpdate(qb)];
+
+        const value = qb.expressionMap.valuesSet;
+        const values = value instanceof Array ? value : (value ? [value] : []);
+        const table = await this.getTable(qb.mainTableName);
+        if (table && !(values.every(valueSet => this.doesValueContainAllPrimaryKeys(valueSet, table)) && this.isWhereByValueKeys(qb, values))) {
+            if (value instanceof Array)
+                throw new Error(`every value set of multi-row spanner update should contain all primary keys of ${table.name}, and only whereEntity on them is allowed as where condition`);
+            const [query, parameters] = qb.getQueryAndParameters();
+            return [undefined, await this.runUpdate(query, parameters)];
+        }
+        const raw = await this.mutateRows(qb, "update");
+        // update mutation fails the commit if the row does not exist, so each value set is an affected row
+        return [raw, values.length];
     }
 
     /**
-     * Handle upsert query
+     * checks if the rows updated by value sets are exactly the rows where conditions select,
+     * that is, there is no where condition or it is whereEntity on primary keys of the value sets.
+     */
+    protected isWhereByValueKeys<Entity>(qb: QueryBuilder<Entity>, values: ObjectLiteral[]): boolean {
+        const wheres = qb.expressionMap.wheres;
+        if (wheres.length === 0)
+            return true;
+
+        // whereEntity adds an "or" condition per entity, so any other condition changes their types or count
+        const whereEntities = qb.expressionMap.whereEntities;
+        if (!qb.expressionMap.mainAlias!.hasMetadata || whereEntities.length === 0 || wheres.length !== whereEntities.length || wheres.some(where => where.type !== "or"))
+            return false;
+
+        // keys of value sets may be given as they are, or prepared for mutation like batched update of subjects does
+        const metadata = qb.expressionMap.mainAlias!.metadata;
+        return values.length === whereEntities.length && values.every(value => whereEntities.some(entity => {
+            return metadata.primaryColumns.every(column => {
+                const id = column.getEntityValue(entity);
+                return OrmUtils.deepCompare(value[column.databaseName], id) || OrmUtils.deepCompare(value[column.databaseName], this.driver.preparePersistentValue(id, column));
+            });
+        }));
+    }
+
+    /**
+     * Handle upsert query. insert query with orUpdate/orReplace also comes here.
      */
     protected upsert<Entity>(qb: QueryBuilder<Entity>): Promise<any> {
         if(qb.connection.options.logging){
             if (qb.connection.options.logging !== false)
-                console.log('upsert', qb.getSql());
+                console.log("upsert", qb.expressionMap.valuesSet instanceof Array ? qb.expressionMap.valuesSet : qb.getSql());
         } 
+        return this.mutateRows(qb, qb.expressionMap.onDuplicate === "replace" ? "replace" : "upsert");
+    }
+
+    /**
+     * writes value sets of update/upsert/replace query as single mutation batch.
+     * each value set should contain all primary keys, update without them runs as DML instead.
+     */
+    protected mutateRows<Entity>(qb: QueryBuilder<Entity>, method: "update"|"upsert"|"replace"): Promise<any> {
         return new Promise(async (ok, fail) => {
             try {
-                let vs = qb.expressionMap.valuesSet instanceof Array ? qb.expressionMap.valuesSet : [qb.expressionMap.valuesSet];
-                if (!vs || vs.length > 1 || (vs.length == 1 && !vs[0])) {
-                    fail(new Error('only single value set can be used spanner upsert'));
+                const vs = qb.expressionMap.valuesSet instanceof Array ? qb.expressionMap.valuesSet : [qb.expressionMap.valuesSet];
+                if (vs.length <= 0 || vs.some(value => !value)) {
+                    fail(new Error(`no value set is given to spanner ${method}`));
+                    return;
                 }
                 const table = await this.getTable(qb.mainTableName);
                 if (!table) {
                     fail(new Error(`fatal: no such table ${qb.mainTableName}`));
                     return;
                 }
-                const value = <ObjectLiteral>vs[0]; //above vs checks assure this cast is valid
-                const query = this.getKeyExamineQuery(value, table, qb);
-                if (query) {
-                    const [keys,err] = await this.databaseConnection.run(query);
-                    if (err) {
-                        this.driver.connection.logger.logQueryError(err, query, [], this);
-                        fail(new QueryFailedError(query, [], err));
-                        return;
-                    }
-                    const rows = keys;
-                    for (const row of rows) {
-                        Object.assign(row, value);
-                    }
-                    await this.request(table, 'upsert', rows);
-                    ok(rows);
-                } else {
-                    await this.request(table, 'upsert', value);
-                    ok(value);
+                const values = <ObjectLiteral[]>vs; // above vs checks assure this cast is valid
+                if (values.some(value => !this.doesValueContainAllPrimaryKeys(value, table))) {
+                    fail(new Error(`every value set of spanner ${method} should contain all primary keys of ${table.name}`));
+                    return;
                 }
+                await this.requestMutations(table, method, values);
+                ok(values.length > 1 ? values : values[0]);
             } catch (e) {
                 fail(e);
             }
@@ -1560,63 +1730,422 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
     }
 
     /**
-     * Handle delete query
+     * sends rows as one mutation batch. outside of transaction, rows are split into several commits
+     * so that each of them stays under mutation limit. inside transaction all rows are buffered
+     * into the transaction and spanner checks the limit on commit.
+     * spanner counts a mutation for each written column, and for each column of secondary indices the row touches.
      */
-    protected delete<Entity>(qb: QueryBuilder<Entity>): Promise<any> {
+    protected async requestMutations(table: Table, method: string, rows: ObjectLiteral[]): Promise<void> {
+        if (this.tx) {
+            await this.request(table, method, rows);
+            return;
+        }
+        const limit = this.driver.getMutationLimit();
+        let chunk: ObjectLiteral[] = [];
+        let mutations = 0;
+        for (const row of rows) {
+            const rowMutations = this.countRowMutations(table, row);
+            if (chunk.length > 0 && mutations + rowMutations > limit) {
+                await this.request(table, method, chunk);
+                chunk = [];
+                mutations = 0;
+            }
+            chunk.push(row);
+            mutations += rowMutations;
+        }
+        if (chunk.length > 0)
+            await this.request(table, method, chunk);
+    }
+
+    /**
+     * counts mutations spanner charges for writing the row: written columns, and columns of indices which contain any of them.
+     */
+    protected countRowMutations(table: Table, row: ObjectLiteral): number {
+        const columnNames = Object.keys(row);
+        return table.indices
+            .filter(index => index.columnNames.some(columnName => columnNames.indexOf(columnName) !== -1))
+            .reduce((count, index) => count + index.columnNames.length, columnNames.length);
+    }
+
+    /**
+     * Handle delete query. resolves [raw, affected].
+     */
+    protected async delete<Entity>(qb: QueryBuilder<Entity>): Promise<any> {
         if(qb.connection.options.logging){
             if (qb.connection.options.logging !== false)
                 console.log('delete', qb.getSql());
         } 
+        if (qb.expressionMap.partitionedDml)
+            return [undefined, await this.runPartitionedUpdate(qb)];
+
+        const [query, parameters] = qb.getQueryAndParameters();
+        return [undefined, await this.runUpdate(query, parameters)];
+    }
+
+    /**
+     * executes update/delete query as partitioned DML, and resolves lower bound of affected rows.
+     * statements which refer other tables than updated one cannot be partitioned, so they are refused.
+     */
+    protected runPartitionedUpdate<Entity>(qb: QueryBuilder<Entity>): Promise<number> {
+        if (this.tx || this.readOnlyBound)
+            return Promise.reject(new Error(`partitioned DML cannot be executed inside transaction`));
+
+        const [query, parameters] = qb.getQueryAndParameters();
+        const tables = (query.match(/\b(FROM|JOIN|UPDATE)\s+(`[^`]+`|\w+)/gi) || [])
+            .map(m => m.replace(/^\w+\s+/, "").replace(/`/g, ""));
+        const otherTable = tables.find(table => table !== qb.mainTableName);
+        if (otherTable)
+            return Promise.reject(new Error(`statement cannot be executed as partitioned DML because it refers ${otherTable} other than ${qb.mainTableName}: ${query}`));
+
+        return this.runUpdate(query, parameters, true);
+    }
+
+    /**
+     * executes DML statement in the active transaction, or in new read-write transaction committed right after it,
+     * and resolves number of affected rows. partitioned DML runs by its own partitioned transaction.
+     */
+    protected runUpdate(query: string, parameters?: any[], partitioned: boolean = false): Promise<number> {
+        if (this.readOnlyBound)
+            return Promise.reject(new Error(`cannot execute DML in read-only transaction: ${query}`));
+
         return new Promise(async (ok, fail) => {
             try {
-                const table = await this.getTable(qb.mainTableName);
-                if (!table) {
-                    fail(new Error(`fatal: no such table ${qb.mainTableName}`));
-                    return;
-                }
-                //TODO: check where expression contains all primary key of the table, 
-                //if contained, we can omit SELECT statement. 
-                //currently, I pray spanner's optimizer is so clever that it infers values of keys from where statement.
-                const whex = qb.whereExpression;
-                const sql = `SELECT ${table.primaryColumns.map((c) => c.name).join(',')} FROM ${qb.escapedMainTableName} ${whex}`;
-                const [query, parameters] = this.driver.escapeQueryWithParameters(sql, qb.getParameters(), {})
-                const maybeParams = this.generateQueryParameters(parameters)
-                const params = Object.keys(maybeParams).length ? maybeParams : undefined
-
-                // console.log('CHECKING FOR ROWS TO DELETE')
-                // console.log('SQL', query)
-                // console.log("PARAMS", params)
-
-                const [keys,err] = await this.databaseConnection.run({sql: query, params, json: true});
-                if (err) {
-                    this.driver.connection.logger.logQueryError(err, query, [], this);
-                    fail(new QueryFailedError(query, [], err));
-                    return;
-                }
-                if (!keys || keys.length <= 0) {
-                    ok(); //nothing to delete
-                    return;
+                await this.connect();
+                await this.flushMigrationDDLForRows();
+                this.driver.connection.logger.logQuery(query, parameters, this);
+                const [sql, params, types] = this.generateQueryParameterAndTypes(query, parameters);
+                const request = {sql, params, types, json: true};
+                const callback = (err: any, rowCount?: number) => {
+                    if (err) {
+                        if (this.tx && this.driver.isTransactionAbortedError(err))
+                            this.releaseTransaction();
+                        this.driver.connection.logger.logQueryError(err, query, parameters, this);
+                        return fail(new QueryFailedError(query, parameters, err));
+                    }
+                    ok(rowCount || 0);
+                };
+
+                if (partitioned) {
+                    this.databaseConnection.runPartitionedUpdate(request, callback);
+                } else if (this.tx) {
+                    this.tx.runUpdate(request, callback);
+                } else {
+                    // runTransaction restarts this function by itself when spanner aborts the transaction
+                    this.databaseConnection.runTransaction((err: any, tx: any) => {
+                        if (err)
+                            return callback(err);
+                        tx.runUpdate(request, (err: any, rowCount?: number) => {
+                            if (err) {
+                                tx.end();
+                                return callback(err);
+                            }
+                            tx.commit((err: any, response?: ObjectLiteral) => {
+                                if (!err)
+                                    this.applyCommitTimestamp(response);
+                                callback(err, rowCount);
+                            });
+                        });
+                    });
                 }
+            } catch (err) {
+                fail(err);
+            }
+        });
+    }
 
-                /* Spanner expects keys differently depending on whether the table has a composite key or not:
-                 *  Simple key: [KEY_VALUE]
-                 *  Composite key: [[KEY_PART1, KEY_VALUE1], [KEY_PART2, KEY_VALUE2] ]
-                 */
-                const deleteKeys = keys.length > 1 
-                  ? keys.map((key: ObjectLiteral) => {
-                      const keyPart = Object.keys(key)[0] 
-                      return [keyPart, key[keyPart]]
-                    })
-                    : keys.map((key: ObjectLiteral) => {
-                      const keyPart = Object.keys(key)[0] 
-                      return key[keyPart]
-                    })
-
-                await this.request(table, 'deleteRows', deleteKeys);
-                ok();
-            } catch (e) {
-                fail(e);
+    /**
+     * returns description of the column change which cannot be done by ALTER TABLE, or undefined if it can.
+     * according to https://cloud.google.com/spanner/docs/schema-updates, only below are allowed
+     * - Change a STRING column to a BYTES column or a BYTES column to a STRING column.
+     * - Increase or decrease the length limit for a STRING or BYTES type (including to MAX), unless it is a primary key column inherited by one or more child tables.
+     * - Add/Remove NOT NULL constraint for non-key column
+     * - Enable or disable commit timestamps in value and primary key columns.
+     */
+    protected findUnalterableColumnChange(table: Table, oldColumn: TableColumn, newColumn: TableColumn): string|undefined {
+        if (oldColumn.name !== newColumn.name)
+            return `change column name ${oldColumn.name} => ${newColumn.name}`;
+
+        if (oldColumn.type !== newColumn.type) {
+            // - Change a STRING column to a BYTES column or a BYTES column to a STRING column.
+            if (!(oldColumn.type === "string" && newColumn.type === "bytes") &&
+                !(oldColumn.type === "bytes" && newColumn.type === "string")) {
+                return `change column type ${oldColumn.type} => ${newColumn.type}`;
             }
+        }
+
+        if (oldColumn.length && newColumn.length && (oldColumn.length !== newColumn.length)) {
+            // - Increase or decrease the length limit for a STRING or BYTES type (including to MAX)
+            if (newColumn.type !== "string" && newColumn.type !== "bytes")
+                return `change column length of ${newColumn.type} ${oldColumn.length} => ${newColumn.length}`;
+            // TODO: implement following check.
+            // `unless it is a primary key column inherited by one or more child tables.`
+        }
+
+        if (oldColumn.isNullable !== newColumn.isNullable) {
+            // - Add/Remove NOT NULL constraint for non-key column
+            if (table.indices.find(index => index.columnNames.length === 1 && index.columnNames[0] === newColumn.name))
+                return `change nullable for ${oldColumn.name}, which is indexed`;
+        }
+
+        // - Enable or disable commit timestamps in value and primary key columns.
+        // - Set or drop DEFAULT expression.
+        // both are done by ALTER COLUMN.
+
+        // any other invalid changes
+        if (oldColumn.isPrimary !== newColumn.isPrimary ||
+            oldColumn.asExpression !== newColumn.asExpression ||
+            oldColumn.charset !== newColumn.charset ||
+            oldColumn.collation !== newColumn.collation ||
+            oldColumn.enum !== newColumn.enum ||
+            oldColumn.generatedType !== newColumn.generatedType ||
+            // generationStorategy is managed by schemas table
+            oldColumn.isArray !== newColumn.isArray
+            // isGenerated is managed by schemas table
+        ) {
+            return `not supported change ${JSON.stringify(oldColumn)} => ${JSON.stringify(newColumn)}`;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * rebuilds the table so that its primary key consists of given columns.
+     */
+    protected async rebuildTableWithPrimaryKeys(table: Table, columnNames: string[]): Promise<void> {
+        const newTable = table.clone();
+        newTable.columns.forEach(column => column.isPrimary = columnNames.indexOf(column.name) !== -1);
+
+        const columnMap: { [newColumnName: string]: string } = {};
+        newTable.columns.forEach(column => columnMap[column.name] = column.name);
+        await this.rebuildTable(table, newTable, columnMap, `change primary key of ${table.name} => (${columnNames.join(", ")})`);
+    }
+
+    /**
+     * rebuilds oldTable as newTable by copy-and-swap, for schema changes which spanner cannot do by ALTER TABLE.
+     * newTable is created (under temporary name if it has the same name as oldTable), rows are copied into it,
+     * then old table is dropped, and indices and foreign keys (including ones of other tables which refer the table) are re-created.
+     * columnMap maps column names of newTable onto column names of oldTable which values are copied from.
+     * all queries are recorded in sql memory, so that migration can be generated from them.
+     */
+    protected async rebuildTable(oldTable: Table, newTable: Table, columnMap: { [newColumnName: string]: string }, change: string): Promise<void> {
+        if (!this.driver.options.allowTableRebuild)
+            throw new Error(`NYI: spanner: ${change}. enable allowTableRebuild connection option to rebuild table ${oldTable.name} for this change`);
+        if (this.tx)
+            throw new Error(`cannot rebuild table ${oldTable.name} inside transaction`);
+
+        await this.driver.loadTables(oldTable.name);
+        const tables = this.driver.spanner ? Object.keys(this.driver.spanner.database.tables).map(name => this.driver.spanner!.database.tables[name]) : [];
+        const children = tables.filter(table => table.interleave && table.interleave.parentTableName === oldTable.name);
+        if (children.length > 0)
+            throw new Error(`cannot rebuild table ${oldTable.name} because ${children.map(table => table.name).join(", ")} is interleaved in it`);
+        const dependents: { table: Table, foreignKey: TableForeignKey }[] = [];
+        tables.filter(table => table.name !== oldTable.name).forEach(table => {
+            table.foreignKeys
+                .filter(foreignKey => foreignKey.referencedTableName === oldTable.name)
+                .forEach(foreignKey => dependents.push({ table, foreignKey }));
+        });
+
+        const isRenamed = oldTable.name !== newTable.name;
+        const shadowTable = newTable.clone();
+        if (!isRenamed)
+            shadowTable.name = `${newTable.name}_rebuild`;
+        // constraint names are unique in the database, so check constraints are added after old table is dropped
+        shadowTable.checks = [];
+        const identityMap: { [columnName: string]: string } = {};
+        newTable.columns.forEach(column => identityMap[column.name] = column.name);
+
+        // foreign keys which refer the table are re-created after the swap
+        let upQueries: string[] = [];
+        let downQueries: string[] = [];
+        dependents.forEach(({ table, foreignKey }) => {
+            upQueries.push(this.dropForeignKeySql(table, foreignKey));
+            downQueries.push(this.createForeignKeySql(table, foreignKey));
+        });
+        upQueries.push(this.createTableSql(shadowTable, false));
+        downQueries.push(this.dropTableSql(shadowTable));
+        await this.executeQueries(upQueries, downQueries);
+        await this.copyTableRows(oldTable, shadowTable, columnMap);
+
+        upQueries = [];
+        downQueries = [];
+        oldTable.foreignKeys.forEach(foreignKey => {
+            upQueries.push(this.dropForeignKeySql(oldTable, foreignKey));
+            downQueries.push(this.createForeignKeySql(oldTable, foreignKey));
+        });
+        oldTable.indices.forEach(index => {
+            upQueries.push(this.dropIndexSql(oldTable, index));
+            downQueries.push(this.createIndexSql(oldTable, index));
+        });
+        upQueries.push(this.dropTableSql(oldTable));
+        downQueries.push(this.createTableSql(oldTable, false));
+        if (!isRenamed) {
+            upQueries.push(this.createTableSql(newTable, false));
+            downQueries.push(this.dropTableSql(newTable));
+        }
+        await this.executeQueries(upQueries, downQueries);
+
+        if (!isRenamed) {
+            await this.copyTableRows(shadowTable, newTable, identityMap);
+            await this.executeQueries(this.dropTableSql(shadowTable), this.createTableSql(shadowTable, false));
+        }
+
+        upQueries = [];
+        downQueries = [];
+        newTable.indices.forEach(index => {
+            upQueries.push(this.createIndexSql(newTable, index));
+            downQueries.push(this.dropIndexSql(newTable, index));
+        });
+        if (isRenamed) {
+            newTable.checks.forEach(check => {
+                upQueries.push(`ALTER TABLE ${this.escapeTableName(newTable)} ADD ${this.buildCheckConstraintSql(check)}`);
+                downQueries.push(`ALTER TABLE ${this.escapeTableName(newTable)} DROP CONSTRAINT \`${check.name}\``);
+            });
+        }
+        newTable.foreignKeys.forEach(foreignKey => {
+            upQueries.push(this.createForeignKeySql(newTable, foreignKey));
+            downQueries.push(this.dropForeignKeySql(newTable, foreignKey));
+        });
+        dependents.forEach(({ table, foreignKey }) => {
+            const newForeignKey = foreignKey.clone();
+            newForeignKey.referencedTableName = newTable.name;
+            newForeignKey.referencedColumnNames = newForeignKey.referencedColumnNames
+                .map(columnName => Object.keys(columnMap).find(newColumnName => columnMap[newColumnName] === columnName) || columnName);
+            upQueries.push(this.createForeignKeySql(table, newForeignKey));
+            downQueries.push(this.dropForeignKeySql(table, newForeignKey));
+            table.foreignKeys[table.foreignKeys.indexOf(foreignKey)] = newForeignKey;
+        });
+        await this.executeQueries(upQueries, downQueries);
+
+        if (!this.driver.isSchemaTable(oldTable)) {
+            await Promise.all(oldTable.columns
+                .filter(column => isRenamed || !newTable.findColumnByName(column.name))
+                .map(column => this.syncExtendSchema(oldTable, column, true)));
+            await Promise.all(newTable.columns.map(column => this.syncExtendSchema(newTable, column)));
+        }
+
+        if (this.driver.spanner)
+            delete this.driver.spanner.database.tables[oldTable.name];
+        this.replaceCachedTable(oldTable, newTable);
+        this.driver.setTable(newTable);
+    }
+
+    /**
+     * copies rows of sourceTable into targetTable. columnMap maps column names of targetTable onto column names of sourceTable.
+     * recorded query is INSERT ... SELECT DML, but rows are actually copied by batched mutations,
+     * because DML is limited by number of mutations per transaction.
+     */
+    protected async copyTableRows(sourceTable: Table, targetTable: Table, columnMap: { [targetColumnName: string]: string }): Promise<void> {
+        // target table queued by the running migration should exist before rows are copied
+        await this.flushMigrationDDL();
+
+        // generated columns cannot be written, spanner computes them again.
+        const targetColumnNames = Object.keys(columnMap).filter(columnName => {
+            const sourceColumn = sourceTable.findColumnByName(columnMap[columnName]);
+            const targetColumn = targetTable.findColumnByName(columnName);
+            return !!sourceColumn && !!targetColumn && !sourceColumn.asExpression && !targetColumn.asExpression;
+        });
+        const selectSql = (from: Table, to: Table, columnNames: { [toColumnName: string]: string }) => {
+            const expressions = Object.keys(columnNames).map(toColumnName => {
+                const fromColumn = from.findColumnByName(columnNames[toColumnName])!;
+                const toColumn = to.findColumnByName(toColumnName)!;
+                if (fromColumn.type === toColumn.type && fromColumn.isArray === toColumn.isArray)
+                    return fromColumn.name === toColumnName ? `\`${toColumnName}\`` : `\`${fromColumn.name}\` AS \`${toColumnName}\``;
+                const type = toColumn.isArray ? `ARRAY<${toColumn.type.toUpperCase()}>` : toColumn.type.toUpperCase();
+                return `CAST(\`${fromColumn.name}\` AS ${type}) AS \`${toColumnName}\``;
+            });
+            return `SELECT ${expressions.join(", ")} FROM ${this.escapeTableName(from)}`;
+        };
+        const insertSql = (from: Table, to: Table, columnNames: { [toColumnName: string]: string }) => {
+            const toColumnNames = Object.keys(columnNames).map(columnName => `\`${columnName}\``).join(", ");
+            return `${BatchedCopyMarker} INSERT INTO ${this.escapeTableName(to)} (${toColumnNames}) ${selectSql(from, to, columnNames)}`;
+        };
+
+        const copyMap: { [targetColumnName: string]: string } = {};
+        const reverseMap: { [sourceColumnName: string]: string } = {};
+        targetColumnNames.forEach(columnName => {
+            copyMap[columnName] = columnMap[columnName];
+            reverseMap[columnMap[columnName]] = columnName;
+        });
+        const up = insertSql(sourceTable, targetTable, copyMap);
+        this.sqlInMemory.upQueries.push(up);
+        this.sqlInMemory.downQueries.push(insertSql(targetTable, sourceTable, reverseMap));
+        if (this.sqlMemoryMode === true)
+            return;
+
+        this.driver.connection.logger.logQuery(up, [], this);
+        await this.copyRowsBySelect(targetTable, selectSql(sourceTable, targetTable, copyMap));
+    }
+
+    /**
+     * executes DML statement. INSERT ... SELECT recorded by table rebuild is executed as batched copy.
+     */
+    protected async executeDML(query: string, parameters?: any[]): Promise<number> {
+        const statement = query.trim();
+        const m = statement.startsWith(BatchedCopyMarker) ?
+            statement.substr(BatchedCopyMarker.length).match(/^\s*INSERT INTO\s+(`[^`]+`|\S+)\s*\([^)]*\)\s*(SELECT\s[\s\S]+)$/i) : null;
+        if (!m)
+            return this.runUpdate(query, parameters);
+
+        const tableName = m[1].replace(/`/g, "");
+        const table = await this.getTable(tableName);
+        if (!table)
+            throw new Error(`fatal: no such table ${tableName}`);
+
+        this.driver.connection.logger.logQuery(query, parameters, this);
+        return this.copyRowsBySelect(table, m[2]);
+    }
+
+    /**
+     * inserts rows read by the query (which selects columns of targetTable by their names) into targetTable.
+     * rows are streamed, and each chunk is committed by mutations as soon as it reaches mutation limit,
+     * so that the whole table is never loaded in memory. resolves number of copied rows.
+     */
+    protected async copyRowsBySelect(targetTable: Table, selectSql: string): Promise<number> {
+        if (this.tx || this.readOnlyBound)
+            throw new Error(`rows of ${targetTable.name} cannot be copied inside transaction`);
+
+        await this.connect();
+        const limit = this.driver.getMutationLimit();
+        return new Promise<number>((ok, fail) => {
+            const stream = this.databaseConnection.runStream({ sql: selectSql });
+            let chunk: ObjectLiteral[] = [];
+            let mutations = 0;
+            let copied = 0;
+            let failed = false;
+            let writing: Promise<void> = Promise.resolve();
+            const write = (rows: ObjectLiteral[]) => {
+                writing = writing.then(() => this.request(targetTable, "insert", rows)).then(() => { copied += rows.length; });
+                return writing;
+            };
+            const onError = (err: any) => {
+                if (failed)
+                    return;
+                failed = true;
+                if (stream.destroy)
+                    stream.destroy();
+                fail(err);
+            };
+            stream.on("data", (row: { name: string, value: any }[]) => {
+                const value: ObjectLiteral = {};
+                row.forEach(field => value[field.name] = field.value);
+                const rowMutations = this.countRowMutations(targetTable, value);
+                if (chunk.length > 0 && mutations + rowMutations > limit) {
+                    // stop reading until the chunk is written
+                    stream.pause();
+                    write(chunk).then(() => stream.resume(), onError);
+                    chunk = [];
+                    mutations = 0;
+                }
+                chunk.push(value);
+                mutations += rowMutations;
+            });
+            stream.on("error", onError);
+            stream.on("end", () => {
+                (chunk.length > 0 ? write(chunk) : writing).then(() => {
+                    if (!failed)
+                        ok(copied);
+                }, onError);
+            });
         });
     }
 
@@ -1665,44 +2194,151 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         return data.promise()
     }
 
-    private generateQueryParameterAndTypes(parameters?: any[]): [{ [key: string]: any; }, { [key: string]: string }] {
-      // console.log()
-      // console.log('=================================================================================')
-      // console.log('generateQueryParameterAndTypes')
-      // console.log(parameters)
-      
-      const params: { [key: string]: any; } = {}
-      const types: { [key: string]: string } = {}
-      if (parameters) {
-        parameters.forEach((p) => {
-          params[p[0]] = p[1];
-          if (p[2]) {
-            types[p[0]] = p[2];
-          }
-        })
-      }
+    /**
+     * returns true if the next statement of the running migration was applied by the previous run, and should be skipped.
+     */
+    protected skipAppliedMigrationStatement(statement: string): boolean {
+        const run = this.migrationRun!;
+        run.seenStatements++;
+        if (run.seenStatements > run.skipStatements)
+            return false;
+
+        this.driver.connection.logger.logMigration(`skip statement applied by previous run: ${statement}`, this);
+        return true;
+    }
+
+    /**
+     * queues DDL statements of the running migration, which are applied together when DML, SELECT or the end of the migration comes.
+     */
+    protected async queueMigrationDDL(statements: string[]): Promise<void> {
+        statements
+            .filter(statement => !this.skipAppliedMigrationStatement(statement))
+            .forEach(statement => this.migrationRun!.ddlBatch.push(statement));
+    }
+
+    /**
+     * executes DML statement of the running migration after queued DDL statements are applied.
+     */
+    protected runMigrationDML(query: string, parameters?: any[]): Promise<number> {
+        return this.runMigrationWrite(query, () => this.executeDML(query, parameters), 0);
+    }
+
+    /**
+     * writes rows by the running migration after queued DDL statements are applied, and counts it as a statement of the migration.
+     * write applied by the previous failed run is skipped, and skippedResult is returned instead.
+     */
+    protected async runMigrationWrite<T>(statement: string, write: () => Promise<T>, skippedResult: T): Promise<T> {
+        if (this.skipAppliedMigrationStatement(statement))
+            return skippedResult;
+
+        await this.flushMigrationDDL();
+        const result = await write();
+        await this.reportMigrationProgress(1);
+        return result;
+    }
+
+    /**
+     * applies DDL statements queued by the running migration before rows are written, because rows may be written into tables they change.
+     * rows of extended schema written along with DDL do not wait for it, since schema table is not changed by migrations.
+     */
+    protected async flushMigrationDDLForRows(): Promise<void> {
+        if (this.writingExtendSchema <= 0)
+            await this.flushMigrationDDL();
+    }
+
+    /**
+     * applies queued DDL statements of the running migration by single schema update, and waits for it with progress logs.
+     * when the schema update fails, statements applied before the failure are reported as progress,
+     * because spanner does not roll them back.
+     */
+    protected async flushMigrationDDL(): Promise<void> {
+        const run = this.migrationRun;
+        if (!run || run.ddlBatch.length <= 0)
+            return;
+
+        const statements = run.ddlBatch.splice(0);
+        const logger = this.driver.connection.logger;
+        await this.connect();
+        logger.logMigration(`applying ${statements.length} DDL statements by single schema update`, this);
+
+        // metadata of the operation has commit timestamps of statements applied so far
+        const countApplied = (metadata: any) => metadata && metadata.commitTimestamps ? metadata.commitTimestamps.length : 0;
+        let applied = 0;
+        try {
+            const [operation]: any[] = await this.databaseConnection.updateSchema(statements);
+            operation.on("progress", (metadata: any) => {
+                const count = countApplied(metadata);
+                if (count > applied) {
+                    applied = count;
+                    logger.logMigration(`${applied}/${statements.length} DDL statements applied`, this);
+                }
+            });
+            try {
+                await operation.promise();
+            } catch (err) {
+                applied = Math.max(applied, countApplied(operation.metadata));
+                throw err;
+            }
+            if (applied < statements.length) {
+                applied = statements.length;
+                logger.logMigration(`${applied}/${statements.length} DDL statements applied`, this);
+            }
 
-      // console.log('params', params)
-      // console.log('types', types)
-      // console.log('=================================================================================')
+        } catch (err) {
+            logger.logMigration(`schema update failed after ${applied}/${statements.length} DDL statements, at: ${statements[applied]}`, this);
+            throw err;
 
-      return [params, types];
+        } finally {
+            await this.reportMigrationProgress(applied);
+        }
     }
 
-    private generateQueryParameters(parameters?: ObjectLiteral[]): ObjectLiteral {
-      if (!parameters) {
-        return {}
-      }
+    /**
+     * counts statements applied by the running migration, and notifies the progress.
+     */
+    protected async reportMigrationProgress(appliedStatements: number): Promise<void> {
+        const run = this.migrationRun;
+        if (!run || appliedStatements <= 0)
+            return;
 
-      // return parameters.reduce((params, param) => ({ ...params, ...param}), {})
-      const params: ObjectLiteral = {}
-      parameters.forEach(p => {
-        Object.keys(p).forEach(key => {
-          params[key] = p[key]
-        })
-      })
+        run.appliedStatements += appliedStatements;
+        if (!run.onProgress)
+            return;
 
-      return params
+        // progress is written by this query runner, but it is not a statement of the migration
+        this.migrationRun = undefined;
+        try {
+            await run.onProgress(run.appliedStatements);
+        } finally {
+            this.migrationRun = run;
+        }
+    }
+
+    /**
+     * merges parameters given by SpannerDriver.escapeQueryWithParameters into spanner query params,
+     * with spanner types given by SpannerParameter or inferred from their values.
+     * returns the query in which numeric and json parameters, sent as strings, are converted into their types.
+     */
+    private generateQueryParameterAndTypes(query: string, parameters?: ObjectLiteral[]): [string, ObjectLiteral, { [key: string]: SpannerParameterType }] {
+        const params: ObjectLiteral = {};
+        const types: { [key: string]: SpannerParameterType } = {};
+        if (parameters) {
+            parameters.forEach(p => {
+                Object.keys(p).forEach(key => {
+                    // type of SpannerParameter is given explicitly, others are inferred from their values
+                    const type = this.driver.getParameterType(p[key]);
+                    params[key] = this.driver.prepareParameterValue(p[key], type);
+                    const encoded = this.driver.getStringEncodedParameter(key, type);
+                    if (encoded) {
+                        query = query.replace(new RegExp(`@${key}\\b`, "g"), encoded.expression);
+                        types[key] = encoded.type;
+                    } else if (type) {
+                        types[key] = type;
+                    }
+                });
+            });
+        }
+        return [query, params, types];
     }
 
     /**
@@ -1760,24 +2396,11 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             });
         }
 
-        let indiciesSql: string = ''
-        if (table.indices.length > 0) {
-          indiciesSql = table.indices.map(index => {
-                const columnNames = index.columnNames.map(columnName => `\`${columnName}\``).join(", ");
-                if (!index.name)
-                    index.name = this.connection.namingStrategy.indexName(table.name, index.columnNames, index.where);
-
-                let indexType = "";
-                if (index.isUnique)
-                    indexType += "UNIQUE";
-                if (index.isSpatial)
-                    indexType += "NULL_FILTERED";
-                if (index.isFulltext)
-                    throw new Error(`NYI: spanner: index.isFulltext`); //indexType += "FULLTEXT ";
-
-                return `CREATE ${indexType} INDEX \`${index.name}\` ON ${escapedTableName} (${columnNames});`;
-            }).join(", ");
-        }
+        if (table.checks.length > 0)
+            sql += ", " + table.checks.map(check => this.buildCheckConstraintSql(check)).join(", ");
+
+        if (createForeignKeys && table.foreignKeys.length > 0)
+            sql += ", " + table.foreignKeys.map(foreignKey => this.buildForeignKeyConstraintSql(foreignKey)).join(", ");
 
         sql += `)`;
 
@@ -1786,24 +2409,10 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             sql += ` PRIMARY KEY (${columnNames})`;
         }
 
-        if (table.foreignKeys.length > 0 && createForeignKeys) {
-            const foreignKeysSql = table.foreignKeys.map(fk => {
-                let constraint = `INTERLEAVE IN PARENT ${this.escapeTableName(fk.referencedTableName)}`;
-                if (fk.onDelete)
-                    constraint += ` ON DELETE ${fk.onDelete}`;
-                if (fk.onUpdate)
-                    throw new Error(`NYI: spanner: fk.onUpdate`); //constraint += ` ON UPDATE ${fk.onUpdate}`;
+        if (table.interleave)
+            sql += `, INTERLEAVE IN PARENT ${this.escapeTableName(table.interleave.parentTableName)} ON DELETE ${table.interleave.onDelete}`;
 
-                return constraint;
-            }).join(", ");
-
-            sql += `, ${foreignKeysSql}`;
-        }
-
-        // console.log('SQL', sql)
-        // console.log('INDICIES SQL:', indiciesSql)
-
-        return `${sql}\n${indiciesSql}`;
+        return sql;
     }
 
     /**
@@ -1817,16 +2426,20 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * Builds create index sql.
      */
     protected createIndexSql(table: Table, index: TableIndex): string {
-        //TODO: somehow supports interleave and storing clause
         const columns = index.columnNames.map(columnName => `\`${columnName}\``).join(", ");
         let indexType = "";
         if (index.isUnique)
             indexType += "UNIQUE ";
-        if (index.isSpatial)
+        if (index.isNullFiltered)
             indexType += "NULL_FILTERED ";
         if (index.isFulltext)
             throw new Error(`NYI: spanner: index.isFulltext`); //indexType += "FULLTEXT "; 
-        return `CREATE ${indexType}INDEX \`${index.name}\` ON ${this.escapeTableName(table)}(${columns})`;
+        let sql = `CREATE ${indexType}INDEX \`${index.name}\` ON ${this.escapeTableName(table)}(${columns})`;
+        if (index.storingColumnNames.length > 0)
+            sql += ` STORING (${index.storingColumnNames.map(columnName => `\`${columnName}\``).join(", ")})`;
+        if (index.interleaveIn)
+            sql += `, INTERLEAVE IN ${this.escapeTableName(index.interleaveIn)}`;
+        return sql;
     }
 
     /**
@@ -1834,7 +2447,7 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      */
     protected dropIndexSql(table: Table, indexOrName: TableIndex|string): string {
         let indexName = indexOrName instanceof TableIndex ? indexOrName.name : indexOrName;
-        return `DROP INDEX \`${indexName}\` ON ${this.escapeTableName(table)}`;
+        return `DROP INDEX \`${indexName}\``;
     }
 
     /**
@@ -1856,15 +2469,7 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      * Builds create foreign key sql.
      */
     protected createForeignKeySql(table: Table, foreignKey: TableForeignKey): string {
-        const referencedColumnNames = foreignKey.referencedColumnNames.map(column => `\`${column}\``).join(",");
-        const fkName = foreignKey.name || `${foreignKey.referencedColumnNames}By${foreignKey.columnNames.join()}`;
-        let sql = `CREATE INDEX ${fkName} ON ${this.escapeTableName(table.name)}(${referencedColumnNames}), INTERLEAVE IN ${this.escapeTableName(foreignKey.referencedTableName)}`;
-        if (foreignKey.onDelete)
-            sql += ` ON DELETE ${foreignKey.onDelete}`;
-        if (foreignKey.onUpdate)
-            throw new Error(`NYI: spanner: foreignKey.onUpdate`); //sql += ` ON UPDATE ${foreignKey.onUpdate}`;
-
-        return sql;
+        return `ALTER TABLE ${this.escapeTableName(table)} ADD ${this.buildForeignKeyConstraintSql(foreignKey)}`;
     }
 
     /**
@@ -1872,7 +2477,36 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
      */
     protected dropForeignKeySql(table: Table, foreignKeyOrName: TableForeignKey|string): string {
         const foreignKeyName = foreignKeyOrName instanceof TableForeignKey ? foreignKeyOrName.name : foreignKeyOrName;
-        return `DROP INDEX \`${foreignKeyName}\` ON ${this.escapeTableName(table)}`;
+        return `ALTER TABLE ${this.escapeTableName(table)} DROP CONSTRAINT \`${foreignKeyName}\``;
+    }
+
+    /**
+     * Builds check constraint clause, used both in CREATE TABLE and ALTER TABLE.
+     * double quoted identifiers in the expression (e.g. "firstName" <> 'John') are quoted by backticks,
+     * because spanner treats double quoted text as string literal.
+     */
+    protected buildCheckConstraintSql(check: TableCheck): string {
+        const expression = check.expression!.replace(/"([^"]*)"/g, "`$1`");
+        return `CONSTRAINT \`${check.name}\` CHECK (${expression})`;
+    }
+
+    /**
+     * Builds foreign key constraint clause, used both in CREATE TABLE and ALTER TABLE.
+     * spanner only supports NO ACTION (default) and CASCADE as referential action on delete, and no action on update.
+     */
+    protected buildForeignKeyConstraintSql(foreignKey: TableForeignKey): string {
+        const columnNames = foreignKey.columnNames.map(column => `\`${column}\``).join(", ");
+        const referencedColumnNames = foreignKey.referencedColumnNames.map(column => `\`${column}\``).join(", ");
+        let sql = `CONSTRAINT \`${foreignKey.name}\` FOREIGN KEY (${columnNames}) REFERENCES ${this.escapeTableName(foreignKey.referencedTableName)} (${referencedColumnNames})`;
+        if (foreignKey.onDelete && foreignKey.onDelete !== "NO ACTION") {
+            if (foreignKey.onDelete !== "CASCADE")
+                throw new Error(`spanner does not support ON DELETE ${foreignKey.onDelete} of foreign key ${foreignKey.name}, only CASCADE and NO ACTION are supported`);
+            sql += ` ON DELETE ${foreignKey.onDelete}`;
+        }
+        if (foreignKey.onUpdate && foreignKey.onUpdate !== "NO ACTION")
+            throw new Error(`spanner does not support ON UPDATE ${foreignKey.onUpdate} of foreign key ${foreignKey.name}`);
+
+        return sql;
     }
 
     protected parseTableName(target: Table|string) {
@@ -1906,8 +2540,12 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         } else {
             c = `\`${column.name}\` ${this.connection.driver.createFullType(column)}`;
         }
-        if (column.asExpression)
-            throw new Error(`NYI: spanner: column.asExpression`); // c += ` AS (${column.asExpression}) ${column.generatedType ? column.generatedType : "VIRTUAL"}`;
+        if (column.asExpression) {
+            // spanner only supports stored generated columns
+            if (column.generatedType && column.generatedType !== "STORED")
+                throw new Error(`NYI: spanner: column.generatedType = ${column.generatedType}. only STORED generated column is supported`);
+            c += ` AS (${column.asExpression}) STORED`;
+        }
 
         // if you specify ZEROFILL for a numeric column, MySQL automatically adds the UNSIGNED attribute to that column.
         if (column.zerofill) {
@@ -1936,8 +2574,8 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         // not error but does not take effect here.
         // if (column.isPrimary && !skipPrimary) c += " PRIMARY KEY";
 
-        // spanner does not support any generated columns, nor default value.
-        // we should create metadata table and get information about generated columns
+        // spanner does not support generation strategies (e.g. increment).
+        // we store them in the schemas table and generate values by ourselves.
         // if (column.isGenerated && column.generationStrategy === "increment") {
         // }
 
@@ -1945,16 +2583,10 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         if (column.comment)
             throw new Error(`NYI: spanner: column.comment`); //c += ` COMMENT '${column.comment}'`;
 
-        // // does not support any default value except SpannerColumnUpdateWithCommitTimestamp
-        // if (column.default !== undefined && column.default !== null) {
-        //     if (column.default !== SpannerColumnUpdateWithCommitTimestamp) {
-        //         throw new Error(`NYI: spanner: column.default=${column.default}`); //c += ` DEFAULT ${column.default}`;
-        //     } else {
-        //         c += `OPTIONS (allow_commit_timestamp=true)`
-        //     }
-        // }
-        if (column.default === SpannerColumnUpdateWithCommitTimestamp) {
-            c += `OPTIONS (allow_commit_timestamp=true)`
+        if (this.hasNativeDefault(column)) {
+            c += ` DEFAULT (${column.default})`;
+        } else if (column.default === SpannerColumnUpdateWithCommitTimestamp) {
+            c += ` OPTIONS (allow_commit_timestamp=true)`;
         }
         
         // does not support on update
@@ -1968,19 +2600,38 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         return "";
     }
 
+    /**
+     * Builds a query to set or drop DEFAULT expression of the column.
+     */
+    protected buildChangeColumnDefaultSql(table: Table, column: TableColumn): string {
+        if (this.hasNativeDefault(column))
+            return `ALTER TABLE ${this.escapeTableName(table)} ALTER COLUMN \`${column.name}\` SET DEFAULT (${column.default})`;
+        return `ALTER TABLE ${this.escapeTableName(table)} ALTER COLUMN \`${column.name}\` DROP DEFAULT`;
+    }
+
+    /**
+     * returns true if the column default is written as spanner DEFAULT clause.
+     * commit timestamp is written as column option instead.
+     */
+    protected hasNativeDefault(column: TableColumn): boolean {
+        return column.default !== undefined && column.default !== null && column.default !== SpannerColumnUpdateWithCommitTimestamp;
+    }
+
     protected async syncExtendSchema(table: Table, column: TableColumn, remove?: boolean): Promise<void> {
         const promises: Promise<void>[] = [];
-        if (!remove && column.default) {
-            promises.push(this.upsertExtendSchema(table.name, column.name, "default", column.default));
-        } else {
+        this.writingExtendSchema++;
+        try {
+            // defaults are part of the column DDL now. only remove the rows which older versions stored.
             promises.push(this.deleteExtendSchema(table.name, column.name, "default"));
+            if (!remove && column.generationStrategy) {
+                promises.push(this.upsertExtendSchema(table.name, column.name, "generator", column.generationStrategy))
+            } else {
+                promises.push(this.deleteExtendSchema(table.name, column.name, "generator"));
+            }
+            await Promise.all(promises);
+        } finally {
+            this.writingExtendSchema--;
         }
-        if (!remove && column.generationStrategy) {
-            promises.push(this.upsertExtendSchema(table.name, column.name, "generator", column.generationStrategy))
-        } else {
-            promises.push(this.deleteExtendSchema(table.name, column.name, "generator"));
-        }
-        await Promise.all(promises);
     }
 
     protected async deleteExtendSchema(table: string, column: string, type: string): Promise<void> {
@@ -7,13 +7,13 @@ export interface SpannerExtendSchemas {
             generatorStorategy?: "uuid"|"increment";
             generator?: () => any;
         }
-    }
+    };
 }
 export interface SpannerDatabase {
     handle: any;
     tables: {
         [key: string]: Table;
-    }
+    };
     /**
      * extra schema information
      */
@@ -22,6 +22,13 @@ export interface SpannerDatabase {
 
 
 export interface SpannerCredentials {
-  client_email?: string
-  private_key?: string
+  client_email?: string;
+  private_key?: string;
 }
+
+/**
+ * type of query parameter, in the format of `types` field of spanner query request.
+ */
+export type SpannerParameterType = string
+    | { type: "array", child?: SpannerParameterType }
+    | { type: "struct", fields: { name: string, type: SpannerParameterType }[] };
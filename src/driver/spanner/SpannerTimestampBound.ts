@@ -0,0 +1,35 @@
+/**
+ * Timestamp bound of spanner read-only transaction.
+ * Only one of the bounds should be specified.
+ *
+ * @see https://cloud.google.com/spanner/docs/timestamp-bounds
+ */
+export interface SpannerTimestampBound {
+
+    /**
+     * Reads at a timestamp where all previously committed transactions are visible.
+     */
+    readonly strong?: boolean;
+
+    /**
+     * Reads at a timestamp which is exactly given number of seconds old.
+     */
+    readonly exactStaleness?: number;
+
+    /**
+     * Reads data which is at most given number of seconds old.
+     * Spanner allows this bound only for single-use reads, so each read may select different timestamp.
+     */
+    readonly maxStaleness?: number;
+
+    /**
+     * Reads at the given timestamp.
+     */
+    readonly readTimestamp?: Date;
+
+    /**
+     * Reads at a timestamp which is greater than or equal to the given timestamp.
+     * Spanner allows this bound only for single-use reads, so each read may select different timestamp.
+     */
+    readonly minReadTimestamp?: Date;
+}
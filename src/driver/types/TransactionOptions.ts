@@ -0,0 +1,26 @@
+import {IsolationLevel} from "./IsolationLevel";
+import {SpannerTimestampBound} from "../spanner/SpannerTimestampBound";
+
+/**
+ * Options of the transaction started by EntityManager.transaction.
+ */
+export interface TransactionOptions {
+
+    /**
+     * Transaction isolation level.
+     */
+    readonly isolationLevel?: IsolationLevel;
+
+    /**
+     * Starts read-only snapshot transaction which does not take any locks.
+     * Passing true reads with strong timestamp bound.
+     * Supported only by spanner.
+     */
+    readonly readOnly?: boolean|SpannerTimestampBound;
+
+    /**
+     * Called with the timestamp at which the transaction was committed, right after the commit.
+     * Supported only by spanner.
+     */
+    readonly onCommit?: (commitTimestamp: Date) => void;
+}
@@ -4,7 +4,10 @@ import {Connection} from "../connection/Connection";
 import {MongoDriver} from "../driver/mongodb/MongoDriver";
 import {ObjectID} from "../driver/mongodb/typings";
 import {OracleDriver} from "../driver/oracle/OracleDriver";
+import {SpannerDriver} from "../driver/spanner/SpannerDriver";
+import {SpannerQueryRunner} from "../driver/spanner/SpannerQueryRunner";
 import {IsolationLevel} from "../driver/types/IsolationLevel";
+import {TransactionOptions} from "../driver/types/TransactionOptions";
 import {CustomRepositoryCannotInheritRepositoryError} from "../error/CustomRepositoryCannotInheritRepositoryError";
 import {CustomRepositoryNotFoundError} from "../error/CustomRepositoryNotFoundError";
 import {EntityNotFoundError} from "../error/EntityNotFoundError";
@@ -33,7 +36,9 @@ import {RemoveOptions} from "../repository/RemoveOptions";
 import {Repository} from "../repository/Repository";
 import {RepositoryFactory} from "../repository/RepositoryFactory";
 import {SaveOptions} from "../repository/SaveOptions";
+import {UpsertOptions} from "../repository/UpsertOptions";
 import {TreeRepository} from "../repository/TreeRepository";
+import {PromiseUtils} from "../util/PromiseUtils";
 import * as Observable from "zen-observable";
 
 /**
@@ -94,18 +99,26 @@ export class EntityManager {
      */
     async transaction<T>(runInTransaction: (entityManger: EntityManager) => Promise<T>): Promise<T>;
     async transaction<T>(isolationLevel: IsolationLevel, runInTransaction: (entityManger: EntityManager) => Promise<T>): Promise<T>;
+    async transaction<T>(options: TransactionOptions, runInTransaction: (entityManger: EntityManager) => Promise<T>): Promise<T>;
     async transaction<T>(
-        isolationOrRunInTransaction: IsolationLevel | ((entityManger: EntityManager) => Promise<T>),
+        isolationOrRunInTransaction: IsolationLevel | TransactionOptions | ((entityManger: EntityManager) => Promise<T>),
         runInTransactionParam?: (entityManger: EntityManager) => Promise<T>
     ): Promise<T> {
 
-        const isolation = typeof isolationOrRunInTransaction === "string" ? isolationOrRunInTransaction : undefined;
+        const options = typeof isolationOrRunInTransaction === "object" ? isolationOrRunInTransaction : undefined;
+        const isolation = typeof isolationOrRunInTransaction === "string" ? isolationOrRunInTransaction : options ? options.isolationLevel : undefined;
         const runInTransaction = typeof isolationOrRunInTransaction === "function" ? isolationOrRunInTransaction : runInTransactionParam;
 
         if (!runInTransaction) {
-            throw new Error(`Transaction method requires callback in second paramter if isolation level is supplied.`);
+            throw new Error(`Transaction method requires callback in second paramter if isolation level or options are supplied.`);
         }
 
+        if (options && options.readOnly && !(this.connection.driver instanceof SpannerDriver))
+            throw new Error(`Read-only transactions are supported only by Spanner.`);
+
+        if (options && options.onCommit && !(this.connection.driver instanceof SpannerDriver))
+            throw new Error(`Commit timestamps are supported only by Spanner.`);
+
         if (this.connection.driver instanceof MongoDriver)
             throw new Error(`Transactions aren't supported by MongoDB.`);
 
@@ -119,22 +132,43 @@ export class EntityManager {
         // if its not defined we create a new query runner - single connection where we'll execute all our operations
         const queryRunner = this.queryRunner || this.connection.createQueryRunner("master");
 
+        // spanner may abort read-write transaction at any time and requires the caller to restart it,
+        // so on spanner we run the callback again in a new transaction until the retry limit is reached
+        const driver = this.connection.driver;
+        const retryLimit = driver instanceof SpannerDriver ? driver.getTransactionRetryLimit() : 0;
+
         try {
-            if (isolation) {
-                await queryRunner.startTransaction(isolation);
-              } else {
-                await queryRunner.startTransaction();
-              }
-            const result = await runInTransaction(queryRunner.manager);
-            await queryRunner.commitTransaction();
-            await new ObserverExecutor(this.connection.observers).execute();
-            return result;
-
-        } catch (err) {
-            try { // we throw original error even if rollback thrown an error
-                await queryRunner.rollbackTransaction();
-            } catch (rollbackError) { }
-            throw err;
+            for (let attempts = 0; ; attempts++) {
+                try {
+                    if (options && options.readOnly) {
+                        await (queryRunner as SpannerQueryRunner).startTransaction(options);
+                    } else if (isolation) {
+                        await queryRunner.startTransaction(isolation);
+                    } else {
+                        await queryRunner.startTransaction();
+                    }
+                    const result = await runInTransaction(queryRunner.manager);
+                    await queryRunner.commitTransaction();
+                    if (options && options.onCommit) {
+                        const commitTimestamp = (queryRunner as SpannerQueryRunner).getCommitTimestamp();
+                        if (commitTimestamp)
+                            options.onCommit(commitTimestamp);
+                    }
+                    await new ObserverExecutor(this.connection.observers).execute();
+                    return result;
+
+                } catch (err) {
+                    try { // we throw original error even if rollback thrown an error
+                        await queryRunner.rollbackTransaction();
+                    } catch (rollbackError) { }
+
+                    if (driver instanceof SpannerDriver && attempts < retryLimit && driver.isTransactionAbortedError(err)) {
+                        await PromiseUtils.delay(driver.getTransactionRetryDelay(err, attempts + 1));
+                        continue;
+                    }
+                    throw err;
+                }
+            }
 
         } finally {
             if (!this.queryRunner) // if we used a new query runner provider then release it
@@ -379,6 +413,21 @@ export class EntityManager {
             .execute();
     }
 
+    /**
+     * Inserts given entities into the database, or updates them if rows with the same primary keys already exist.
+     * Given entities must contain their primary keys.
+     * Executes insertOrUpdate (or replace, if { replace: true } is given) mutation, so rows are not read before write.
+     * Supported only by spanner.
+     */
+    upsert<Entity>(target: ObjectType<Entity>|EntitySchema<Entity>|string, entity: QueryPartialEntity<Entity>|(QueryPartialEntity<Entity>[]), options?: UpsertOptions): Promise<InsertResult> {
+        const queryBuilder = this.createQueryBuilder()
+            .insert()
+            .into(target)
+            .values(entity);
+
+        return (options && options.replace ? queryBuilder.orReplace() : queryBuilder.orUpdate()).execute();
+    }
+
     /**
      * Updates entity partially. Entity can be found by a given condition(s).
      * Unlike save method executes a primitive operation without cascades, relations and other operations included.
@@ -406,6 +455,7 @@ export class EntityManager {
                 .update(target)
                 .set(partialEntity)
                 .whereInIds(criteria)
+                .usePartitionedDml(!!(options && options.partitioned))
                 .execute();
 
         } else {
@@ -413,6 +463,7 @@ export class EntityManager {
                 .update(target)
                 .set(partialEntity)
                 .where(criteria)
+                .usePartitionedDml(!!(options && options.partitioned))
                 .execute();
         }
     }
@@ -444,6 +495,7 @@ export class EntityManager {
                 .delete()
                 .from(targetOrEntity)
                 .whereInIds(criteria)
+                .usePartitionedDml(!!(options && options.partitioned))
                 .execute();
 
         } else {
@@ -451,6 +503,7 @@ export class EntityManager {
                 .delete()
                 .from(targetOrEntity)
                 .where(criteria)
+                .usePartitionedDml(!!(options && options.partitioned))
                 .execute();
         }
     }
@@ -44,4 +44,22 @@ export interface EntitySchemaIndexOptions {
      */
     where?: string;
 
+    /**
+     * Non-key columns (property names) whose values are stored in the index as well.
+     * Works only in Spanner.
+     */
+    storing?: string[];
+
+    /**
+     * Parent entity (or its name) which index is interleaved in.
+     * Works only in Spanner.
+     */
+    interleaveIn?: string|((type?: any) => Function);
+
+    /**
+     * Indicates if rows with NULL in indexed columns are excluded from the index.
+     * Works only in Spanner.
+     */
+    nullFiltered?: boolean;
+
 }
\ No newline at end of file
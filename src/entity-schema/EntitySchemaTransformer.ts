@@ -184,6 +184,9 @@ export class EntitySchemaTransformer {
                         synchronize: index.synchronize === false ? false : true,
                         where: index.where,
                         sparse: index.sparse,
+                        storing: index.storing,
+                        interleaveIn: index.interleaveIn,
+                        nullFiltered: index.nullFiltered === true ? true : false,
                         columns: index.columns
                     };
                     metadataArgsStorage.indices.push(indexAgrs);
@@ -0,0 +1,14 @@
+/**
+ * Thrown when source of the executed migration has been changed since it was executed.
+ */
+export class MigrationChecksumMismatchError extends Error {
+    name = "MigrationChecksumMismatchError";
+
+    constructor(migrationNames: string[]) {
+        super();
+        Object.setPrototypeOf(this, MigrationChecksumMismatchError.prototype);
+        this.message = `Executed migrations have been changed since they were executed: ${migrationNames.join(", ")}. ` +
+            `Revert the changes and create a new migration instead, or if the changes are intended, update the checksums by "migration:repair" command.`;
+    }
+
+}
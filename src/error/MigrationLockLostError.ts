@@ -0,0 +1,16 @@
+/**
+ * Thrown when the migration lock held by this process has been taken over by other process or released,
+ * e.g. because it expired while it could not be renewed. Migrations are not executed any further.
+ */
+export class MigrationLockLostError extends Error {
+    name = "MigrationLockLostError";
+
+    constructor(owner: string, currentOwner?: string) {
+        super();
+        Object.setPrototypeOf(this, MigrationLockLostError.prototype);
+        this.message = `Migration lock of "${owner}" has been lost, ` +
+            (currentOwner ? `it is held by "${currentOwner}" now. ` : `it has been released. `) +
+            `Migrations are aborted, because other process may execute them at the same time.`;
+    }
+
+}
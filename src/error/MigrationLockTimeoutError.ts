@@ -0,0 +1,14 @@
+/**
+ * Thrown when migration lock cannot be acquired within the timeout, because other process holds it.
+ */
+export class MigrationLockTimeoutError extends Error {
+    name = "MigrationLockTimeoutError";
+
+    constructor(timeout: number, owner: string, expiresAt: Date) {
+        super();
+        Object.setPrototypeOf(this, MigrationLockTimeoutError.prototype);
+        this.message = `Cannot acquire migration lock in ${timeout} ms, it is held by "${owner}" until ${expiresAt.toISOString()}. ` +
+            `If the owner is not running anymore, wait for the lock to expire or release it by "migration:lock --release" command.`;
+    }
+
+}
@@ -117,6 +117,10 @@ export class FindOperator<T> {
                 return `${aliasPath} = ANY(${parameters[0]})`;
             case "isNull":
                 return `${aliasPath} IS NULL`;
+            case "arrayContains":
+                return `${parameters[0]} IN UNNEST(${aliasPath})`;
+            case "arrayContainsAny":
+                return `EXISTS(SELECT 1 FROM UNNEST(${aliasPath}) AS element WHERE element IN UNNEST([${parameters.join(", ")}]))`;
             case "raw":
                 if (this.value instanceof Function) {
                     return this.value(aliasPath);
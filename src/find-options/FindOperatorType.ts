@@ -14,4 +14,6 @@ export type FindOperatorType =
     | "ilike"
     | "raw"
     | "if"
-    | "switch";
+    | "switch"
+    | "arrayContains"
+    | "arrayContainsAny";
@@ -1,5 +1,6 @@
 import {FindOperator} from "./FindOperator";
 import {QueryRunner} from "..";
+import {SpannerTimestampBound} from "../driver/spanner/SpannerTimestampBound";
 
 /**
  * Value of order by in find options.
@@ -145,6 +146,13 @@ export type FindExtraOptions = {
      */
     queryRunner?: QueryRunner;
 
+    /**
+     * Reads entities in read-only snapshot transaction which does not take any locks.
+     * Passing true reads with strong timestamp bound.
+     * Supported only by spanner, ignored if transaction is already active.
+     */
+    readOnly?: boolean|SpannerTimestampBound;
+
 };
 
 /**
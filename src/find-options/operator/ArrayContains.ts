@@ -0,0 +1,10 @@
+import {FindOperator} from "../FindOperator";
+
+/**
+ * Find Options Operator. Matches rows whose array column contains the given value.
+ * Supported by spanner only.
+ * Example: { someField: ArrayContains("value") }
+ */
+export function ArrayContains<T>(value: T|FindOperator<T>): FindOperator<T> {
+    return new FindOperator("arrayContains", value);
+}
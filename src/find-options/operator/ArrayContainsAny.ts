@@ -0,0 +1,10 @@
+import {FindOperator} from "../FindOperator";
+
+/**
+ * Find Options Operator. Matches rows whose array column contains at least one of the given values.
+ * Supported by spanner only.
+ * Example: { someField: ArrayContainsAny([...]) }
+ */
+export function ArrayContainsAny<T>(value: T[]|FindOperator<T>): FindOperator<T|FindOperator<T>> {
+    return new FindOperator("arrayContainsAny", value as any, true, true);
+}
@@ -32,6 +32,7 @@ export * from "./decorator/columns/CreateDateColumn";
 export * from "./decorator/columns/PrimaryGeneratedColumn";
 export * from "./decorator/columns/PrimaryColumn";
 export * from "./decorator/columns/UpdateDateColumn";
+export * from "./decorator/columns/CommitTimestampColumn";
 export * from "./decorator/columns/VersionColumn";
 export * from "./decorator/columns/ObjectIdColumn";
 export * from "./decorator/listeners/AfterInsert";
@@ -48,6 +49,7 @@ export * from "./decorator/options/JoinColumnOptions";
 export * from "./decorator/options/JoinTableOptions";
 export * from "./decorator/options/RelationOptions";
 export * from "./decorator/options/EntityOptions";
+export * from "./decorator/options/InterleaveOptions";
 export * from "./decorator/options/ValueTransformer";
 export * from "./decorator/relations/JoinColumn";
 export * from "./decorator/relations/JoinTable";
@@ -73,6 +75,8 @@ export * from "./decorator/Check";
 export * from "./decorator/Generated";
 export * from "./decorator/EntityRepository";
 export * from "./find-options/operator/Any";
+export * from "./find-options/operator/ArrayContains";
+export * from "./find-options/operator/ArrayContainsAny";
 export * from "./find-options/operator/Between";
 export * from "./find-options/operator/Equal";
 export * from "./find-options/operator/In";
@@ -101,6 +105,7 @@ export * from "./repository/TreeRepository";
 export * from "./repository/MongoRepository";
 export * from "./repository/RemoveOptions";
 export * from "./repository/SaveOptions";
+export * from "./repository/UpsertOptions";
 export * from "./schema-builder/table/TableColumn";
 export * from "./schema-builder/table/TableForeignKey";
 export * from "./schema-builder/table/TableIndex";
@@ -108,6 +113,7 @@ export * from "./schema-builder/table/Table";
 export * from "./driver/mongodb/typings";
 export * from "./driver/types/DatabaseType";
 export * from "./driver/sqlserver/MssqlParameter";
+export * from "./driver/spanner/SpannerParameter";
 
 export {ConnectionOptionsReader} from "./connection/ConnectionOptionsReader";
 export {Connection} from "./connection/Connection";
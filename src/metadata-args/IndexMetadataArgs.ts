@@ -51,4 +51,22 @@ export interface IndexMetadataArgs {
      * This option is only supported for mongodb database.
      */
     sparse?: boolean;
+
+    /**
+     * Non-key columns (property names) stored in the index.
+     * Works only in Spanner.
+     */
+    storing?: string[];
+
+    /**
+     * Parent entity (or its name) which index is interleaved in.
+     * Works only in Spanner.
+     */
+    interleaveIn?: string|((type?: any) => Function);
+
+    /**
+     * Indicates if rows with NULL in indexed columns are excluded from the index.
+     * Works only in Spanner.
+     */
+    nullFiltered?: boolean;
 }
@@ -1,5 +1,6 @@
 import {TableType} from "../metadata/types/TableTypes";
 import {OrderByCondition} from "../find-options/OrderByCondition";
+import {InterleaveOptions} from "../decorator/options/InterleaveOptions";
 
 /**
  * Arguments for TableMetadata class, helps to construct an TableMetadata object.
@@ -50,4 +51,8 @@ export interface TableMetadataArgs {
      */
     synchronize?: boolean;
 
+    /**
+     * Interleaving of the table in the table of parent entity. Used only in spanner.
+     */
+    interleave?: InterleaveOptions;
 }
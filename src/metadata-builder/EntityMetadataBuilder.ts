@@ -18,6 +18,7 @@ import {UniqueMetadata} from "../metadata/UniqueMetadata";
 import {MysqlDriver} from "../driver/mysql/MysqlDriver";
 import {CheckMetadata} from "../metadata/CheckMetadata";
 import {SqlServerDriver} from "../driver/sqlserver/SqlServerDriver";
+import {SpannerDriver} from "../driver/spanner/SpannerDriver";
 
 /**
  * Builds EntityMetadata objects and all its sub-metadatas.
@@ -95,6 +96,9 @@ export class EntityMetadataBuilder {
             .filter(entityMetadata => entityMetadata.tableType === "entity-child")
             .forEach(entityMetadata => entityMetadata.build());
 
+        // compute parent entity metadatas of interleaved tables (names are known after step0)
+        entityMetadatas.forEach(entityMetadata => this.computeInterleaveParentEntityMetadata(entityMetadatas, entityMetadata));
+
         // compute entity metadata columns, relations, etc. first for the regular, non-single-table-inherited entity metadatas
         entityMetadatas
             .filter(entityMetadata => entityMetadata.tableType !== "entity-child")
@@ -111,6 +115,9 @@ export class EntityMetadataBuilder {
         // calculate entity metadata's inverse properties
         entityMetadatas.forEach(entityMetadata => this.computeInverseProperties(entityMetadata, entityMetadatas));
 
+        // compute parent entity metadatas of interleaved indices
+        entityMetadatas.forEach(entityMetadata => this.computeIndexInterleaveEntityMetadatas(entityMetadatas, entityMetadata));
+
         // go through all entity metadatas and create foreign keys / junction entity metadatas for their relations
         entityMetadatas
             .filter(entityMetadata => entityMetadata.tableType !== "entity-child")
@@ -125,7 +132,7 @@ export class EntityMetadataBuilder {
                         entityMetadata.foreignKeys.push(foreignKey);
                     }
                     if (uniqueConstraint) {
-                        if (this.connection.driver instanceof MysqlDriver || this.connection.driver instanceof SqlServerDriver) {
+                        if (this.connection.driver instanceof MysqlDriver || this.connection.driver instanceof SqlServerDriver || this.connection.driver instanceof SpannerDriver) {
                             const index = new IndexMetadata({
                                 entityMetadata: uniqueConstraint.entityMetadata,
                                 columns: uniqueConstraint.columns,
@@ -275,6 +282,33 @@ export class EntityMetadataBuilder {
         });
     }
 
+    protected computeInterleaveParentEntityMetadata(allEntityMetadatas: EntityMetadata[], entityMetadata: EntityMetadata) {
+        const interleave = entityMetadata.tableMetadataArgs.interleave;
+        if (!interleave)
+            return;
+
+        entityMetadata.interleaveParentEntityMetadata = this.findInterleaveParentEntityMetadata(allEntityMetadatas, interleave.parent, entityMetadata.targetName);
+    }
+
+    protected computeIndexInterleaveEntityMetadatas(allEntityMetadatas: EntityMetadata[], entityMetadata: EntityMetadata) {
+        entityMetadata.indices
+            .filter(index => !!index.givenInterleaveIn)
+            .forEach(index => {
+                index.interleaveInEntityMetadata = this.findInterleaveParentEntityMetadata(allEntityMetadatas, index.givenInterleaveIn!, `index ${index.name}`);
+            });
+    }
+
+    protected findInterleaveParentEntityMetadata(allEntityMetadatas: EntityMetadata[], parentTargetOrName: string|((type?: any) => Function), interleavedName: string): EntityMetadata {
+        const parent = parentTargetOrName instanceof Function ? parentTargetOrName() : parentTargetOrName;
+        const parentEntityMetadata = allEntityMetadatas.find(allEntityMetadata => {
+            return allEntityMetadata.target === parent || allEntityMetadata.name === parent;
+        });
+        if (!parentEntityMetadata)
+            throw new Error(`Entity ${parent instanceof Function ? parent.name : parent} which ${interleavedName} is interleaved in was not found. Did you forget to add it to the connection entities?`);
+
+        return parentEntityMetadata;
+    }
+
     protected computeParentEntityMetadata(allEntityMetadatas: EntityMetadata[], entityMetadata: EntityMetadata) {
 
         // after all metadatas created we set parent entity metadata for table inheritance
@@ -435,8 +469,8 @@ export class EntityMetadataBuilder {
             return new CheckMetadata({ entityMetadata, args });
         });
 
-        // Mysql stores unique constraints as unique indices.
-        if (this.connection.driver instanceof MysqlDriver) {
+        // Mysql and Spanner store unique constraints as unique indices.
+        if (this.connection.driver instanceof MysqlDriver || this.connection.driver instanceof SpannerDriver) {
             const indices = this.metadataArgsStorage.filterUniques(entityMetadata.inheritanceTree).map(args => {
                 return new IndexMetadata({
                     entityMetadata: entityMetadata,
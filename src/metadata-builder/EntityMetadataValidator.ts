@@ -55,6 +55,23 @@ export class EntityMetadataValidator {
         if (!entityMetadata.primaryColumns.length && !entityMetadata.isJunction)
             throw new MissingPrimaryColumnError(entityMetadata);
 
+        // validate if interleaved table starts its primary key with primary columns of the parent
+        if (entityMetadata.interleaveParentEntityMetadata) {
+            const parentPrimaryColumnNames = entityMetadata.interleaveParentEntityMetadata.primaryColumns.map(column => column.databaseName);
+            const primaryColumnNames = entityMetadata.primaryColumns.map(column => column.databaseName);
+            if (parentPrimaryColumnNames.some((columnName, index) => primaryColumnNames[index] !== columnName))
+                throw new Error(`Entity ${entityMetadata.name} is interleaved in ${entityMetadata.interleaveParentEntityMetadata.name}, its primary key should start with the primary columns of the parent (${parentPrimaryColumnNames.join(", ")}).`);
+
+            const ancestors: EntityMetadata[] = [];
+            let ancestor: EntityMetadata|undefined = entityMetadata.interleaveParentEntityMetadata;
+            while (ancestor) {
+                if (ancestors.indexOf(ancestor) !== -1)
+                    throw new Error(`Entity ${ancestor.name} is interleaved in itself through its parents.`);
+                ancestors.push(ancestor);
+                ancestor = ancestor.interleaveParentEntityMetadata;
+            }
+        }
+
         // validate if table is using inheritance it has a discriminator
         // also validate if discriminator values are not empty and not repeated
         if (entityMetadata.inheritancePattern === "STI") {
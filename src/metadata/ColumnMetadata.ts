@@ -231,6 +231,18 @@ export class ColumnMetadata {
      */
     isUpdateDate: boolean = false;
 
+    /**
+     * Indicates if this column contains the commit timestamp of the transaction which created an entity.
+     * Supported only by spanner.
+     */
+    isCreateCommitTimestamp: boolean = false;
+
+    /**
+     * Indicates if this column contains the commit timestamp of the transaction which updated an entity.
+     * Supported only by spanner.
+     */
+    isUpdateCommitTimestamp: boolean = false;
+
     /**
      * Indicates if this column contains an entity version.
      */
@@ -370,6 +382,8 @@ export class ColumnMetadata {
             this.isTreeLevel = options.args.mode === "treeLevel";
             this.isCreateDate = options.args.mode === "createDate";
             this.isUpdateDate = options.args.mode === "updateDate";
+            this.isCreateCommitTimestamp = options.args.mode === "createCommitTimestamp";
+            this.isUpdateCommitTimestamp = options.args.mode === "updateCommitTimestamp";
             this.isVersion = options.args.mode === "version";
             this.isObjectId = options.args.mode === "objectId";
         }
@@ -397,6 +411,8 @@ export class ColumnMetadata {
             if (this.precision === undefined && options.connection.driver.mappedDataTypes.updateDatePrecision)
                 this.precision = options.connection.driver.mappedDataTypes.updateDatePrecision;
         }
+        if ((this.isCreateCommitTimestamp || this.isUpdateCommitTimestamp) && !this.type)
+            this.type = options.connection.driver.mappedDataTypes.updateDate;
         if (this.isVersion)
             this.type = options.connection.driver.mappedDataTypes.version;
         if (options.closureType)
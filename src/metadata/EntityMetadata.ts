@@ -57,6 +57,18 @@ export class EntityMetadata {
      */
     parentEntityMetadata: EntityMetadata;
 
+    /**
+     * Entity metadata of the parent which table of this entity is interleaved in.
+     * Used only in spanner.
+     */
+    interleaveParentEntityMetadata?: EntityMetadata;
+
+    /**
+     * What spanner does with the rows of this table when their parent row is deleted.
+     * Set only when table is interleaved.
+     */
+    interleaveOnDelete?: "CASCADE"|"NO ACTION";
+
     /**
      * Children entity metadatas. Used in inheritance patterns.
      */
@@ -755,6 +767,8 @@ export class EntityMetadata {
         const namingStrategy = this.connection.namingStrategy;
         const entityPrefix = this.connection.options.entityPrefix;
         this.engine = this.tableMetadataArgs.engine;
+        if (this.tableMetadataArgs.interleave)
+            this.interleaveOnDelete = this.tableMetadataArgs.interleave.onDelete || "NO ACTION";
         this.database = this.tableMetadataArgs.database;
         this.schema = this.tableMetadataArgs.schema || (this.connection.options as PostgresConnectionOptions|SqlServerConnectionOptions).schema;
         this.givenTableName = this.tableMetadataArgs.type === "entity-child" && this.parentEntityMetadata ? this.parentEntityMetadata.givenTableName : this.tableMetadataArgs.name;
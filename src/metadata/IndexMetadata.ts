@@ -52,6 +52,32 @@ export class IndexMetadata {
      */
     isSparse?: boolean;
 
+    /**
+     * Indicates if rows with NULL in indexed columns are excluded from the index.
+     * Works only in Spanner.
+     */
+    isNullFiltered: boolean = false;
+
+    /**
+     * User specified non-key columns (property names) stored in the index.
+     */
+    givenStoringColumnNames?: string[];
+
+    /**
+     * Non-key columns stored in the index. Works only in Spanner.
+     */
+    storingColumns: ColumnMetadata[] = [];
+
+    /**
+     * User specified parent entity which index is interleaved in.
+     */
+    givenInterleaveIn?: string|((type?: any) => Function);
+
+    /**
+     * Entity metadata of the parent which index is interleaved in. Works only in Spanner.
+     */
+    interleaveInEntityMetadata?: EntityMetadata;
+
     /**
      * Target class to which metadata is applied.
      */
@@ -114,6 +140,9 @@ export class IndexMetadata {
             this.isFulltext = !!options.args.fulltext;
             this.where = options.args.where;
             this.isSparse = options.args.sparse;
+            this.isNullFiltered = !!options.args.nullFiltered;
+            this.givenStoringColumnNames = options.args.storing;
+            this.givenInterleaveIn = options.args.interleaveIn;
             this.givenName = options.args.name;
             this.givenColumnNames = options.args.columns;
         }
@@ -172,6 +201,16 @@ export class IndexMetadata {
             .reduce((a, b) => a.concat(b));
         }
 
+        if (this.givenStoringColumnNames) {
+            this.storingColumns = this.givenStoringColumnNames.map(propertyName => {
+                const propertyPath = this.embeddedMetadata ? this.embeddedMetadata.propertyPath + "." + propertyName : propertyName;
+                const column = this.entityMetadata.columns.find(column => column.propertyPath === propertyPath);
+                if (!column)
+                    throw new Error(`Index ${this.givenName ? "\"" + this.givenName + "\" " : ""}stores column that is missing in the entity: ` + propertyPath);
+                return column;
+            });
+        }
+
         this.columnNamesWithOrderingMap = Object.keys(map).reduce((updatedMap, key) => {
             const column = this.entityMetadata.columns.find(column => column.propertyPath === key);
             if (column)
@@ -30,6 +30,11 @@ export class Migration {
      */
     instance?: MigrationInterface;
 
+    /**
+     * Checksum of the migration source, recorded when the migration was executed.
+     */
+    checksum?: string;
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -1,14 +1,22 @@
 import {Table} from "../schema-builder/table/Table";
+import {TableColumn} from "../schema-builder/table/TableColumn";
 import {Connection} from "../connection/Connection";
 import {Migration} from "./Migration";
 import {ObjectLiteral} from "../common/ObjectLiteral";
 import {PromiseUtils} from "../util/PromiseUtils";
 import {QueryRunner} from "../query-runner/QueryRunner";
 import {SqlServerDriver} from "../driver/sqlserver/SqlServerDriver";
+import {MysqlDriver} from "../driver/mysql/MysqlDriver";
 import {MssqlParameter} from "../driver/sqlserver/MssqlParameter";
 import {SqlServerConnectionOptions} from "../driver/sqlserver/SqlServerConnectionOptions";
 import {PostgresConnectionOptions} from "../driver/postgres/PostgresConnectionOptions";
 import { SpannerDriver } from "../driver/spanner/SpannerDriver";
+import { SpannerQueryRunner } from "../driver/spanner/SpannerQueryRunner";
+import {MigrationLockTimeoutError} from "../error/MigrationLockTimeoutError";
+import {MigrationLockLostError} from "../error/MigrationLockLostError";
+import {MigrationChecksumMismatchError} from "../error/MigrationChecksumMismatchError";
+import {PlatformTools} from "../platform/PlatformTools";
+import {RandomGenerator} from "../util/RandomGenerator";
 
 /**
  * Executes migrations: runs pending and reverts previously executed migrations.
@@ -30,6 +38,10 @@ export class MigrationExecutor {
 
     private readonly migrationsTable: string;
     private readonly migrationsTableName: string;
+    private readonly migrationProgressTable: string;
+    private readonly migrationLockTable: string;
+    private readonly migrationLockOwner: string;
+    private migrationLockRenewal?: { timer: any, renewing: Promise<void>, lost?: MigrationLockLostError };
 
     // -------------------------------------------------------------------------
     // Constructor
@@ -41,6 +53,9 @@ export class MigrationExecutor {
         const options = <SqlServerConnectionOptions|PostgresConnectionOptions>this.connection.driver.options;
         this.migrationsTableName = connection.options.migrationsTableName || "migrations";
         this.migrationsTable = this.connection.driver.buildTableName(this.migrationsTableName, options.schema, options.database);
+        this.migrationProgressTable = this.connection.driver.buildTableName(this.migrationsTableName + "_progress", options.schema, options.database);
+        this.migrationLockTable = this.connection.driver.buildTableName(this.migrationsTableName + "_lock", options.schema, options.database);
+        this.migrationLockOwner = `${PlatformTools.load("os").hostname()}:${process.pid}:${RandomGenerator.uuid4()}`;
     }
 
     // -------------------------------------------------------------------------
@@ -50,8 +65,93 @@ export class MigrationExecutor {
     /**
      * Executes all pending migrations. Pending migrations are migrations that are not yet executed,
      * thus not saved in the database.
+     * Migration lock is held while they run, so that other processes cannot execute them at the same time.
      */
     async executePendingMigrations(): Promise<void> {
+        return this.runWithMigrationLock(() => this.runPendingMigrations());
+    }
+
+    /**
+     * Reverts last migration that were run.
+     * Migration lock is held while it runs, so that other processes cannot execute migrations at the same time.
+     */
+    async undoLastMigration(): Promise<void> {
+        return this.runWithMigrationLock(() => this.revertLastMigration());
+    }
+
+    /**
+     * Lists migrations found in the source code or executed in the database, ordered by their timestamps.
+     * Each of them tells if it is executed, and if it is found in the source code.
+     */
+    async showMigrations(): Promise<{ migration: Migration, executed: boolean, inSource: boolean }[]> {
+        const queryRunner = this.connection.createQueryRunner("master");
+        try {
+            // nothing is executed yet if migrations table is not created
+            const executedMigrations = await queryRunner.hasTable(this.migrationsTable) ? await this.loadExecutedMigrations(queryRunner) : [];
+            const allMigrations = this.getMigrations();
+            const migrations = allMigrations.map(migration => ({
+                migration,
+                executed: executedMigrations.some(executedMigration => executedMigration.name === migration.name),
+                inSource: true
+            }));
+            executedMigrations
+                .filter(executedMigration => !allMigrations.some(migration => migration.name === executedMigration.name))
+                .forEach(executedMigration => migrations.push({ migration: executedMigration, executed: true, inSource: false }));
+
+            return migrations.sort((a, b) => a.migration.timestamp - b.migration.timestamp);
+
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Loads the migration lock, or undefined if nobody holds it.
+     * Nobody holds the lock if its table is not created yet, and it is not created here.
+     */
+    async getMigrationLock(): Promise<{ owner: string, acquiredAt: Date, expiresAt: Date }|undefined> {
+        const queryRunner = this.connection.createQueryRunner("master");
+        try {
+            if (!await queryRunner.hasTable(this.migrationLockTable))
+                return undefined;
+            return await this.loadMigrationLock(queryRunner);
+
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Releases the migration lock regardless of its owner.
+     * Use it only when the owner is known to be dead, e.g. stale lock of the crashed process.
+     */
+    async forceReleaseMigrationLock(): Promise<void> {
+        const queryRunner = this.connection.createQueryRunner("master");
+        try {
+            if (await queryRunner.hasTable(this.migrationLockTable))
+                await this.deleteMigrationLock(queryRunner);
+
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Updates checksums of executed migrations to the current source of them.
+     * Use it when executed migrations are changed intentionally, e.g. reformatted.
+     */
+    async repairMigrationChecksums(): Promise<void> {
+        return this.runWithMigrationLock(() => this.updateMigrationChecksums());
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Executes all pending migrations.
+     */
+    protected async runPendingMigrations(): Promise<void> {
 
         const queryRunner = this.queryRunner || this.connection.createQueryRunner("master");
 
@@ -67,6 +167,15 @@ export class MigrationExecutor {
         // get all user's migrations in the source code
         const allMigrations = this.getMigrations();
 
+        // executed migrations should not be changed since they were executed
+        try {
+            this.verifyMigrationChecksums(executedMigrations, allMigrations);
+        } catch (err) {
+            if (!this.queryRunner)
+                await queryRunner.release();
+            throw err;
+        }
+
         // find all migrations that needs to be executed
         const pendingMigrations = allMigrations.filter(migration => {
             // check if we already have executed migration
@@ -100,24 +209,31 @@ export class MigrationExecutor {
 
         // start transaction if its not started yet
         let transactionStartedByUs = false;
-        if (this.transaction && !queryRunner.isTransactionActive) {
+        if (this.transaction && !queryRunner.isTransactionActive && this.hasTransactionalDDL()) {
             await queryRunner.startTransaction();
             transactionStartedByUs = true;
+        } else if (this.transaction && !this.hasTransactionalDDL()) {
+            this.connection.logger.logSchemaBuild(`DDL of this database is not transactional, migrations are executed without transaction.`);
         }
 
         // run all pending migrations in a sequence
         try {
             await PromiseUtils.runInSequence(pendingMigrations, migration => {
-                return migration.instance!.up(queryRunner)
+                this.assertMigrationLockHeld();
+                return this.executeMigrationUp(queryRunner, migration)
                     .then(() => { // now when migration is executed we need to insert record about it into the database
                         return this.insertExecutedMigration(queryRunner, migration);
                     })
+                    .then(() => { // progress of partially executed migration is no longer needed
+                        return this.deleteMigrationProgress(queryRunner, migration);
+                    })
                     .then(() => { // informative log about migration success
                         this.connection.logger.logSchemaBuild(`Migration ${migration.name} has been executed successfully.`);
                     });
             });
 
             // commit transaction if we started it
+            this.assertMigrationLockHeld();
             if (transactionStartedByUs)
                 await queryRunner.commitTransaction();
 
@@ -142,7 +258,7 @@ export class MigrationExecutor {
     /**
      * Reverts last migration that were run.
      */
-    async undoLastMigration(): Promise<void> {
+    protected async revertLastMigration(): Promise<void> {
 
         const queryRunner = this.queryRunner || this.connection.createQueryRunner("master");
 
@@ -178,17 +294,20 @@ export class MigrationExecutor {
 
         // start transaction if its not started yet
         let transactionStartedByUs = false;
-        if (this.transaction && !queryRunner.isTransactionActive) {
+        if (this.transaction && !queryRunner.isTransactionActive && this.hasTransactionalDDL()) {
             await queryRunner.startTransaction();
             transactionStartedByUs = true;
+        } else if (this.transaction && !this.hasTransactionalDDL()) {
+            this.connection.logger.logSchemaBuild(`DDL of this database is not transactional, migrations are executed without transaction.`);
         }
 
         try {
-            await migrationToRevert.instance!.down(queryRunner);
+            await this.executeMigrationDown(queryRunner, migrationToRevert);
             await this.deleteExecutedMigration(queryRunner, migrationToRevert);
             this.connection.logger.logSchemaBuild(`Migration ${migrationToRevert.name} has been reverted successfully.`);
 
             // commit transaction if we started it
+            this.assertMigrationLockHeld();
             if (transactionStartedByUs)
                 await queryRunner.commitTransaction();
 
@@ -209,10 +328,6 @@ export class MigrationExecutor {
         }
     }
 
-    // -------------------------------------------------------------------------
-    // Protected Methods
-    // -------------------------------------------------------------------------
-
     /**
      * Creates table "migrations" that will store information about executed migrations.
      */
@@ -242,10 +357,398 @@ export class MigrationExecutor {
                             type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationName}),
                             isNullable: false
                         },
+                        {
+                            name: "checksum",
+                            type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationName}),
+                            isNullable: true
+                        },
                     ]
                 },
             ));
+        } else {
+            // migrations table created by older versions does not have checksum column
+            const table = await queryRunner.getTable(this.migrationsTable);
+            if (table && !table.findColumnByName("checksum")) {
+                await queryRunner.addColumn(table, new TableColumn({
+                    name: "checksum",
+                    type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationName}),
+                    isNullable: true
+                }));
+            }
+        }
+
+        // spanner records how many statements of the failed migration were applied, to resume it
+        if (this.hasResumableMigrations() && !await queryRunner.hasTable(this.migrationProgressTable)) {
+            await queryRunner.createTable(new Table(
+                {
+                    name: this.migrationProgressTable,
+                    columns: [
+                        {
+                            name: "name",
+                            type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationName}),
+                            isPrimary: true,
+                            isNullable: false
+                        },
+                        {
+                            name: "statements",
+                            type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationId}),
+                            isNullable: false
+                        },
+                    ]
+                },
+            ));
+        }
+
+        // lock table has single row while some process runs migrations
+        if (!await queryRunner.hasTable(this.migrationLockTable)) {
+            await queryRunner.createTable(new Table(
+                {
+                    name: this.migrationLockTable,
+                    columns: [
+                        {
+                            name: "name",
+                            type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationName}),
+                            isPrimary: true,
+                            isNullable: false
+                        },
+                        {
+                            name: "owner",
+                            type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationName}),
+                            isNullable: false
+                        },
+                        {
+                            name: "acquiredAt",
+                            type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationTimestamp}),
+                            isNullable: false
+                        },
+                        {
+                            name: "expiresAt",
+                            type: this.connection.driver.normalizeType({type: this.connection.driver.mappedDataTypes.migrationTimestamp}),
+                            isNullable: false
+                        },
+                    ]
+                },
+            ));
+        }
+    }
+
+    /**
+     * Runs given function while holding the migration lock.
+     * Waits for the lock held by other process until migrationsLockTimeout passes, and renews the lock while the function runs.
+     */
+    protected async runWithMigrationLock(fn: () => Promise<void>): Promise<void> {
+        const queryRunner = this.connection.createQueryRunner("master");
+        try {
+            await this.createMigrationsTableIfNotExist(queryRunner);
+            await this.acquireMigrationLock(queryRunner);
+            let lostError: MigrationLockLostError|undefined;
+            try {
+                await fn();
+            } finally {
+                lostError = await this.releaseMigrationLock(queryRunner);
+            }
+            // lock lost after the last check fails the run, because other process may have run migrations meanwhile
+            if (lostError)
+                throw lostError;
+
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Waits until the migration lock is acquired, and starts renewing it.
+     */
+    protected async acquireMigrationLock(queryRunner: QueryRunner): Promise<void> {
+        const timeout = this.connection.options.migrationsLockTimeout !== undefined ? this.connection.options.migrationsLockTimeout : 5 * 60 * 1000;
+        const leaseTime = this.connection.options.migrationsLockLeaseTime || 60 * 1000;
+        const startTime = Date.now();
+        let waitingFor: string|undefined;
+        while (true) {
+            const lock = await this.tryAcquireMigrationLock(queryRunner, leaseTime);
+            if (!lock)
+                break;
+
+            if (Date.now() - startTime >= timeout)
+                throw new MigrationLockTimeoutError(timeout, lock.owner, lock.expiresAt);
+
+            if (waitingFor !== lock.owner) {
+                waitingFor = lock.owner;
+                this.connection.logger.logMigration(`Waiting for migration lock held by "${lock.owner}" until ${lock.expiresAt.toISOString()}.`, queryRunner);
+            }
+            await new Promise(ok => setTimeout(ok, Math.min(1000, leaseTime, timeout - (Date.now() - startTime))));
+        }
+        this.connection.logger.logMigration(`Migration lock is acquired by "${this.migrationLockOwner}".`, queryRunner);
+
+        const renewal: { timer: any, renewing: Promise<void>, lost?: MigrationLockLostError } = { timer: undefined, renewing: Promise.resolve() };
+        renewal.timer = setInterval(() => {
+            renewal.renewing = renewal.renewing
+                .then(() => this.renewMigrationLock(queryRunner, leaseTime))
+                .catch(err => {
+                    if (!(err instanceof MigrationLockLostError))
+                        return this.connection.logger.log("warn", `Cannot renew migration lock: ${err}`, queryRunner);
+
+                    // lock cannot be taken back, running migrations fail at the next check
+                    clearInterval(renewal.timer);
+                    renewal.lost = err;
+                    this.connection.logger.log("warn", err.message, queryRunner);
+                });
+        }, leaseTime / 3);
+        this.migrationLockRenewal = renewal;
+    }
+
+    /**
+     * Acquires the migration lock if nobody holds it, or the lock held by other process has expired.
+     * Returns the lock held by other process when it cannot be acquired.
+     * Lock is written by conditional insert/update, and read back to confirm which process won.
+     */
+    protected async tryAcquireMigrationLock(queryRunner: QueryRunner, leaseTime: number): Promise<{ owner: string, acquiredAt: Date, expiresAt: Date }|undefined> {
+        const now = Date.now();
+        const lock = await this.loadMigrationLock(queryRunner);
+        if (lock && lock.owner !== this.migrationLockOwner && lock.expiresAt.getTime() > now)
+            return lock;
+
+        const values: ObjectLiteral = {
+            owner: this.migrationLockOwner,
+            acquiredAt: this.migrationLockTimestamp(now),
+            expiresAt: this.migrationLockTimestamp(now + leaseTime)
+        };
+        const transactionStartedByUs = !queryRunner.isTransactionActive;
+        let writeError: any;
+        try {
+            if (transactionStartedByUs)
+                await queryRunner.startTransaction();
+
+            const qb = queryRunner.manager.createQueryBuilder();
+            if (!lock) {
+                // fails by duplicate key when other process inserted the lock first
+                await qb.insert()
+                    .into(this.migrationLockTable)
+                    .values(Object.assign({ name: this.migrationsTableName }, values))
+                    .execute();
+            } else {
+                // updates the lock only when nobody took it over since it was read
+                await qb.update(this.migrationLockTable)
+                    .set(values)
+                    .where(`${qb.escape("name")} = :name`, { name: this.migrationsTableName })
+                    .andWhere(`${qb.escape("owner")} = :owner`, { owner: lock.owner })
+                    .andWhere(`${qb.escape("expiresAt")} = :expiresAt`, { expiresAt: this.migrationLockTimestamp(lock.expiresAt.getTime()) })
+                    .execute();
+            }
+
+            if (transactionStartedByUs)
+                await queryRunner.commitTransaction();
+
+        } catch (err) {
+            writeError = err;
+            if (transactionStartedByUs && queryRunner.isTransactionActive) {
+                try { // we throw original error even if rollback thrown an error
+                    await queryRunner.rollbackTransaction();
+                } catch (rollbackError) { }
+            }
         }
+
+        const acquiredLock = await this.loadMigrationLock(queryRunner);
+        if (acquiredLock && acquiredLock.owner === this.migrationLockOwner)
+            return undefined;
+
+        // write error is expected only when other process won the race and holds the lock now
+        if (writeError && !acquiredLock)
+            throw writeError;
+
+        return acquiredLock || { owner: "unknown", acquiredAt: new Date(now), expiresAt: new Date(now) };
+    }
+
+    /**
+     * Extends expiry of the migration lock held by this process.
+     * Lock is read back to confirm the owner, because affected row count is not reported by all drivers.
+     * Throws MigrationLockLostError when other process took the lock over or it has been released.
+     */
+    protected async renewMigrationLock(queryRunner: QueryRunner, leaseTime: number): Promise<void> {
+        const qb = queryRunner.manager.createQueryBuilder();
+        await qb.update(this.migrationLockTable)
+            .set({ expiresAt: this.migrationLockTimestamp(Date.now() + leaseTime) })
+            .where(`${qb.escape("name")} = :name`, { name: this.migrationsTableName })
+            .andWhere(`${qb.escape("owner")} = :owner`, { owner: this.migrationLockOwner })
+            .execute();
+
+        const lock = await this.loadMigrationLock(queryRunner);
+        if (!lock || lock.owner !== this.migrationLockOwner)
+            throw new MigrationLockLostError(this.migrationLockOwner, lock ? lock.owner : undefined);
+    }
+
+    /**
+     * Throws the error of the lost migration lock, so that migrations do not run while other process may run them.
+     */
+    protected assertMigrationLockHeld(): void {
+        if (this.migrationLockRenewal && this.migrationLockRenewal.lost)
+            throw this.migrationLockRenewal.lost;
+    }
+
+    /**
+     * Stops renewing the migration lock, and releases it if this process still holds it.
+     * Returns the error of the lost lock, if the lock has been lost while it was held.
+     */
+    protected async releaseMigrationLock(queryRunner: QueryRunner): Promise<MigrationLockLostError|undefined> {
+        const renewal = this.migrationLockRenewal;
+        if (renewal) {
+            clearInterval(renewal.timer);
+            await renewal.renewing;
+            this.migrationLockRenewal = undefined;
+        }
+        // lost lock is deleted only if it came back to this process, e.g. by rollback of the takeover
+        await this.deleteMigrationLock(queryRunner, this.migrationLockOwner);
+        if (renewal && renewal.lost)
+            return renewal.lost;
+
+        this.connection.logger.logMigration(`Migration lock is released by "${this.migrationLockOwner}".`, queryRunner);
+        return undefined;
+    }
+
+    /**
+     * Loads the migration lock row.
+     */
+    protected async loadMigrationLock(queryRunner: QueryRunner): Promise<{ owner: string, acquiredAt: Date, expiresAt: Date }|undefined> {
+        const qb = this.connection.manager.createQueryBuilder(queryRunner);
+        const lockRaw: ObjectLiteral|undefined = await qb
+            .select()
+            .from(this.migrationLockTable, "migrationLock")
+            .where(`${qb.escape("name")} = :name`, { name: this.migrationsTableName })
+            .getRawOne();
+        if (!lockRaw)
+            return undefined;
+
+        const parseTimestamp = (rawTimestamp: any) => queryRunner.connection.driver instanceof SpannerDriver ? new Date(rawTimestamp) : new Date(parseInt(rawTimestamp));
+        return {
+            owner: lockRaw["owner"],
+            acquiredAt: parseTimestamp(lockRaw["acquiredAt"]),
+            expiresAt: parseTimestamp(lockRaw["expiresAt"])
+        };
+    }
+
+    /**
+     * Deletes the migration lock row, only if it is held by given owner when owner is given.
+     */
+    protected async deleteMigrationLock(queryRunner: QueryRunner, owner?: string): Promise<void> {
+        const qb = queryRunner.manager.createQueryBuilder();
+        const deleteQb = qb.delete()
+            .from(this.migrationLockTable)
+            .where(`${qb.escape("name")} = :name`, { name: this.migrationsTableName });
+        if (owner)
+            deleteQb.andWhere(`${qb.escape("owner")} = :owner`, { owner });
+        await deleteQb.execute();
+    }
+
+    /**
+     * Converts time of the migration lock into the value of migrationTimestamp column type.
+     */
+    protected migrationLockTimestamp(time: number): any {
+        if (this.connection.driver instanceof SqlServerDriver)
+            return new MssqlParameter(time, this.connection.driver.normalizeType({ type: this.connection.driver.mappedDataTypes.migrationTimestamp }) as any);
+        if (this.connection.driver instanceof SpannerDriver)
+            return new Date(time);
+
+        return time;
+    }
+
+    /**
+     * Returns true if DDL of the database can be rolled back with the transaction.
+     * spanner applies DDL by schema updates, which are outside of transactions,
+     * and mysql and mariadb commit the active transaction implicitly before DDL.
+     */
+    protected hasTransactionalDDL(): boolean {
+        return !(this.connection.driver instanceof SpannerDriver || this.connection.driver instanceof MysqlDriver);
+    }
+
+    /**
+     * Returns true if failed migration is resumed from the statement it failed at.
+     * spanner query runner counts applied statements of the migration, which are recorded in the progress table.
+     */
+    protected hasResumableMigrations(): boolean {
+        return this.connection.driver instanceof SpannerDriver;
+    }
+
+    /**
+     * Executes up method of the migration.
+     * on database with non-transactional DDL, consecutive DDL statements are batched into single schema update,
+     * and statements applied by the previous failed run are skipped.
+     */
+    protected async executeMigrationUp(queryRunner: QueryRunner, migration: Migration): Promise<void> {
+        if (!(queryRunner instanceof SpannerQueryRunner))
+            return migration.instance!.up(queryRunner);
+
+        const appliedStatements = await this.loadMigrationProgress(queryRunner, migration);
+        if (appliedStatements > 0)
+            this.connection.logger.logMigration(`Migration ${migration.name} has failed before, resuming it after ${appliedStatements} applied statements.`, queryRunner);
+
+        queryRunner.startMigrationRun(appliedStatements, statements => this.saveMigrationProgress(queryRunner, migration, statements));
+        try {
+            await migration.instance!.up(queryRunner);
+            await queryRunner.finishMigrationRun();
+        } catch (err) {
+            queryRunner.abortMigrationRun();
+            throw err;
+        }
+    }
+
+    /**
+     * Executes down method of the migration.
+     * on database with non-transactional DDL, consecutive DDL statements are batched into single schema update.
+     */
+    protected async executeMigrationDown(queryRunner: QueryRunner, migration: Migration): Promise<void> {
+        if (!(queryRunner instanceof SpannerQueryRunner))
+            return migration.instance!.down(queryRunner);
+
+        // progress left by the failed run of the migration does not apply after it is reverted
+        await this.deleteMigrationProgress(queryRunner, migration);
+        queryRunner.startMigrationRun();
+        try {
+            await migration.instance!.down(queryRunner);
+            await queryRunner.finishMigrationRun();
+        } catch (err) {
+            queryRunner.abortMigrationRun();
+            throw err;
+        }
+    }
+
+    /**
+     * Loads number of statements of the migration applied by the previous failed run.
+     */
+    protected async loadMigrationProgress(queryRunner: QueryRunner, migration: Migration): Promise<number> {
+        const qb = this.connection.manager.createQueryBuilder(queryRunner);
+        const progressRaw: ObjectLiteral|undefined = await qb
+            .select()
+            .from(this.migrationProgressTable, "progress")
+            .where(`${qb.escape("name")} = :name`, { name: migration.name })
+            .getRawOne();
+
+        return progressRaw ? parseInt(progressRaw["statements"]) : 0;
+    }
+
+    /**
+     * Saves number of statements of the running migration applied so far.
+     */
+    protected async saveMigrationProgress(queryRunner: QueryRunner, migration: Migration, statements: number): Promise<void> {
+        await queryRunner.manager.createQueryBuilder()
+            .insert()
+            .into(this.migrationProgressTable)
+            .values({ name: migration.name, statements })
+            .orUpdate()
+            .execute();
+    }
+
+    /**
+     * Deletes progress of the migration, once it is executed or reverted.
+     */
+    protected async deleteMigrationProgress(queryRunner: QueryRunner, migration: Migration): Promise<void> {
+        if (!this.hasResumableMigrations())
+            return;
+
+        const qb = queryRunner.manager.createQueryBuilder();
+        await qb.delete()
+            .from(this.migrationProgressTable)
+            .where(`${qb.escape("name")} = :name`, { name: migration.name })
+            .execute();
     }
 
     /**
@@ -259,9 +762,11 @@ export class MigrationExecutor {
             .getRawMany();
 
         return migrationsRaw.map(migrationRaw => {
-            const rawTimestamp: string = migrationRaw["timestamp"]
-            const timestamp: number = queryRunner.connection.driver instanceof SpannerDriver ? new Date(rawTimestamp).getTime() : parseInt(rawTimestamp)
-            return new Migration(parseInt(migrationRaw["id"]), timestamp, migrationRaw["name"]);
+            const rawTimestamp: string = migrationRaw["timestamp"];
+            const timestamp: number = queryRunner.connection.driver instanceof SpannerDriver ? new Date(rawTimestamp).getTime() : parseInt(rawTimestamp);
+            const migration = new Migration(parseInt(migrationRaw["id"]), timestamp, migrationRaw["name"]);
+            migration.checksum = migrationRaw["checksum"] || undefined;
+            return migration;
         });
     }
 
@@ -298,6 +803,81 @@ export class MigrationExecutor {
         return sortedMigrations.length > 0 ? sortedMigrations[0] : undefined;
     }
 
+    /**
+     * Calculates checksum of the source of up and down methods of the migration.
+     * Whitespaces are normalized, so that reformatting does not change the checksum.
+     * Source is the loaded code, i.e. transpiled code of typescript migrations, so it depends on the compiler and its target.
+     */
+    protected getMigrationChecksum(migration: Migration): string|undefined {
+        if (!migration.instance)
+            return undefined;
+
+        const source = [migration.instance.up, migration.instance.down]
+            .map(method => method.toString().replace(/\s+/g, " ").trim())
+            .join("\n");
+        return PlatformTools.load("crypto").createHash("sha256").update(source).digest("hex");
+    }
+
+    /**
+     * Checks that executed migrations found in the source code have the same checksums as when they were executed.
+     * Migrations executed before checksums were recorded are not checked.
+     * Depending on migrationsChecksumMismatch option, changed migrations are warned or refused.
+     */
+    protected verifyMigrationChecksums(executedMigrations: Migration[], allMigrations: Migration[]): void {
+        const changedMigrationNames = executedMigrations
+            .filter(executedMigration => {
+                const migration = allMigrations.find(migration => migration.name === executedMigration.name);
+                return !!migration && !!executedMigration.checksum && executedMigration.checksum !== this.getMigrationChecksum(migration);
+            })
+            .map(executedMigration => executedMigration.name);
+        if (!changedMigrationNames.length)
+            return;
+
+        const error = new MigrationChecksumMismatchError(changedMigrationNames);
+        if (this.connection.options.migrationsChecksumMismatch === "error")
+            throw error;
+
+        this.connection.logger.log("warn", error.message);
+    }
+
+    /**
+     * Updates checksums of executed migrations found in the source code.
+     */
+    protected async updateMigrationChecksums(): Promise<void> {
+        const queryRunner = this.queryRunner || this.connection.createQueryRunner("master");
+        try {
+            const executedMigrations = await this.loadExecutedMigrations(queryRunner);
+            const allMigrations = this.getMigrations();
+            let updatedCount = 0;
+            await PromiseUtils.runInSequence(executedMigrations, async executedMigration => {
+                const migration = allMigrations.find(migration => migration.name === executedMigration.name);
+                if (!migration) {
+                    this.connection.logger.logSchemaBuild(`Migration ${executedMigration.name} is not found in the source code, its checksum is not updated.`);
+                    return;
+                }
+
+                const checksum = this.getMigrationChecksum(migration);
+                if (checksum === executedMigration.checksum)
+                    return;
+
+                const qb = queryRunner.manager.createQueryBuilder();
+                await qb.update(this.migrationsTable)
+                    .set({ checksum })
+                    .where(`${qb.escape("name")} = :name`, { name: migration.name })
+                    .execute();
+                updatedCount++;
+                this.connection.logger.logSchemaBuild(`Checksum of migration ${migration.name} has been updated.`);
+            });
+            this.connection.logger.logSchemaBuild(`${updatedCount} migration checksums have been updated.`);
+
+        } finally {
+
+            // if query runner was created by us then release it
+            if (!this.queryRunner)
+                await queryRunner.release();
+        }
+    }
+
     /**
      * Inserts new executed migration's data into migrations table.
      */
@@ -306,14 +886,17 @@ export class MigrationExecutor {
         if (this.connection.driver instanceof SqlServerDriver) {
             values["timestamp"] = new MssqlParameter(migration.timestamp, this.connection.driver.normalizeType({ type: this.connection.driver.mappedDataTypes.migrationTimestamp }) as any);
             values["name"] = new MssqlParameter(migration.name, this.connection.driver.normalizeType({ type: this.connection.driver.mappedDataTypes.migrationName }) as any);
+            values["checksum"] = new MssqlParameter(this.getMigrationChecksum(migration), this.connection.driver.normalizeType({ type: this.connection.driver.mappedDataTypes.migrationName }) as any);
         } else if (this.connection.driver instanceof SpannerDriver) {
-          values["id"] = migration.timestamp;
-          values["timestamp"] = new Date(migration.timestamp).toISOString();
-          values["name"] = migration.name;
+            values["id"] = migration.timestamp;
+            values["timestamp"] = new Date(migration.timestamp).toISOString();
+            values["name"] = migration.name;
+            values["checksum"] = this.getMigrationChecksum(migration);
         } else {
-          values["timestamp"] = migration.timestamp;
-          values["name"] = migration.name;
-      }
+            values["timestamp"] = migration.timestamp;
+            values["name"] = migration.name;
+            values["checksum"] = this.getMigrationChecksum(migration);
+        }
 
         const qb = queryRunner.manager.createQueryBuilder();
         await qb.insert()
@@ -331,11 +914,11 @@ export class MigrationExecutor {
         if (this.connection.driver instanceof SqlServerDriver) {
             conditions["timestamp"] = new MssqlParameter(migration.timestamp, this.connection.driver.normalizeType({ type: this.connection.driver.mappedDataTypes.migrationTimestamp }) as any);
             conditions["name"] = new MssqlParameter(migration.name, this.connection.driver.normalizeType({ type: this.connection.driver.mappedDataTypes.migrationName }) as any);
-          } else if (this.connection.driver instanceof SpannerDriver) {
+        } else if (this.connection.driver instanceof SpannerDriver) {
             conditions["id"] = migration.timestamp;
             conditions["timestamp"] = new Date(migration.timestamp).toISOString();
             conditions["name"] = migration.name;
-          } else {
+        } else {
             conditions["timestamp"] = migration.timestamp;
             conditions["name"] = migration.name;
         }
@@ -41,6 +41,8 @@ export class SubjectChangedColumnsComputer {
             if (column.isVirtual ||
                 column.isDiscriminator ||
                 column.isUpdateDate ||
+                column.isCreateCommitTimestamp ||
+                column.isUpdateCommitTimestamp ||
                 column.isVersion ||
                 column.isCreateDate)
                 return;
@@ -13,6 +13,10 @@ import {SaveOptions} from "../repository/SaveOptions";
 import {RemoveOptions} from "../repository/RemoveOptions";
 import {BroadcasterResult} from "../subscriber/BroadcasterResult";
 import {OracleDriver} from "../driver/oracle/OracleDriver";
+import {SpannerDriver, SpannerCommitTimestampPlaceholder} from "../driver/spanner/SpannerDriver";
+import {SpannerQueryRunner} from "../driver/spanner/SpannerQueryRunner";
+import {OrmUtils} from "../util/OrmUtils";
+import {ColumnMetadata} from "../metadata/ColumnMetadata";
 import {NestedSetSubjectExecutor} from "./tree/NestedSetSubjectExecutor";
 import {ClosureSubjectExecutor} from "./tree/ClosureSubjectExecutor";
 import {MaterializedPathSubjectExecutor} from "./tree/MaterializedPathSubjectExecutor";
@@ -241,7 +245,7 @@ export class SubjectExecutor {
 
                     } else {
                         bulkInsertSubjects.push(subject);
-                        bulkInsertMaps.push(subject.createValueSetAndPopChangeMap());
+                        bulkInsertMaps.push(this.applySpannerCommitTimestamps(subject, subject.createValueSetAndPopChangeMap(), "insert"));
                     }
                 });
             }
@@ -285,7 +289,7 @@ export class SubjectExecutor {
                 // insert subjects which must be inserted in separate requests (all default values)
                 if (singleInsertSubjects.length > 0) {
                     await PromiseUtils.runInSequence(singleInsertSubjects, async subject => {
-                        subject.insertedValueSet = subject.createValueSetAndPopChangeMap(); // important to have because query builder sets inserted values into it
+                        subject.insertedValueSet = this.applySpannerCommitTimestamps(subject, subject.createValueSetAndPopChangeMap(), "insert"); // important to have because query builder sets inserted values into it
 
                         // for nested set we execute additional queries
                         if (subject.metadata.treeType === "nested-set")
@@ -335,6 +339,13 @@ export class SubjectExecutor {
      * Updates all given subjects in the database.
      */
     protected async executeUpdateOperations(): Promise<void> {
+
+        // spanner writes updates of all subjects of the same entity as a single mutation batch
+        if (this.queryRunner.connection.driver instanceof SpannerDriver) {
+            await this.executeSpannerUpdateOperations();
+            return;
+        }
+
         await Promise.all(this.updateSubjects.map(async subject => {
 
             if (!subject.identifier)
@@ -370,16 +381,7 @@ export class SubjectExecutor {
                 }
 
                 const updateResult = await updateQueryBuilder.execute();
-                subject.generatedMap = updateResult.generatedMaps[0];
-                if (subject.generatedMap) {
-                    subject.metadata.columns.forEach(column => {
-                        const value = column.getEntityValue(subject.generatedMap!);
-                        if (value !== undefined && value !== null) {
-                            const preparedValue = this.queryRunner.connection.driver.prepareHydratedValue(value, column);
-                            column.setEntityValue(subject.generatedMap!, preparedValue);
-                        }
-                    });
-                }
+                this.setUpdatedGeneratedMap(subject, updateResult.generatedMaps[0]);
 
                 // experiments, remove probably, need to implement tree tables children removal
                 // if (subject.updatedRelationMaps.length > 0) {
@@ -396,6 +398,133 @@ export class SubjectExecutor {
         }));
     }
 
+    /**
+     * Updates all given subjects in the spanner database.
+     * Subjects of the same entity are sent as one multi-row update,
+     * so every row of them is written by single mutation batch.
+     */
+    protected async executeSpannerUpdateOperations(): Promise<void> {
+        const groupedSubjects: { [key: string]: Subject[] } = {};
+        const groupKeys: string[] = [];
+        this.updateSubjects.forEach((subject, index) => {
+            if (!subject.identifier)
+                throw new SubjectWithoutIdentifierError(subject);
+
+            // subject without entity is updated by conditions, not by its primary keys, so it cannot be batched
+            const key = subject.entity ? subject.metadata.name : subject.metadata.name + "_" + index;
+            if (!groupedSubjects[key]) {
+                groupedSubjects[key] = [subject];
+                groupKeys.push(key);
+            } else {
+                groupedSubjects[key].push(subject);
+            }
+        });
+
+        await Promise.all(groupKeys.map(async groupKey => {
+            const subjects = groupedSubjects[groupKey];
+            const metadata = subjects[0].metadata;
+            const updateMaps = subjects.map(subject => this.applySpannerCommitTimestamps(subject, subject.createValueSetAndPopChangeMap(), "update"));
+
+            const updateQueryBuilder = this.queryRunner
+                .manager
+                .createQueryBuilder()
+                .update(metadata.target)
+                .updateEntity(this.options && this.options.reload === false ? false : true)
+                .callListeners(false)
+                .callObservers(false);
+
+            if (subjects.length > 1) {
+                // each row of multi-row update carries its own primary keys.
+                // rows go straight to mutations, so both keys and values are keyed by database names and prepared here
+                // the same way as update query builder prepares them for DML
+                updateQueryBuilder
+                    .set(subjects.map((subject, index) => {
+                        const row: ObjectLiteral = {};
+                        metadata.primaryColumns.forEach(column => {
+                            row[column.databaseName] = this.prepareSpannerMutationValue(column.getEntityValue(subject.identifier!), column);
+                        });
+                        metadata.columns.forEach(column => {
+                            const value = column.getEntityValue(updateMaps[index]);
+                            if (value !== undefined)
+                                row[column.databaseName] = this.prepareSpannerMutationValue(value, column);
+                        });
+
+                        // mutation cannot increment the column, so the version is incremented from the loaded one
+                        if (metadata.versionColumn) {
+                            const version = metadata.versionColumn.getEntityValue(subject.databaseEntity || subject.entity!);
+                            row[metadata.versionColumn.databaseName] = (version || 0) + 1;
+                        }
+                        // spanner creates update date column with allow_commit_timestamp
+                        if (metadata.updateDateColumn)
+                            row[metadata.updateDateColumn.databaseName] = SpannerCommitTimestampPlaceholder;
+                        return row;
+                    }))
+                    .whereEntity(subjects.map(subject => subject.identifier!));
+
+            } else if (subjects[0].entity) {
+                updateQueryBuilder.set(updateMaps[0]).whereEntity(subjects[0].identifier!);
+
+            } else {
+                updateQueryBuilder.set(updateMaps[0]).where(subjects[0].identifier!);
+            }
+
+            const updateResult = await updateQueryBuilder.execute();
+            subjects.forEach(subject => {
+                const generatedMap = updateResult.generatedMaps.find(generatedMap => {
+                    return subjects.length === 1 || metadata.compareEntities(subject.identifier!, generatedMap);
+                });
+                this.setUpdatedGeneratedMap(subject, generatedMap);
+            });
+        }));
+    }
+
+    /**
+     * Writes spanner commit timestamp placeholder into commit timestamp columns of the given value set,
+     * and lets query runner fill the entity with the actual commit timestamp once it is committed.
+     */
+    protected applySpannerCommitTimestamps(subject: Subject, valueSet: ObjectLiteral, operation: "insert"|"update"): ObjectLiteral {
+        if (!(this.queryRunner.connection.driver instanceof SpannerDriver))
+            return valueSet;
+
+        const columns = subject.metadata.columns.filter(column => column.isUpdateCommitTimestamp || (operation === "insert" && column.isCreateCommitTimestamp));
+        if (columns.length === 0)
+            return valueSet;
+
+        columns.forEach(column => OrmUtils.mergeDeep(valueSet, column.createValueMap(SpannerCommitTimestampPlaceholder)));
+        if (subject.entity && this.queryRunner instanceof SpannerQueryRunner)
+            this.queryRunner.fillCommitTimestampOnCommit(subject.entity, columns);
+        return valueSet;
+    }
+
+    /**
+     * Prepares value of the given column to be written by spanner mutation.
+     * Commit timestamp placeholder is kept, because mutations write commit timestamp by it.
+     */
+    protected prepareSpannerMutationValue(value: any, column: ColumnMetadata): any {
+        if (value === SpannerCommitTimestampPlaceholder)
+            return value;
+
+        if (column.referencedColumn && value instanceof Object)
+            value = column.referencedColumn.getEntityValue(value);
+        return this.queryRunner.connection.driver.preparePersistentValue(value, column);
+    }
+
+    /**
+     * Sets values generated by update operation (like update date or version) to the given subject.
+     */
+    protected setUpdatedGeneratedMap(subject: Subject, generatedMap: ObjectLiteral|undefined): void {
+        subject.generatedMap = generatedMap;
+        if (subject.generatedMap) {
+            subject.metadata.columns.forEach(column => {
+                const value = column.getEntityValue(subject.generatedMap!);
+                if (value !== undefined && value !== null) {
+                    const preparedValue = this.queryRunner.connection.driver.prepareHydratedValue(value, column);
+                    column.setEntityValue(subject.generatedMap!, preparedValue);
+                }
+            });
+        }
+    }
+
     /**
      * Removes all given subjects from the database.
      *
@@ -5,6 +5,7 @@ import {Connection} from "../connection/Connection";
 import {QueryRunner} from "../query-runner/QueryRunner";
 import {SqlServerDriver} from "../driver/sqlserver/SqlServerDriver";
 import {PostgresDriver} from "../driver/postgres/PostgresDriver";
+import {SpannerDriver} from "../driver/spanner/SpannerDriver";
 import {WhereExpression} from "./WhereExpression";
 import {Brackets} from "./Brackets";
 import {DeleteResult} from "./result/DeleteResult";
@@ -64,7 +65,13 @@ export class DeleteQueryBuilder<Entity> extends QueryBuilder<Entity> implements
 
             // execute query
             const deleteResult = new DeleteResult();
-            deleteResult.raw = await queryRunner.queryByBuilder<Entity>(this);
+            const result = await queryRunner.queryByBuilder<Entity>(this);
+            if (this.connection.driver instanceof SpannerDriver) {
+                deleteResult.raw = result[0];
+                deleteResult.affected = result[1];
+            } else {
+                deleteResult.raw = result;
+            }
 
             // call after deletion methods in listeners and subscribers
             if (this.expressionMap.callListeners === true && this.expressionMap.mainAlias!.hasMetadata) {
@@ -232,6 +239,18 @@ export class DeleteQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         return this;
     }
 
+    /**
+     * Executes query as spanner partitioned DML, which is not limited by the number of mutations per commit.
+     * Partitioned DML cannot be executed inside transaction, and affected count becomes lower bound of affected rows.
+     */
+    usePartitionedDml(enabled: boolean = true): this {
+        if (enabled && !(this.connection.driver instanceof SpannerDriver))
+            throw new Error(`Partitioned DML is supported only by spanner.`);
+
+        this.expressionMap.partitionedDml = enabled;
+        return this;
+    }
+
     // -------------------------------------------------------------------------
     // Protected Methods
     // -------------------------------------------------------------------------
@@ -241,8 +260,10 @@ export class DeleteQueryBuilder<Entity> extends QueryBuilder<Entity> implements
      */
     protected createDeleteExpression() {
         const tableName = this.getTableName(this.getMainTableName());
-        const whereExpression = this.createWhereExpression();
+        let whereExpression = this.createWhereExpression();
         const returningExpression = this.createReturningExpression();
+        if (!whereExpression && this.connection.driver instanceof SpannerDriver) // spanner requires WHERE clause in DML
+            whereExpression = " WHERE true";
 
         if (returningExpression && this.connection.driver instanceof PostgresDriver) {
             return `DELETE FROM ${tableName}${whereExpression} RETURNING ${returningExpression}`;
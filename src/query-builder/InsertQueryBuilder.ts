@@ -6,7 +6,7 @@ import {QueryPartialEntity} from "./QueryPartialEntity";
 import {SqlServerDriver} from "../driver/sqlserver/SqlServerDriver";
 import {PostgresDriver} from "../driver/postgres/PostgresDriver";
 import {MysqlDriver} from "../driver/mysql/MysqlDriver";
-import {SpannerDriver} from "../driver/spanner/SpannerDriver";
+import {SpannerDriver, SpannerColumnUpdateWithCommitTimestamp} from "../driver/spanner/SpannerDriver";
 import {RandomGenerator} from "../util/RandomGenerator";
 import {InsertResult} from "./result/InsertResult";
 import {ReturningStatementNotSupportedError} from "../error/ReturningStatementNotSupportedError";
@@ -234,6 +234,31 @@ export class InsertQueryBuilder<Entity> extends QueryBuilder<Entity> {
         return this;
     }
 
+    /**
+     * Updates existing row instead of failing when row with the same primary key already exists.
+     * Supported only in spanner, where it is executed as insertOrUpdate mutation.
+     */
+    orUpdate(): this {
+        if (!(this.connection.driver instanceof SpannerDriver))
+            throw new Error(`InsertQueryBuilder.orUpdate is supported only by spanner.`);
+
+        this.expressionMap.onDuplicate = "update";
+        return this;
+    }
+
+    /**
+     * Replaces existing row instead of failing when row with the same primary key already exists.
+     * Unlike orUpdate, columns not given in the values are reset.
+     * Supported only in spanner, where it is executed as replace mutation.
+     */
+    orReplace(): this {
+        if (!(this.connection.driver instanceof SpannerDriver))
+            throw new Error(`InsertQueryBuilder.orReplace is supported only by spanner.`);
+
+        this.expressionMap.onDuplicate = "replace";
+        return this;
+    }
+
     // -------------------------------------------------------------------------
     // Protected Methods
     // -------------------------------------------------------------------------
@@ -313,6 +338,10 @@ export class InsertQueryBuilder<Entity> extends QueryBuilder<Entity> {
             if (column.isGenerated && column.generationStrategy === "increment" && !(this.connection.driver instanceof OracleDriver) && !(this.connection.driver instanceof MysqlDriver))
                 return false;
 
+            // spanner does not accept any value (even DEFAULT) for generated columns
+            if (column.asExpression && this.connection.driver instanceof SpannerDriver)
+                return false;
+
             return true;
         });
     }
@@ -413,8 +442,8 @@ export class InsertQueryBuilder<Entity> extends QueryBuilder<Entity> {
                             } else {
                                 expression += "NULL"; // otherwise simply use NULL and pray if column is nullable
                             }
-                        } else if (this.connection.driver instanceof SpannerDriver) {
-                            expression += this.connection.driver.normalizeDefault(column);
+                        } else if (this.connection.driver instanceof SpannerDriver && this.connection.driver.normalizeDefault(column) === SpannerColumnUpdateWithCommitTimestamp) {
+                            expression += "PENDING_COMMIT_TIMESTAMP()";
                         } else {
                             expression += "DEFAULT";
                         }
@@ -425,7 +454,7 @@ export class InsertQueryBuilder<Entity> extends QueryBuilder<Entity> {
 
                     // just any other regular value
                     } else {
-                        if (this.connection.driver instanceof SqlServerDriver)
+                        if (this.connection.driver instanceof SqlServerDriver || this.connection.driver instanceof SpannerDriver)
                             value = this.connection.driver.parametrizeValue(column, value);
 
                         // we need to store array values in a special class to make sure parameter replacement will work correctly
@@ -18,6 +18,7 @@ import {SqlServerDriver} from "../driver/sqlserver/SqlServerDriver";
 import {OracleDriver} from "../driver/oracle/OracleDriver";
 import {EntitySchema} from "../";
 import {FindOperator} from "../find-options/FindOperator";
+import {SpannerDriver} from "../driver/spanner/SpannerDriver";
 
 // todo: completely cover query builder with tests
 // todo: entityOrProperty can be target name. implement proper behaviour if it is.
@@ -732,7 +733,7 @@ export abstract class QueryBuilder<Entity> {
                     const parameterName = "id_" + index + "_" + secondIndex;
                     // whereSubStrings.push(alias + this.escape(primaryColumn.databaseName) + "=:id_" + index + "_" + secondIndex);
                     whereSubStrings.push(alias + this.escape(primaryColumn.databaseName) + " = " + this.connection.driver.createParameter(parameterName, parameterIndex));
-                    this.expressionMap.nativeParameters[parameterName] = primaryColumn.getEntityValue(id, true);
+                    this.expressionMap.nativeParameters[parameterName] = this.parametrizeWhereValue(primaryColumn, primaryColumn.getEntityValue(id, true));
                     parameterIndex++;
                 });
                 return whereSubStrings.join(" AND ");
@@ -750,12 +751,22 @@ export abstract class QueryBuilder<Entity> {
                 return `${alias + this.escape(primaryColumn.databaseName)} IN (${transformedIds.join(", ")})`;
 
             } else {
-                this.expressionMap.parameters["qb_ids"] = transformedIds;
+                this.expressionMap.parameters["qb_ids"] = transformedIds.map(id => this.parametrizeWhereValue(primaryColumn, id));
                 return alias + this.escape(primaryColumn.databaseName) + " IN (:...qb_ids)";
             }
         }
     }
 
+    /**
+     * Wraps value of the where condition into driver's typed parameter if driver requires it.
+     * Only spanner does it, since its parameter types are inferred from values otherwise.
+     */
+    protected parametrizeWhereValue(column: ColumnMetadata, value: any): any {
+        if (this.connection.driver instanceof SpannerDriver)
+            return this.connection.driver.parametrizeValue(column, value);
+        return value;
+    }
+
     /**
      * Computes given where argument - transforms to a where string all forms it can take.
      */
@@ -800,7 +811,7 @@ export abstract class QueryBuilder<Entity> {
                                 if (parameterValue.useParameter) {
                                     const realParameterValues: any[] = parameterValue.multipleParameters ? parameterValue.value : [parameterValue.value];
                                     realParameterValues.forEach((realParameterValue, realParameterValueIndex) => {
-                                        this.expressionMap.nativeParameters[parameterName + realParameterValueIndex] = realParameterValue;
+                                        this.expressionMap.nativeParameters[parameterName + realParameterValueIndex] = this.parametrizeWhereValue(column, realParameterValue);
                                         parameterIndex++;
                                         parameters.push(this.connection.driver.createParameter(parameterName + realParameterValueIndex, parameterIndex - 1));
                                     });
@@ -808,7 +819,7 @@ export abstract class QueryBuilder<Entity> {
                                 return parameterValue.toSql(this.connection, aliasPath, parameters);
 
                             } else {
-                                this.expressionMap.nativeParameters[parameterName] = parameterValue;
+                                this.expressionMap.nativeParameters[parameterName] = this.parametrizeWhereValue(column, parameterValue);
                                 parameterIndex++;
                                 const parameter = this.connection.driver.createParameter(parameterName, parameterIndex - 1);
                                 return `${aliasPath} = ${parameter}`;
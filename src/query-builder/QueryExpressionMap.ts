@@ -12,6 +12,7 @@ import {ColumnMetadata} from "../metadata/ColumnMetadata";
 import {RelationMetadata} from "../metadata/RelationMetadata";
 import {QueryBuilder} from "./QueryBuilder";
 import {SelectQueryBuilderOption} from "./SelectQueryBuilderOption";
+import {SpannerTimestampBound} from "../driver/spanner/SpannerTimestampBound";
 
 /**
  * Contains all properties of the QueryBuilder that needs to be build a final query.
@@ -73,6 +74,12 @@ export class QueryExpressionMap {
      */
     onConflict: string = "";
 
+    /**
+     * What insertion query does when row with the same primary key already exists, supported in spanner.
+     * "update" updates given columns of the existing row, "replace" replaces the existing row entirely.
+     */
+    onDuplicate?: "update"|"replace";
+
     /**
      * JOIN queries.
      */
@@ -250,6 +257,18 @@ export class QueryExpressionMap {
      */
     useTransaction: boolean = false;
 
+    /**
+     * Timestamp bound of read-only snapshot transaction which query must be wrapped into.
+     * Used only by spanner.
+     */
+    readOnly?: boolean|SpannerTimestampBound;
+
+    /**
+     * Indicates if update/delete query must be executed as partitioned DML.
+     * Used only by spanner.
+     */
+    partitionedDml: boolean = false;
+
     /**
      * Extra parameters.
      * Used in InsertQueryBuilder to avoid default parameters mechanizm and execute high performance insertions.
@@ -379,6 +398,7 @@ export class QueryExpressionMap {
         map.valuesSet = this.valuesSet;
         map.returning = this.returning;
         map.onConflict = this.onConflict;
+        map.onDuplicate = this.onDuplicate;
         map.joinAttributes = this.joinAttributes.map(join => new JoinAttribute(this.connection, this, join));
         map.relationIdAttributes = this.relationIdAttributes.map(relationId => new RelationIdAttribute(this, relationId));
         map.relationCountAttributes = this.relationCountAttributes.map(relationCount => new RelationCountAttribute(this, relationCount));
@@ -409,6 +429,8 @@ export class QueryExpressionMap {
         map.callListeners = this.callListeners;
         map.callObservers = this.callObservers;
         map.useTransaction = this.useTransaction;
+        map.readOnly = this.readOnly;
+        map.partitionedDml = this.partitionedDml;
         map.nativeParameters = this.nativeParameters;
         return map;
     }
@@ -21,6 +21,10 @@ import {LockNotSupportedOnGivenDriverError} from "../error/LockNotSupportedOnGiv
 import {MysqlDriver} from "../driver/mysql/MysqlDriver";
 import {PostgresDriver} from "../driver/postgres/PostgresDriver";
 import {OracleDriver} from "../driver/oracle/OracleDriver";
+import {SpannerDriver} from "../driver/spanner/SpannerDriver";
+import {SpannerQueryPlan} from "../driver/spanner/SpannerQueryPlan";
+import {SpannerQueryRunner} from "../driver/spanner/SpannerQueryRunner";
+import {SpannerTimestampBound} from "../driver/spanner/SpannerTimestampBound";
 import {SelectQuery} from "./SelectQuery";
 import {EntityMetadata} from "../metadata/EntityMetadata";
 import {ColumnMetadata} from "../metadata/ColumnMetadata";
@@ -1026,6 +1030,16 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
 
     }
 
+    /**
+     * Makes query to be executed in read-only snapshot transaction which does not take any locks.
+     * Passing true reads with strong timestamp bound.
+     * Supported only by spanner, ignored if transaction is already active.
+     */
+    setReadOnly(readOnly: boolean|SpannerTimestampBound = true): this {
+        this.expressionMap.readOnly = readOnly;
+        return this;
+    }
+
     /**
      * Gets first raw result returned by execution of generated query builder sql.
      */
@@ -1046,10 +1060,7 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         try {
 
             // start transaction if it was enabled
-            if (this.expressionMap.useTransaction === true && queryRunner.isTransactionActive === false) {
-                await queryRunner.startTransaction();
-                transactionStartedByUs = true;
-            }
+            transactionStartedByUs = await this.startTransactionIfRequired(queryRunner);
 
             const results = await this.loadRawResults(queryRunner);
 
@@ -1091,10 +1102,7 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         try {
 
             // start transaction if it was enabled
-            if (this.expressionMap.useTransaction === true && queryRunner.isTransactionActive === false) {
-                await queryRunner.startTransaction();
-                transactionStartedByUs = true;
-            }
+            transactionStartedByUs = await this.startTransactionIfRequired(queryRunner);
 
             this.expressionMap.queryEntity = true;
             this.applyFindOptions();
@@ -1177,10 +1185,7 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         try {
 
             // start transaction if it was enabled
-            if (this.expressionMap.useTransaction === true && queryRunner.isTransactionActive === false) {
-                await queryRunner.startTransaction();
-                transactionStartedByUs = true;
-            }
+            transactionStartedByUs = await this.startTransactionIfRequired(queryRunner);
 
             this.expressionMap.queryEntity = false;
             this.applyFindOptions();
@@ -1224,10 +1229,7 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         try {
 
             // start transaction if it was enabled
-            if (this.expressionMap.useTransaction === true && queryRunner.isTransactionActive === false) {
-                await queryRunner.startTransaction();
-                transactionStartedByUs = true;
-            }
+            transactionStartedByUs = await this.startTransactionIfRequired(queryRunner);
 
             this.applyFindOptions();
             this.expressionMap.queryEntity = true;
@@ -1266,17 +1268,14 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
      */
     async stream(): Promise<ReadStream> {
         this.expressionMap.queryEntity = false;
-        //TODO: change queryRunner.stream to queryRunner.streamByBuilder
+        // TODO: change queryRunner.stream to queryRunner.streamByBuilder
         const [sql, parameters] = this.getQueryAndParameters();
         const queryRunner = this.obtainQueryRunner();
         let transactionStartedByUs: boolean = false;
         try {
 
             // start transaction if it was enabled
-            if (this.expressionMap.useTransaction === true && queryRunner.isTransactionActive === false) {
-                await queryRunner.startTransaction();
-                transactionStartedByUs = true;
-            }
+            transactionStartedByUs = await this.startTransactionIfRequired(queryRunner);
 
             const releaseFn = () => {
                 if (queryRunner !== this.queryRunner) // means we created our own query runner
@@ -1310,6 +1309,46 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         }
     }
 
+    /**
+     * Returns spanner's query plan of built SQL query.
+     * With analyze, the query is executed and the plan is filled with execution statistics (rows, CPU time, scanned rows).
+     */
+    async explain(options: { analyze?: boolean } = {}): Promise<SpannerQueryPlan> {
+        if (!(this.connection.driver instanceof SpannerDriver))
+            throw new Error(`explain is supported only by spanner driver.`);
+
+        const [sql, parameters] = this.getQueryAndParameters();
+        const queryRunner = this.obtainQueryRunner() as SpannerQueryRunner;
+        let transactionStartedByUs: boolean = false;
+        try {
+
+            // start transaction if it was enabled
+            transactionStartedByUs = await this.startTransactionIfRequired(queryRunner);
+
+            const plan = await queryRunner.explain(sql, parameters, !!options.analyze);
+
+            // close transaction if we started it
+            if (transactionStartedByUs)
+                await queryRunner.commitTransaction();
+
+            return plan;
+
+        } catch (error) {
+
+            // rollback transaction if we started it
+            if (transactionStartedByUs) {
+                try {
+                    await queryRunner.rollbackTransaction();
+                } catch (rollbackError) { }
+            }
+            throw error;
+
+        } finally {
+            if (queryRunner !== this.queryRunner) // means we created our own query runner
+                await queryRunner.release();
+        }
+    }
+
     /**
      * Enables or disables query result caching.
      */
@@ -1690,11 +1729,15 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
                 } else if (driver instanceof SqlServerDriver) {
                     return "";
 
+                } else if (driver instanceof SpannerDriver) {
+                    // spanner read-write transaction takes shared locks on the rows it reads by itself
+                    return "";
+
                 } else {
                     throw new LockNotSupportedOnGivenDriverError();
                 }
             case "pessimistic_write":
-                if (driver instanceof MysqlDriver || driver instanceof PostgresDriver || driver instanceof OracleDriver) {
+                if (driver instanceof MysqlDriver || driver instanceof PostgresDriver || driver instanceof OracleDriver || driver instanceof SpannerDriver) {
                     return " FOR UPDATE";
 
                 } else if (driver instanceof SqlServerDriver) {
@@ -1951,6 +1994,10 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         if ((this.expressionMap.lockMode === "pessimistic_read" || this.expressionMap.lockMode === "pessimistic_write") && !queryRunner.isTransactionActive)
             throw new PessimisticLockTransactionRequiredError();
 
+        // spanner read-only transaction does not take any locks
+        if ((this.expressionMap.lockMode === "pessimistic_read" || this.expressionMap.lockMode === "pessimistic_write") && this.connection.driver instanceof SpannerDriver && (queryRunner as SpannerQueryRunner).isReadOnly())
+            throw new Error(`Pessimistic lock cannot be taken in spanner read-only transaction.`);
+
         if (this.expressionMap.lockMode === "optimistic") {
             const metadata = this.expressionMap.mainAlias.metadata;
             if (!metadata.versionColumn && !metadata.updateDateColumn)
@@ -2130,11 +2177,35 @@ export class SelectQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         return [selectString, orderByObject];
     }
 
+    /**
+     * Starts transaction if it was enabled, or spanner read-only transaction
+     * if it was requested by setReadOnly or find options.
+     * Returns true if transaction was started.
+     */
+    protected async startTransactionIfRequired(queryRunner: QueryRunner): Promise<boolean> {
+        if (queryRunner.isTransactionActive)
+            return false;
+
+        const readOnly = this.expressionMap.readOnly !== undefined
+            ? this.expressionMap.readOnly
+            : this.findOptions.options && this.findOptions.options.readOnly;
+        if (readOnly && this.connection.driver instanceof SpannerDriver) {
+            await (queryRunner as SpannerQueryRunner).startTransaction({ readOnly });
+            return true;
+        }
+
+        if (this.expressionMap.useTransaction === true) {
+            await queryRunner.startTransaction();
+            return true;
+        }
+        return false;
+    }
+
     /**
      * Loads raw results from the database.
      */
     protected async loadRawResults(queryRunner: QueryRunner) {
-        //TODO: should we use queryByBuilder here? because actual sql is required.
+        // TODO: should we use queryByBuilder here? because actual sql is required.
         const [sql, parameters] = this.getQueryAndParameters();
         const queryId = sql + " -- PARAMETERS: " + JSON.stringify(parameters);
         const cacheOptions = typeof this.connection.options.cache === "object" ? this.connection.options.cache : {};
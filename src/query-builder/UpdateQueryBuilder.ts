@@ -18,6 +18,7 @@ import {AbstractSqliteDriver} from "../driver/sqlite-abstract/AbstractSqliteDriv
 import {OrderByCondition} from "../find-options/OrderByCondition";
 import {LimitOnUpdateNotSupportedError} from "../error/LimitOnUpdateNotSupportedError";
 import {OracleDriver} from "../driver/oracle/OracleDriver";
+import {SpannerDriver} from "../driver/spanner/SpannerDriver";
 
 /**
  * Allows to build complex sql queries in a fashion way and execute those queries.
@@ -79,7 +80,13 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
 
             // execute update query
             const updateResult = new UpdateResult();
-            updateResult.raw = await queryRunner.queryByBuilder<Entity>(this);
+            const result = await queryRunner.queryByBuilder<Entity>(this);
+            if (this.connection.driver instanceof SpannerDriver) {
+                updateResult.raw = result[0];
+                updateResult.affected = result[1];
+            } else {
+                updateResult.raw = result;
+            }
 
             // if we are updating entities and entity updation is enabled we must update some of entity columns (like version, update date, etc.)
             if (this.expressionMap.updateEntity === true &&
@@ -135,8 +142,9 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
 
     /**
      * Values needs to be updated.
+     * Spanner also accepts multiple value sets (each of them containing primary keys) to update several rows at once.
      */
-    set(values: ObjectLiteral): this {
+    set(values: ObjectLiteral|ObjectLiteral[]): this {
         this.expressionMap.valuesSet = values;
         return this;
     }
@@ -350,6 +358,18 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         return this;
     }
 
+    /**
+     * Executes query as spanner partitioned DML, which is not limited by the number of mutations per commit.
+     * Partitioned DML cannot be executed inside transaction, and affected count becomes lower bound of affected rows.
+     */
+    usePartitionedDml(enabled: boolean = true): this {
+        if (enabled && !(this.connection.driver instanceof SpannerDriver))
+            throw new Error(`Partitioned DML is supported only by spanner.`);
+
+        this.expressionMap.partitionedDml = enabled;
+        return this;
+    }
+
     // -------------------------------------------------------------------------
     // Protected Methods
     // -------------------------------------------------------------------------
@@ -363,6 +383,7 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
 
         // prepare columns and values to be updated
         const updateColumnAndValues: string[] = [];
+        const keyConditions: string[] = [];
         const newParameters: ObjectLiteral = {};
         let parametersCount =   this.connection.driver instanceof MysqlDriver ||
                                 this.connection.driver instanceof OracleDriver ||
@@ -386,7 +407,7 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
                     if (value instanceof Function) { // support for SQL expressions in update query
                         updateColumnAndValues.push(this.escape(column.databaseName) + " = " + value());
                     } else {
-                        if (this.connection.driver instanceof SqlServerDriver) {
+                        if (this.connection.driver instanceof SqlServerDriver || this.connection.driver instanceof SpannerDriver) {
                             value = this.connection.driver.parametrizeValue(column, value);
 
                         // } else if (value instanceof Array) {
@@ -413,7 +434,12 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
                         } else {
                             expression = this.connection.driver.createParameter(paramName, parametersCount);
                         }
-                        updateColumnAndValues.push(this.escape(column.databaseName) + " = " + expression);
+                        // spanner cannot update primary key columns by DML, so their values select the updated row instead
+                        if (this.connection.driver instanceof SpannerDriver && column.isPrimary) {
+                            keyConditions.push(this.escape(column.databaseName) + " = " + expression);
+                        } else {
+                            updateColumnAndValues.push(this.escape(column.databaseName) + " = " + expression);
+                        }
                         parametersCount++;
                     }
                 });
@@ -421,7 +447,9 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
 
             if (metadata.versionColumn)
                 updateColumnAndValues.push(this.escape(metadata.versionColumn.databaseName) + " = " + this.escape(metadata.versionColumn.databaseName) + " + 1");
-            if (metadata.updateDateColumn)
+            if (metadata.updateDateColumn && this.connection.driver instanceof SpannerDriver)
+                updateColumnAndValues.push(this.escape(metadata.updateDateColumn.databaseName) + " = PENDING_COMMIT_TIMESTAMP()"); // spanner creates update date column with allow_commit_timestamp
+            else if (metadata.updateDateColumn)
                 updateColumnAndValues.push(this.escape(metadata.updateDateColumn.databaseName) + " = CURRENT_TIMESTAMP"); // todo: fix issue with CURRENT_TIMESTAMP(6) being used, can "DEFAULT" be used?!
 
         } else {
@@ -460,7 +488,11 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
         }
 
         // get a table name and all column database names
-        const whereExpression = this.createWhereExpression();
+        let whereExpression = this.createWhereExpression();
+        if (keyConditions.length > 0)
+            whereExpression = (whereExpression ? " WHERE (" + whereExpression.substr(" WHERE ".length) + ") AND " : " WHERE ") + keyConditions.join(" AND ");
+        if (!whereExpression && this.connection.driver instanceof SpannerDriver) // spanner requires WHERE clause in DML
+            whereExpression = " WHERE true";
         const returningExpression = this.createReturningExpression();
 
         // generate and return sql update query
@@ -515,6 +547,9 @@ export class UpdateQueryBuilder<Entity> extends QueryBuilder<Entity> implements
      * Gets array of values need to be inserted into the target table.
      */
     protected getValueSet(): ObjectLiteral {
+        if (this.expressionMap.valuesSet instanceof Array)
+            throw new Error(`Cannot build update query from multiple value sets. Only spanner supports multiple value sets in "qb.set(...)".`);
+
         if (this.expressionMap.valuesSet instanceof Object)
             return this.expressionMap.valuesSet;
 
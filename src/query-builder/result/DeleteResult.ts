@@ -5,4 +5,9 @@ export class DeleteResult {
 
     raw: any;
 
+    /**
+     * Number of affected rows, if driver reports it.
+     */
+    affected?: number;
+
 }
\ No newline at end of file
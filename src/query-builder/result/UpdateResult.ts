@@ -10,6 +10,11 @@ export class UpdateResult {
      */
     raw: any;
 
+    /**
+     * Number of affected rows, if driver reports it.
+     */
+    affected?: number;
+
     /**
      * Contains inserted entity id.
      * Has entity-like structure (not just column database name and values).
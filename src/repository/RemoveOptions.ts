@@ -29,4 +29,10 @@ export interface RemoveOptions {
      */
     chunk?: number;
 
-}
\ No newline at end of file
+    /**
+     * Executes update/delete operation as spanner partitioned DML.
+     * Used only by spanner, see UpdateQueryBuilder/DeleteQueryBuilder.usePartitionedDml.
+     */
+    partitioned?: boolean;
+
+}
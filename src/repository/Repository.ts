@@ -12,6 +12,7 @@ import {SelectQueryBuilder} from "../query-builder/SelectQueryBuilder";
 import {QueryRunner} from "../query-runner/QueryRunner";
 import {RemoveOptions} from "./RemoveOptions";
 import {SaveOptions} from "./SaveOptions";
+import {UpsertOptions} from "./UpsertOptions";
 import * as Observable from "zen-observable";
 
 /**
@@ -164,6 +165,16 @@ export class Repository<Entity extends ObjectLiteral> {
         return this.manager.insert(this.metadata.target, entity, options);
     }
 
+    /**
+     * Inserts given entities into the database, or updates them if rows with the same primary keys already exist.
+     * Given entities must contain their primary keys.
+     * Executes insertOrUpdate (or replace, if { replace: true } is given) mutation, so rows are not read before write.
+     * Supported only by spanner.
+     */
+    upsert(entity: QueryPartialEntity<Entity>|(QueryPartialEntity<Entity>[]), options?: UpsertOptions): Promise<InsertResult> {
+        return this.manager.upsert(this.metadata.target, entity, options);
+    }
+
     /**
      * Updates entity partially. Entity can be found by a given conditions.
      * Unlike save method executes a primitive operation without cascades, relations and other operations included.
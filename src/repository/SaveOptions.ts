@@ -38,4 +38,10 @@ export interface SaveOptions {
      */
     reload?: boolean;
 
-}
\ No newline at end of file
+    /**
+     * Executes update/delete operation as spanner partitioned DML.
+     * Used only by spanner, see UpdateQueryBuilder/DeleteQueryBuilder.usePartitionedDml.
+     */
+    partitioned?: boolean;
+
+}
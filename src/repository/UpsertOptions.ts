@@ -0,0 +1,12 @@
+/**
+ * Special options passed to Repository#upsert method.
+ */
+export interface UpsertOptions {
+
+    /**
+     * Indicates if existing rows are replaced entirely instead of being updated.
+     * With { replace: true } columns which are not given in the entity are reset to their defaults (or NULL).
+     */
+    replace?: boolean;
+
+}
@@ -16,6 +16,10 @@ import {SqlServerDriver} from "../driver/sqlserver/SqlServerDriver";
 import {MysqlDriver} from "../driver/mysql/MysqlDriver";
 import {TableUnique} from "./table/TableUnique";
 import {TableCheck} from "./table/TableCheck";
+import {TableInterleave} from "./table/TableInterleave";
+import {SpannerQueryRunner} from "../driver/spanner/SpannerQueryRunner";
+import {SpannerDriver} from "../driver/spanner/SpannerDriver";
+import {IndexMetadata} from "../metadata/IndexMetadata";
 
 /**
  * Creates complete tables schemas in the database based on the entity metadatas.
@@ -30,6 +34,8 @@ import {TableCheck} from "./table/TableCheck";
  * 7. update primary keys - update old and create new primary key from changed columns
  * 8. create foreign keys which does not exist in the table yet
  * 9. create indices which are missing in db yet, and drops indices which exist in the db, but does not exist in the metadata anymore
+ *
+ * In spanner, interleaved tables are created after their parents, and their ON DELETE action is synchronized after tables creation.
  */
 export class RdbmsSchemaBuilder implements SchemaBuilder {
 
@@ -133,6 +139,7 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         // await this.renameTables();
         await this.renameColumns();
         await this.createNewTables();
+        await this.updateInterleaves();
         await this.dropRemovedColumns();
         await this.addNewColumns();
         await this.updatePrimaryKeys();
@@ -248,6 +255,9 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
                         if (indexMetadata.isFulltext !== tableIndex.isFulltext)
                             return true;
 
+                        if (this.connection.driver instanceof SpannerDriver && this.isSpannerIndexChanged(indexMetadata, tableIndex))
+                            return true;
+
                         if (indexMetadata.columns.length !== tableIndex.columnNames.length)
                             return true;
 
@@ -265,6 +275,21 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         });
     }
 
+    /**
+     * Checks if spanner specific options (NULL_FILTERED, STORING and INTERLEAVE IN clauses) of the index are changed.
+     */
+    protected isSpannerIndexChanged(indexMetadata: IndexMetadata, tableIndex: TableIndex): boolean {
+        if (indexMetadata.isNullFiltered !== !!tableIndex.isNullFiltered)
+            return true;
+
+        const interleaveIn = indexMetadata.interleaveInEntityMetadata ? indexMetadata.interleaveInEntityMetadata.tablePath : undefined;
+        if (interleaveIn !== tableIndex.interleaveIn)
+            return true;
+
+        return indexMetadata.storingColumns.length !== tableIndex.storingColumnNames.length
+            || !indexMetadata.storingColumns.every(column => tableIndex.storingColumnNames.indexOf(column.databaseName) !== -1);
+    }
+
     protected async dropOldChecks(): Promise<void> {
         // Mysql does not support check constraints
         if (this.connection.driver instanceof MysqlDriver)
@@ -311,7 +336,7 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
      * Primary key only can be created in conclusion with auto generated column.
      */
     protected async createNewTables(): Promise<void> {
-        await PromiseUtils.runInSequence(this.entityToSyncMetadatas, async metadata => {
+        await PromiseUtils.runInSequence(this.sortByInterleaveDepth(this.entityToSyncMetadatas), async metadata => {
             // check if table does not exist yet
             const existTable = this.queryRunner.loadedTables.find(table => {
                 const database = metadata.database && metadata.database !== this.connection.driver.database ? metadata.database : undefined;
@@ -332,6 +357,46 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         });
     }
 
+    /**
+     * Updates ON DELETE action of interleaved tables which exist in the database.
+     * Spanner cannot interleave existing table in other parent, so such change is refused.
+     */
+    protected async updateInterleaves(): Promise<void> {
+        if (!(this.queryRunner instanceof SpannerQueryRunner))
+            return;
+
+        const queryRunner = this.queryRunner;
+        await PromiseUtils.runInSequence(this.entityToSyncMetadatas, async metadata => {
+            const table = queryRunner.loadedTables.find(table => table.name === metadata.tablePath);
+            if (!table)
+                return;
+
+            const interleave = TableInterleave.create(metadata, this.connection.driver);
+            const parentTableName = table.interleave ? table.interleave.parentTableName : undefined;
+            if (parentTableName !== (interleave ? interleave.parentTableName : undefined))
+                throw new Error(`Cannot change parent table which "${table.name}" is interleaved in (from "${parentTableName || "none"}" to "${interleave ? interleave.parentTableName : "none"}"). Spanner requires the table to be re-created for it.`);
+
+            if (!interleave || table.interleave!.onDelete === interleave.onDelete)
+                return;
+
+            this.connection.logger.logSchemaBuild(`changing ON DELETE action of interleaved table "${table.name}" to ${interleave.onDelete}`);
+            await queryRunner.changeInterleaveOnDelete(table, interleave.onDelete);
+        });
+    }
+
+    /**
+     * Sorts entity metadatas so that parents of interleaved tables come before their children.
+     */
+    protected sortByInterleaveDepth(metadatas: EntityMetadata[]): EntityMetadata[] {
+        const depthOf = (metadata: EntityMetadata): number => {
+            return metadata.interleaveParentEntityMetadata ? depthOf(metadata.interleaveParentEntityMetadata) + 1 : 0;
+        };
+        return metadatas
+            .map((metadata, index) => ({ metadata, index, depth: depthOf(metadata) }))
+            .sort((a, b) => a.depth - b.depth || a.index - b.index)
+            .map(item => item.metadata);
+    }
+
     /**
      * Drops all columns that exist in the table, but does not exist in the metadata (left old).
      * We drop their keys too, since it should be safe.
@@ -39,4 +39,22 @@ export interface TableIndexOptions {
      */
     where?: string;
 
+    /**
+     * Indicates if rows with NULL in indexed columns are excluded from the index.
+     * Works only in Spanner.
+     */
+    isNullFiltered?: boolean;
+
+    /**
+     * Non-key columns stored in the index.
+     * Works only in Spanner.
+     */
+    storingColumnNames?: string[];
+
+    /**
+     * Name of the parent table which index is interleaved in.
+     * Works only in Spanner.
+     */
+    interleaveIn?: string;
+
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Database's table interleaving options. Used only in spanner.
+ */
+export interface TableInterleaveOptions {
+
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Name of the parent table which this table is interleaved in.
+     */
+    parentTableName: string;
+
+    /**
+     * What database does with the rows of this table when their parent row is deleted.
+     */
+    onDelete?: "CASCADE"|"NO ACTION";
+
+}
@@ -3,6 +3,7 @@ import {TableIndexOptions} from "./TableIndexOptions";
 import {TableForeignKeyOptions} from "./TableForeignKeyOptions";
 import {TableUniqueOptions} from "./TableUniqueOptions";
 import {TableCheckOptions} from "./TableCheckOptions";
+import {TableInterleaveOptions} from "./TableInterleaveOptions";
 
 /**
  * Table options.
@@ -55,4 +56,9 @@ export interface TableOptions {
      */
     engine?: string;
 
+    /**
+     * Interleaving of the table in its parent table. Used only in spanner.
+     */
+    interleave?: TableInterleaveOptions;
+
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import {EntityMetadata} from "../../metadata/EntityMetadata";
 import {TableUtils} from "../util/TableUtils";
 import {TableUnique} from "./TableUnique";
 import {TableCheck} from "./TableCheck";
+import {TableInterleave} from "./TableInterleave";
 
 /**
  * Table in the database represented in this class.
@@ -60,6 +61,11 @@ export class Table {
      */
     engine?: string;
 
+    /**
+     * Interleaving of the table in its parent table. Used only in spanner.
+     */
+    interleave?: TableInterleave;
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -87,6 +93,9 @@ export class Table {
                 this.justCreated = options.justCreated;
 
             this.engine = options.engine;
+
+            if (options.interleave)
+                this.interleave = new TableInterleave(options.interleave);
         }
     }
 
@@ -115,6 +124,7 @@ export class Table {
             checks: this.checks.map(constraint => constraint.clone()),
             justCreated: this.justCreated,
             engine: this.engine,
+            interleave: this.interleave ? this.interleave.clone() : undefined,
         });
     }
 
@@ -286,6 +296,7 @@ export class Table {
                 .map(index => TableIndex.create(index)),
             uniques: entityMetadata.uniques.map(unique => TableUnique.create(unique)),
             checks: entityMetadata.checks.map(check => TableCheck.create(check)),
+            interleave: TableInterleave.create(entityMetadata, driver),
         };
 
         return new Table(options);
@@ -42,6 +42,24 @@ export class TableIndex {
      */
     where?: string;
 
+    /**
+     * Indicates if rows with NULL in indexed columns are excluded from the index.
+     * Works only in Spanner.
+     */
+    isNullFiltered?: boolean;
+
+    /**
+     * Non-key columns stored in the index.
+     * Works only in Spanner.
+     */
+    storingColumnNames: string[] = [];
+
+    /**
+     * Name of the parent table which index is interleaved in.
+     * Works only in Spanner.
+     */
+    interleaveIn?: string;
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -53,6 +71,9 @@ export class TableIndex {
         this.isSpatial = options.isSpatial;
         this.isFulltext = options.isFulltext;
         this.where = options.where;
+        this.isNullFiltered = options.isNullFiltered;
+        this.storingColumnNames = options.storingColumnNames || [];
+        this.interleaveIn = options.interleaveIn;
     }
 
     // -------------------------------------------------------------------------
@@ -69,7 +90,10 @@ export class TableIndex {
             isUnique: this.isUnique,
             isSpatial: this.isSpatial,
             isFulltext: this.isFulltext,
-            where: this.where
+            where: this.where,
+            isNullFiltered: this.isNullFiltered,
+            storingColumnNames: [...this.storingColumnNames],
+            interleaveIn: this.interleaveIn
         });
     }
 
@@ -87,7 +111,10 @@ export class TableIndex {
             isUnique: indexMetadata.isUnique,
             isSpatial: indexMetadata.isSpatial,
             isFulltext: indexMetadata.isFulltext,
-            where: indexMetadata.where
+            where: indexMetadata.where,
+            isNullFiltered: indexMetadata.isNullFiltered,
+            storingColumnNames: indexMetadata.storingColumns.map(column => column.databaseName),
+            interleaveIn: indexMetadata.interleaveInEntityMetadata ? indexMetadata.interleaveInEntityMetadata.tablePath : undefined
         });
     }
 
@@ -0,0 +1,65 @@
+import {TableInterleaveOptions} from "../options/TableInterleaveOptions";
+import {EntityMetadata} from "../../metadata/EntityMetadata";
+import {Driver} from "../../driver/Driver";
+
+/**
+ * Database's table interleaving in its parent table (spanner's INTERLEAVE IN PARENT clause) stored in this class.
+ */
+export class TableInterleave {
+
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Name of the parent table which this table is interleaved in.
+     */
+    parentTableName: string;
+
+    /**
+     * What database does with the rows of this table when their parent row is deleted.
+     */
+    onDelete: "CASCADE"|"NO ACTION";
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(options: TableInterleaveOptions) {
+        this.parentTableName = options.parentTableName;
+        this.onDelete = options.onDelete || "NO ACTION";
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates a new copy of this interleaving with exactly same properties.
+     */
+    clone(): TableInterleave {
+        return new TableInterleave(<TableInterleaveOptions>{
+            parentTableName: this.parentTableName,
+            onDelete: this.onDelete
+        });
+    }
+
+    // -------------------------------------------------------------------------
+    // Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates interleaving from the entity metadata, if its table is interleaved.
+     */
+    static create(entityMetadata: EntityMetadata, driver: Driver): TableInterleave|undefined {
+        const parent = entityMetadata.interleaveParentEntityMetadata;
+        if (!parent)
+            return undefined;
+
+        return new TableInterleave(<TableInterleaveOptions>{
+            parentTableName: driver.buildTableName(parent.tableName, parent.schema, parent.database),
+            onDelete: entityMetadata.interleaveOnDelete
+        });
+    }
+
+}
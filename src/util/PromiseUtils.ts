@@ -40,6 +40,13 @@ export class PromiseUtils {
         });
     }
 
+    /**
+     * Returns a promise that is resolved after given number of milliseconds.
+     */
+    static delay(milliseconds: number): Promise<void> {
+        return new Promise<void>(ok => setTimeout(ok, milliseconds));
+    }
+
     /**
      * Returns a promise that is fulfilled with an array of promise state snapshots,
      * but only after all the original promises have settled, i.e. become either fulfilled or rejected.
@@ -0,0 +1,17 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+
+@Entity()
+export class Event {
+
+    @PrimaryColumn()
+    id: number;
+
+    @Column({ type: "string", array: true })
+    tags: string[];
+
+    @Column({ type: "date", array: true, nullable: true })
+    days: Date[];
+
+}
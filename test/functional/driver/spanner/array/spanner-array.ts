@@ -0,0 +1,77 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {SpannerParameter} from "../../../../../src/driver/spanner/SpannerParameter";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Event} from "./entity/Event";
+
+describe("spanner driver > array", () => {
+
+    let statements: string[];
+
+    // records schema updates instead of applying them
+    const createDriver = () => createStubSpannerDriver({
+        getSchema: async () => [[
+            "CREATE TABLE event (\n  id INT64 NOT NULL,\n  tags ARRAY<STRING(MAX)> NOT NULL,\n  days ARRAY<DATE>,\n) PRIMARY KEY(id)",
+        ]],
+        updateSchema: async (ddl: string[]) => {
+            statements.push(...ddl);
+            return [{ promise: async () => undefined }];
+        }
+    });
+
+    const buildEventMetadata = (driver: SpannerDriver) => new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas([Event])[0];
+
+    beforeEach(() => statements = []);
+
+    it("should create ARRAY columns of the entity", async () => {
+        const driver = await createDriver();
+
+        await driver.createQueryRunner().createTable(Table.create(buildEventMetadata(driver), driver));
+
+        expect(statements).to.be.eql([
+            "CREATE TABLE `event` (`id` int64 NOT NULL, `tags` ARRAY<string(255)> NOT NULL, `days` ARRAY<date>) PRIMARY KEY (`id`)",
+        ]);
+    });
+
+    it("should read ARRAY columns from the schema", async () => {
+        const driver = await createDriver();
+
+        const [event] = await driver.loadTables(["event"]);
+
+        const columns = event.columns.map(column => [column.name, column.type, column.isArray, column.length, column.isNullable]);
+        expect(columns).to.be.eql([
+            ["id", "int64", false, "", false],
+            ["tags", "string", true, "MAX", false],
+            ["days", "date", true, "", true],
+        ]);
+    });
+
+    it("should convert each element of array values", async () => {
+        const driver = await createDriver();
+        const days = buildEventMetadata(driver).findColumnWithPropertyName("days")!;
+
+        expect(driver.preparePersistentValue([new Date("2018-07-01T00:00:00"), null], days)).to.be.eql(["2018-07-01", null]);
+        expect(driver.prepareHydratedValue(["2018-07-01", null], days)).to.be.eql([new Date("2018-07-01T00:00:00"), null]);
+        expect(() => driver.preparePersistentValue("2018-07-01", days)).to.throw("is an array column");
+    });
+
+    it("should send array values as typed ARRAY parameters", async () => {
+        const driver = await createDriver();
+        const event = buildEventMetadata(driver);
+
+        const tags = driver.parametrizeValue(event.findColumnWithPropertyName("tags")!, ["a", "b"]);
+        expect(tags.type).to.be.eql({ type: "array", child: "string" });
+
+        // spread parameter is expanded into typed elements
+        const [sql, parameters] = driver.escapeQueryWithParameters("SELECT * FROM event WHERE tag IN (:...tags)", { tags }, {});
+        expect(sql).to.be.equal("SELECT * FROM event WHERE tag IN (@tags0, @tags1)");
+        expect(parameters).to.be.eql([{ tags0: new SpannerParameter("a", "string") }, { tags1: new SpannerParameter("b", "string") }]);
+
+        // element given for array column, e.g. by ArrayContains, is typed as the element
+        expect(driver.getColumnParameterType(event.findColumnWithPropertyName("days")!, "2018-07-01")).to.be.equal("date");
+    });
+
+});
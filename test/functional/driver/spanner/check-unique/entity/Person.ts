@@ -0,0 +1,24 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+import {Check} from "../../../../../../src/decorator/Check";
+import {Unique} from "../../../../../../src/decorator/Unique";
+
+@Entity()
+@Check("CHK_person_age", `"age" >= 0`)
+@Unique("UQ_person_name", ["firstName", "lastName"])
+export class Person {
+
+    @PrimaryColumn()
+    id: number;
+
+    @Column()
+    firstName: string;
+
+    @Column()
+    lastName: string;
+
+    @Column()
+    age: number;
+
+}
@@ -0,0 +1,80 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+import {TableCheck} from "../../../../../src/schema-builder/table/TableCheck";
+import {TableUnique} from "../../../../../src/schema-builder/table/TableUnique";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Person} from "./entity/Person";
+
+describe("spanner driver > check and unique constraints", () => {
+
+    let statements: string[];
+
+    // records schema updates instead of applying them
+    const createDriver = () => createStubSpannerDriver({
+        getSchema: async () => [[
+            "CREATE TABLE person (\n  id INT64 NOT NULL,\n  firstName STRING(255) NOT NULL,\n  lastName STRING(255) NOT NULL,\n  age INT64 NOT NULL,\n  CONSTRAINT CHK_person_age CHECK(age >= 0),\n) PRIMARY KEY(id)",
+            "CREATE UNIQUE INDEX UQ_person_name ON person(firstName, lastName)",
+            "ALTER TABLE person ADD CONSTRAINT CHK_person_name CHECK(firstName <> lastName)",
+        ]],
+        updateSchema: async (ddl: string[]) => {
+            statements.push(...ddl);
+            return [{ promise: async () => undefined }];
+        }
+    });
+
+    beforeEach(() => statements = []);
+
+    it("should create check constraints in the table and unique constraints as unique indices", async () => {
+        const driver = await createDriver();
+        const [person] = new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas([Person]);
+
+        // unique constraints are managed as unique indices
+        expect(person.uniques).to.be.eql([]);
+        expect(person.indices.map(index => [index.name, index.isUnique])).to.be.eql([["UQ_person_name", true]]);
+
+        await driver.createQueryRunner().createTable(Table.create(person, driver));
+
+        expect(statements).to.be.eql([
+            "CREATE TABLE `person` (`id` int64 NOT NULL, `firstName` string(255) NOT NULL, `lastName` string(255) NOT NULL, `age` int64 NOT NULL, CONSTRAINT `CHK_person_age` CHECK (`age` >= 0)) PRIMARY KEY (`id`)",
+            "CREATE UNIQUE INDEX `UQ_person_name` ON `person`(`firstName`, `lastName`)",
+        ]);
+    });
+
+    it("should create and drop check and unique constraints of the table", async () => {
+        const driver = await createDriver();
+        const queryRunner = driver.createQueryRunner();
+        const table = (await queryRunner.getTable("person"))!;
+        const check = new TableCheck({ name: "CHK_person_adult", expression: `"age" >= 18` });
+        const unique = new TableUnique({ name: "UQ_person_age", columnNames: ["firstName", "age"] });
+
+        await queryRunner.createCheckConstraint(table, check);
+        await queryRunner.dropCheckConstraint(table, check);
+        await queryRunner.createUniqueConstraint(table, unique);
+        await queryRunner.dropUniqueConstraint(table, unique);
+
+        expect(statements).to.be.eql([
+            "ALTER TABLE `person` ADD CONSTRAINT `CHK_person_adult` CHECK (`age` >= 18)",
+            "ALTER TABLE `person` DROP CONSTRAINT `CHK_person_adult`",
+            "CREATE UNIQUE INDEX `UQ_person_age` ON `person`(`firstName`, `age`)",
+            "DROP INDEX `UQ_person_age`",
+        ]);
+    });
+
+    it("should read check constraints and unique indices from the schema", async () => {
+        const driver = await createDriver();
+
+        const [person] = await driver.loadTables(["person"]);
+
+        expect(person.checks.map(check => [check.name, check.expression])).to.be.eql([
+            ["CHK_person_age", "age >= 0"],
+            ["CHK_person_name", "firstName <> lastName"],
+        ]);
+        expect(person.indices.map(index => [index.name, index.columnNames, index.isUnique])).to.be.eql([
+            ["UQ_person_name", ["firstName", "lastName"], true],
+        ]);
+        expect(person.uniques).to.be.eql([]);
+    });
+
+});
@@ -0,0 +1,104 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerQueryRunner} from "../../../../src/driver/spanner/SpannerQueryRunner";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > clear database", () => {
+
+    let calls: any[][];
+    let schema: string[];
+
+    // records schema updates and deletes. schema becomes empty once it is updated, like all tables are dropped
+    const createQueryRunner = async () => {
+        const driver = await createStubSpannerDriver({
+            getSchema: async () => [schema],
+            updateSchema: async (ddl: string[]) => {
+                calls.push(["updateSchema", ddl]);
+                schema = schema.filter(statement => statement.indexOf("CREATE TABLE schemas") === 0);
+                return [{ promise: async () => undefined }];
+            },
+            runPartitionedUpdate: (request: any, callback: Function) => {
+                calls.push(["runPartitionedUpdate", request.sql]);
+                callback(null, 1);
+            },
+            getTransaction: async () => [{
+                runUpdate: (request: any, callback: Function) => {
+                    calls.push(["tx.runUpdate", request.sql]);
+                    callback(null, 1);
+                },
+                end: () => {}
+            }]
+        });
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    beforeEach(() => {
+        calls = [];
+        schema = [
+            "CREATE TABLE author (\n  id INT64 NOT NULL,\n) PRIMARY KEY(id)",
+            "CREATE TABLE post (\n  postId INT64 NOT NULL,\n  authorId INT64,\n  CONSTRAINT FK_post_author FOREIGN KEY (authorId) REFERENCES author (id),\n) PRIMARY KEY(postId)",
+            "CREATE TABLE comment (\n  postId INT64 NOT NULL,\n  commentId INT64 NOT NULL,\n) PRIMARY KEY(postId, commentId),\n  INTERLEAVE IN PARENT post ON DELETE CASCADE",
+            "CREATE TABLE reply (\n  postId INT64 NOT NULL,\n  commentId INT64 NOT NULL,\n  replyId INT64 NOT NULL,\n) PRIMARY KEY(postId, commentId, replyId),\n  INTERLEAVE IN PARENT comment ON DELETE CASCADE",
+            "CREATE INDEX IDX_post_author ON post(authorId)",
+            "CREATE TABLE schemas (\n  table STRING(255) NOT NULL,\n  column STRING(255) NOT NULL,\n  type STRING(255) NOT NULL,\n  value STRING(255) NOT NULL,\n) PRIMARY KEY(table, column, type)",
+        ];
+    });
+
+    it("should delete rows of interleaved tables before the table", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await queryRunner.clearTable("post");
+
+        expect(calls).to.be.eql([
+            ["runPartitionedUpdate", "DELETE FROM `reply` WHERE true"],
+            ["runPartitionedUpdate", "DELETE FROM `comment` WHERE true"],
+            ["runPartitionedUpdate", "DELETE FROM `post` WHERE true"],
+        ]);
+    });
+
+    it("should delete rows by the transaction inside transaction", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction();
+
+        await queryRunner.clearTable("comment");
+
+        expect(calls).to.be.eql([
+            ["tx.runUpdate", "DELETE FROM `reply` WHERE true"],
+            ["tx.runUpdate", "DELETE FROM `comment` WHERE true"],
+        ]);
+    });
+
+    it("should drop indices, foreign keys, and tables before their parents by single schema update", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await queryRunner.clearDatabase();
+
+        expect(calls).to.be.eql([
+            ["updateSchema", [
+                "DROP INDEX `IDX_post_author`",
+                "ALTER TABLE `post` DROP CONSTRAINT `FK_post_author`",
+                "DROP TABLE `author`",
+                "DROP TABLE `reply`",
+                "DROP TABLE `comment`",
+                "DROP TABLE `post`",
+            ]],
+            // schemas table is kept
+            ["runPartitionedUpdate", "DELETE FROM `schemas` WHERE true"],
+        ]);
+    });
+
+    it("should refuse to clear database inside transaction or other database", async () => {
+        const queryRunner = await createQueryRunner();
+
+        // connected database can be given by its name
+        await queryRunner.clearDatabase("database");
+        calls = [];
+
+        await queryRunner.clearDatabase("other").should.be.rejectedWith("Can not clear database other. only connected database database can be cleared");
+        await queryRunner.startTransaction();
+        await queryRunner.clearDatabase().should.be.rejectedWith("cannot clear database inside transaction");
+
+        expect(calls).to.be.eql([]);
+    });
+
+});
@@ -0,0 +1,62 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > client options", () => {
+
+    let calls: any[][];
+
+    // records how the database is opened and closed
+    const database = {
+        get: async (options: any) => calls.push(["get", options]),
+        close: async () => calls.push(["database.close"])
+    };
+
+    beforeEach(() => calls = []);
+
+    it("should create client with credentials of the connection", async () => {
+        const credentials = { client_email: "user@project.iam.gserviceaccount.com", private_key: "key" };
+        const driver = await createStubSpannerDriver(database, { credentials, keyFilename: "/path/to/key.json", autoCreate: true });
+
+        expect(driver.spanner!.client.options).to.be.eql({ projectId: "project", credentials, keyFilename: "/path/to/key.json" });
+        expect(driver.spanner!.instance.instanceId).to.be.equal("instance");
+        expect(driver.spanner!.database.handle.name).to.be.equal("database");
+        expect(calls).to.be.eql([["get", { autoCreate: true }]]);
+    });
+
+    it("should pass session pool options to the database", async () => {
+        const sessionPool = { min: 1, max: 10, writes: 0.2, acquireTimeout: 5000 };
+        const driver = await createStubSpannerDriver(database, { sessionPool });
+
+        expect(driver.spanner!.database.handle.sessionPool).to.be.eql(sessionPool);
+    });
+
+    it("should set request timeout to the client config of query methods", async () => {
+        const driver = await createStubSpannerDriver(database, { requestTimeout: 3000 });
+
+        const methods = driver.spanner!.client.options.clientConfig.interfaces["google.spanner.v1.Spanner"].methods;
+        expect(methods.ExecuteSql.timeout_millis).to.be.equal(3000);
+        expect(methods.ExecuteStreamingSql.timeout_millis).to.be.equal(3000);
+    });
+
+    it("should connect to emulator by plain text connection", async () => {
+        const driver = await createStubSpannerDriver(database, { emulatorHost: "localhost:9020" });
+
+        const options = driver.spanner!.client.options;
+        expect([options.servicePath, options.port, options.sslCreds]).to.be.eql(["localhost", 9020, "insecure credentials"]);
+        expect((await createStubSpannerDriver(database, { emulatorHost: "emulator" })).spanner!.client.options.port).to.be.equal(9010);
+    });
+
+    it("should close the database and the client on disconnect", async () => {
+        const driver = await createStubSpannerDriver(database);
+        driver.spanner!.client.close = async () => calls.push(["client.close"]);
+        calls = [];
+
+        await driver.disconnect();
+        await driver.disconnect();
+
+        expect(calls).to.be.eql([["database.close"], ["client.close"]]);
+        expect(driver.spanner).to.be.null;
+    });
+
+});
@@ -0,0 +1,135 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {SpannerCommitTimestampPlaceholder, SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {SpannerQueryRunner} from "../../../../../src/driver/spanner/SpannerQueryRunner";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Document} from "./entity/Document";
+
+describe("spanner driver > commit timestamp", () => {
+
+    let calls: any[][];
+    let statements: string[];
+
+    // commit responses of spanner client hold commit timestamp as google.protobuf.Timestamp
+    const commitResponse = { commitTimestamp: { seconds: "1530403200", nanos: 500000000 } };
+    const commitTimestamp = new Date("2018-07-01T00:00:00.500Z");
+
+    const createDriver = () => createStubSpannerDriver({
+        getSchema: async () => [[
+            "CREATE TABLE document (\n  id INT64 NOT NULL,\n  createdAt TIMESTAMP NOT NULL OPTIONS (allow_commit_timestamp=true),\n  updatedAt TIMESTAMP NOT NULL OPTIONS (allow_commit_timestamp=true),\n) PRIMARY KEY(id)",
+        ]],
+        updateSchema: async (ddl: string[]) => {
+            statements.push(...ddl);
+            return [{ promise: async () => undefined }];
+        },
+        table: (tableName: string) => ({
+            insert: async (rows: any[]) => {
+                calls.push(["insert", tableName, rows]);
+                if (rows.some(row => row.id < 0))
+                    throw new Error("invalid id");
+                return [commitResponse];
+            }
+        }),
+        getTransaction: async () => [{
+            insert: (tableName: string, rows: any[]) => calls.push(["tx.insert", tableName, rows]),
+            commit: (callback: Function) => {
+                calls.push(["tx.commit"]);
+                callback(null, commitResponse);
+            }
+        }]
+    });
+
+    const buildDocumentMetadata = (driver: SpannerDriver) => new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas([Document])[0];
+
+    // insert query builder, reduced to what query runner reads from it
+    const createInsertQueryBuilder = (queryRunner: SpannerQueryRunner, valuesSet: any[]): any => ({
+        connection: queryRunner.connection,
+        mainTableName: "document",
+        expressionMap: { queryType: "insert", valuesSet }
+    });
+
+    beforeEach(() => {
+        calls = [];
+        statements = [];
+    });
+
+    it("should create columns allowing commit timestamp and read them from the schema without diff", async () => {
+        const driver = await createDriver();
+        const document = buildDocumentMetadata(driver);
+        expect(document.columns.map(column => [column.propertyName, column.isCreateCommitTimestamp, column.isUpdateCommitTimestamp])).to.be.eql([
+            ["id", false, false],
+            ["createdAt", true, false],
+            ["updatedAt", false, true],
+        ]);
+
+        await driver.createQueryRunner().createTable(Table.create(document, driver));
+        const [table] = await driver.loadTables(["document"]);
+
+        expect(statements).to.be.eql([
+            "CREATE TABLE `document` (`id` int64 NOT NULL, `createdAt` timestamp NOT NULL OPTIONS (allow_commit_timestamp=true), " +
+            "`updatedAt` timestamp NOT NULL OPTIONS (allow_commit_timestamp=true)) PRIMARY KEY (`id`)",
+        ]);
+        expect(driver.findChangedColumns(table.columns, document.columns)).to.be.eql([]);
+    });
+
+    it("should write commit timestamp by PENDING_COMMIT_TIMESTAMP() in DML", async () => {
+        const driver = await createDriver();
+        const updatedAt = buildDocumentMetadata(driver).findColumnWithPropertyName("updatedAt")!;
+
+        const value = driver.preparePersistentValue(SpannerCommitTimestampPlaceholder, updatedAt);
+
+        expect(value()).to.be.equal("PENDING_COMMIT_TIMESTAMP()");
+    });
+
+    it("should fill entity with commit timestamp of the mutations outside of transaction", async () => {
+        const driver = await createDriver();
+        const document = buildDocumentMetadata(driver);
+        const queryRunner = driver.createQueryRunner() as SpannerQueryRunner;
+        const entity: any = { id: 1 };
+
+        queryRunner.fillCommitTimestampOnCommit(entity, [document.findColumnWithPropertyName("createdAt")!, document.findColumnWithPropertyName("updatedAt")!]);
+        await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner, [{ id: 1, createdAt: SpannerCommitTimestampPlaceholder, updatedAt: SpannerCommitTimestampPlaceholder }]));
+
+        expect(queryRunner.getCommitTimestamp()).to.be.eql(commitTimestamp);
+        expect(entity).to.be.eql({ id: 1, createdAt: commitTimestamp, updatedAt: commitTimestamp });
+    });
+
+    it("should fill entity with commit timestamp once the transaction is committed", async () => {
+        const driver = await createDriver();
+        const document = buildDocumentMetadata(driver);
+        const queryRunner = driver.createQueryRunner() as SpannerQueryRunner;
+        const entity: any = { id: 1 };
+
+        await queryRunner.startTransaction();
+        queryRunner.fillCommitTimestampOnCommit(entity, [document.findColumnWithPropertyName("updatedAt")!]);
+        await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner, [{ id: 1, createdAt: SpannerCommitTimestampPlaceholder, updatedAt: SpannerCommitTimestampPlaceholder }]));
+        expect(entity.updatedAt).to.be.undefined;
+        expect(queryRunner.getCommitTimestamp()).to.be.undefined;
+
+        await queryRunner.commitTransaction();
+
+        expect(calls.map(call => call[0])).to.be.eql(["tx.insert", "tx.commit"]);
+        expect(queryRunner.getCommitTimestamp()).to.be.eql(commitTimestamp);
+        expect(entity.updatedAt).to.be.eql(commitTimestamp);
+    });
+
+    it("should not fill entity if the mutations fail", async () => {
+        const driver = await createDriver();
+        const document = buildDocumentMetadata(driver);
+        const queryRunner = driver.createQueryRunner() as SpannerQueryRunner;
+        const failedEntity: any = { id: -1 };
+        const entity: any = { id: 2 };
+
+        queryRunner.fillCommitTimestampOnCommit(failedEntity, [document.findColumnWithPropertyName("updatedAt")!]);
+        await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner, [{ id: -1, createdAt: SpannerCommitTimestampPlaceholder, updatedAt: SpannerCommitTimestampPlaceholder }]))
+            .should.be.rejectedWith("invalid id");
+        queryRunner.fillCommitTimestampOnCommit(entity, [document.findColumnWithPropertyName("updatedAt")!]);
+        await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner, [{ id: 2, createdAt: SpannerCommitTimestampPlaceholder, updatedAt: SpannerCommitTimestampPlaceholder }]));
+
+        expect(failedEntity.updatedAt).to.be.undefined;
+        expect(entity.updatedAt).to.be.eql(commitTimestamp);
+    });
+
+});
@@ -0,0 +1,17 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {CommitTimestampColumn} from "../../../../../../src/decorator/columns/CommitTimestampColumn";
+
+@Entity()
+export class Document {
+
+    @PrimaryColumn()
+    id: number;
+
+    @CommitTimestampColumn({ mode: "create" })
+    createdAt: Date;
+
+    @CommitTimestampColumn()
+    updatedAt: Date;
+
+}
@@ -0,0 +1,184 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerDDLTranslator} from "../../../../src/driver/spanner/SpannerDDLTranslator";
+import {SpannerColumnUpdateWithCommitTimestamp} from "../../../../src/driver/spanner/SpannerDriver";
+import {DefaultNamingStrategy} from "../../../../src/naming-strategy/DefaultNamingStrategy";
+import {PlatformTools} from "../../../../src/platform/PlatformTools";
+import {Table} from "../../../../src/schema-builder/table/Table";
+import {TableColumn} from "../../../../src/schema-builder/table/TableColumn";
+
+describe("spanner driver > mysql ddl translator", () => {
+
+    let calls: any[][];
+    let tables: Table[];
+
+    // records schema changes instead of applying them, so that the translator runs without spanner
+    const createTranslator = () => {
+        const record = (method: string) => async (...args: any[]) => { calls.push([method, ...args]); };
+        const queryRunner: any = {
+            driver: {
+                ddlParser: new (PlatformTools.load("sql-ddl-to-json-schema"))("mysql"),
+                options: { migrationDDLType: "mysql" },
+                loadTables: async (tableName: string) => tables.filter(table => table.name === tableName)
+            },
+            connection: { namingStrategy: new DefaultNamingStrategy() },
+            createTable: record("createTable"),
+            dropTable: record("dropTable"),
+            renameTable: record("renameTable"),
+            addColumn: record("addColumn"),
+            changeColumn: record("changeColumn"),
+            dropColumn: record("dropColumn"),
+            createIndex: record("createIndex"),
+            dropIndex: record("dropIndex"),
+            createForeignKey: record("createForeignKey"),
+            dropForeignKey: record("dropForeignKey"),
+            createPrimaryKey: record("createPrimaryKey"),
+        };
+        return new SpannerDDLTranslator(queryRunner);
+    };
+
+    beforeEach(() => {
+        calls = [];
+        tables = [new Table({
+            name: "post",
+            columns: [
+                { name: "id", type: "int64", isPrimary: true },
+                { name: "title", type: "string", length: "255" },
+                { name: "views", type: "int64", isNullable: true },
+            ]
+        })];
+    });
+
+    it("should translate mysql types into spanner types", async () => {
+        await createTranslator().run("CREATE TABLE `item` (" +
+            "`id` int NOT NULL AUTO_INCREMENT, " +
+            "`flag` tinyint(1) NOT NULL, " +
+            "`level` tinyint NOT NULL, " +
+            "`rank` tinyint(4) NOT NULL, " +
+            "`active` boolean NOT NULL, " +
+            "`name` varchar(255) NOT NULL, " +
+            "`body` longtext NULL, " +
+            "`price` decimal(10,2) NOT NULL, " +
+            "`ratio` double NOT NULL, " +
+            "`kind` enum('a', 'bcd') NOT NULL, " +
+            "`data` blob NULL, " +
+            "`meta` json NULL, " +
+            "`birthday` date NULL, " +
+            "`updatedAt` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6), " +
+            "PRIMARY KEY (`id`)) ENGINE=InnoDB");
+
+        expect(calls.length).to.be.equal(1);
+        const [method, table] = calls[0];
+        expect(method).to.be.equal("createTable");
+        expect(table.name).to.be.equal("item");
+        const types = table.columns.map((column: TableColumn) => [column.name, column.type, column.length]);
+        expect(types).to.be.eql([
+            ["id", "int64", ""],
+            ["flag", "bool", ""],
+            ["level", "int64", ""],
+            ["rank", "int64", ""],
+            ["active", "bool", ""],
+            ["name", "string", "255"],
+            ["body", "string", "MAX"],
+            ["price", "numeric", ""],
+            ["ratio", "float64", ""],
+            ["kind", "string", "3"],
+            ["data", "bytes", "65535"],
+            ["meta", "json", ""],
+            ["birthday", "date", ""],
+            ["updatedAt", "timestamp", ""],
+        ]);
+        const id = table.findColumnByName("id");
+        expect(id.isPrimary).to.be.true;
+        expect(id.generationStrategy).to.be.equal("increment");
+        expect(table.findColumnByName("body").isNullable).to.be.true;
+        expect(table.findColumnByName("updatedAt").default).to.be.equal(SpannerColumnUpdateWithCommitTimestamp);
+    });
+
+    it("should translate default values for the spanner type of the column", async () => {
+        await createTranslator().run("CREATE TABLE `item` (" +
+            "`id` int NOT NULL, " +
+            "`flag` tinyint(1) NOT NULL DEFAULT 1, " +
+            "`level` tinyint NOT NULL DEFAULT 1, " +
+            "`name` varchar(255) NOT NULL DEFAULT 'it''s', " +
+            "`price` decimal(10,2) NOT NULL DEFAULT '1.50', " +
+            "`createdAt` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+            "`note` varchar(255) NULL DEFAULT NULL, " +
+            "PRIMARY KEY (`id`))");
+
+        const table: Table = calls[0][1];
+        const defaults = table.columns.map(column => [column.name, column.default]);
+        expect(defaults).to.be.eql([
+            ["id", undefined],
+            ["flag", "true"],
+            ["level", "1"],
+            ["name", "'it\\'s'"],
+            ["price", "NUMERIC '1.50'"],
+            ["createdAt", "CURRENT_TIMESTAMP()"],
+            ["note", undefined],
+        ]);
+    });
+
+    it("should apply ALTER TABLE specs by schema changes", async () => {
+        await createTranslator().run(
+            "ALTER TABLE `post` ADD `published` tinyint(1) NOT NULL DEFAULT 0; " +
+            "ALTER TABLE `post` ADD `score` tinyint NOT NULL; " +
+            "ALTER TABLE `post` ADD `slug` varchar(100) NOT NULL UNIQUE; " +
+            "ALTER TABLE `post` CHANGE `title` `name` varchar(100) NOT NULL; " +
+            "ALTER TABLE `post` ALTER `views` SET DEFAULT 0; " +
+            "ALTER TABLE `post` DROP COLUMN `views`; " +
+            "CREATE INDEX `IDX_post_name` ON `post` (`name`); " +
+            "ALTER TABLE `post` ADD CONSTRAINT `FK_post_author` FOREIGN KEY (`authorId`) REFERENCES `author`(`id`) ON DELETE CASCADE; " +
+            "ALTER TABLE `post` DROP FOREIGN KEY `FK_post_author`; " +
+            "DROP INDEX `IDX_post_name` ON `post`; " +
+            "RENAME TABLE `post` TO `article`");
+
+        expect(calls.map(call => call[0])).to.be.eql([
+            "addColumn", "addColumn", "addColumn", "createIndex", "changeColumn", "changeColumn", "dropColumn",
+            "createIndex", "createForeignKey", "dropForeignKey", "dropIndex", "renameTable"
+        ]);
+
+        const [published, score, slug] = calls.slice(0, 3).map(call => call[2]);
+        expect([published.name, published.type, published.default]).to.be.eql(["published", "bool", "false"]);
+        expect([score.name, score.type]).to.be.eql(["score", "int64"]);
+        expect([slug.name, slug.type, slug.length]).to.be.eql(["slug", "string", "100"]);
+        expect(calls[3][2].columnNames).to.be.eql(["slug"]);
+        expect(calls[3][2].isUnique).to.be.true;
+
+        const [, , oldTitle, newTitle] = calls[4];
+        expect(oldTitle.name).to.be.equal("title");
+        expect([newTitle.name, newTitle.type, newTitle.length, newTitle.isNullable]).to.be.eql(["name", "string", "100", false]);
+        expect(calls[5][3].default).to.be.equal("0");
+        expect(calls[6].slice(1)).to.be.eql(["post", "views"]);
+
+        expect([calls[7][2].name, calls[7][2].columnNames]).to.be.eql(["IDX_post_name", ["name"]]);
+        const foreignKey = calls[8][2];
+        expect([foreignKey.name, foreignKey.columnNames, foreignKey.referencedTableName, foreignKey.referencedColumnNames, foreignKey.onDelete])
+            .to.be.eql(["FK_post_author", ["authorId"], "author", ["id"], "CASCADE"]);
+        expect(calls[9].slice(1)).to.be.eql(["post", "FK_post_author"]);
+        expect(calls[10].slice(1)).to.be.eql(["post", "IDX_post_name"]);
+        expect(calls[11].slice(1)).to.be.eql(["post", "article"]);
+    });
+
+    it("should refuse statements spanner does not support", async () => {
+        const statements = [
+            "ALTER TABLE `post` DROP PRIMARY KEY",
+            "ALTER TABLE `post` ADD `at` time NOT NULL",
+            "CREATE TABLE `log` (`message` varchar(255) NOT NULL)",
+            "ALTER TABLE `post` ADD FULLTEXT INDEX `IDX_post_title` (`title`)",
+        ];
+        for (const statement of statements) {
+            let error: Error|undefined;
+            try {
+                await createTranslator().run(statement);
+            } catch (e) {
+                error = e;
+            }
+            expect(error).to.be.instanceOf(Error);
+            expect(error!.message).to.contain("spanner does not support");
+            expect(error!.message).to.contain(statement);
+        }
+        expect(calls).to.be.eql([]);
+    });
+
+});
@@ -0,0 +1,82 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerQueryRunner} from "../../../../src/driver/spanner/SpannerQueryRunner";
+import {QueryFailedError} from "../../../../src/error/QueryFailedError";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > dml", () => {
+
+    let calls: any[][];
+    let runUpdateError: any;
+
+    // runs DML by transactions of spanner stub, which report 2 affected rows
+    const createQueryRunner = async () => {
+        const driver = await createStubSpannerDriver({
+            getSchema: async () => [["CREATE TABLE post (\n  id INT64 NOT NULL,\n  title STRING(255) NOT NULL,\n) PRIMARY KEY(id)"]],
+            runTransaction: (runFn: Function) => runFn(null, {
+                runUpdate: (request: any, callback: Function) => {
+                    calls.push(["runUpdate", request.sql, request.params]);
+                    callback(runUpdateError, runUpdateError ? undefined : 2);
+                },
+                commit: (callback: Function) => {
+                    calls.push(["commit"]);
+                    callback(null, {});
+                },
+                end: () => calls.push(["end"])
+            })
+        });
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    // query builder of given query, reduced to what query runner reads from it
+    const createQueryBuilder = (queryRunner: SpannerQueryRunner, queryType: string, valuesSet: any, query: string, parameters: any[]): any => ({
+        connection: queryRunner.connection,
+        mainTableName: "post",
+        expressionMap: { queryType, valuesSet, wheres: [], whereEntities: [] },
+        getQueryAndParameters: () => [query, parameters]
+    });
+
+    beforeEach(() => {
+        calls = [];
+        runUpdateError = undefined;
+    });
+
+    it("should run update without primary keys as DML and report affected rows", async () => {
+        const queryRunner = await createQueryRunner();
+
+        const [, affected] = await queryRunner.queryByBuilder(createQueryBuilder(queryRunner, "update", { title: "updated" },
+            "UPDATE `post` SET `title` = @title WHERE `title` = @oldTitle", [{ title: "updated" }, { oldTitle: "first" }]));
+
+        expect(affected).to.be.equal(2);
+        expect(calls).to.be.eql([
+            ["runUpdate", "UPDATE `post` SET `title` = @title WHERE `title` = @oldTitle", { title: "updated", oldTitle: "first" }],
+            ["commit"],
+        ]);
+    });
+
+    it("should run delete as DML and report affected rows", async () => {
+        const queryRunner = await createQueryRunner();
+
+        const [, affected] = await queryRunner.queryByBuilder(createQueryBuilder(queryRunner, "delete", undefined,
+            "DELETE FROM `post` WHERE `title` = @title", [{ title: "first" }]));
+
+        expect(affected).to.be.equal(2);
+        expect(calls).to.be.eql([
+            ["runUpdate", "DELETE FROM `post` WHERE `title` = @title", { title: "first" }],
+            ["commit"],
+        ]);
+    });
+
+    it("should fail with QueryFailedError and end the transaction when DML fails", async () => {
+        runUpdateError = { code: 3, message: "invalid statement" };
+        const queryRunner = await createQueryRunner();
+
+        await queryRunner.query("DELETE FROM `post` WHERE `title` = @title", [{ title: "first" }]).should.be.rejectedWith(QueryFailedError);
+
+        expect(calls).to.be.eql([
+            ["runUpdate", "DELETE FROM `post` WHERE `title` = @title", { title: "first" }],
+            ["end"],
+        ]);
+    });
+
+});
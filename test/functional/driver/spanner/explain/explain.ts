@@ -0,0 +1,134 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {SpannerQueryRunner} from "../../../../../src/driver/spanner/SpannerQueryRunner";
+import {Logger} from "../../../../../src/logger/Logger";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Post} from "./entity/Post";
+
+describe("spanner driver > explain", () => {
+
+    let calls: any[][];
+    let logs: any[][];
+    let driver: SpannerDriver;
+
+    // protobuf values as spanner client gives them
+    const stringValue = (value: string) => ({ kind: "stringValue", stringValue: value });
+    const struct = (fields: { [name: string]: any }) => ({ kind: "structValue", structValue: { fields } });
+    const stat = (total: string, unit: string) => struct({ total: stringValue(total), unit: stringValue(unit) });
+
+    // statistics of PLAN mode have plan nodes only, and PROFILE mode adds execution statistics
+    const createStats = (profile: boolean) => ({
+        queryPlan: {
+            planNodes: [
+                { index: 0, kind: "RELATIONAL", displayName: "Distributed Union", childLinks: [{ childIndex: 1 }], metadata: { fields: {} },
+                    executionStats: profile ? { fields: { rows: stat("1", "rows"), cpu_time: stat("0.5", "msecs") } } : undefined },
+                { index: 1, kind: "RELATIONAL", displayName: "Table Scan", childLinks: [{ childIndex: 2 }], metadata: { fields: { scan_target: stringValue("post") } },
+                    executionStats: profile ? { fields: { rows: stat("1", "rows"), scanned_rows: stat("10", "rows") } } : undefined },
+                { index: 2, kind: "SCALAR", displayName: "Reference", shortRepresentation: { description: "id" }, metadata: { fields: {} } },
+            ]
+        },
+        queryStats: profile ? { fields: { rows_returned: stringValue("1"), rows_scanned: stringValue("10"), cpu_time: stringValue("1.5 msecs"), elapsed_time: stringValue("2 msecs") } } : undefined
+    });
+
+    // result stream of spanner client, which emits statistics after rows
+    const createStream = (rows: any[], stats: any, delay: number) => {
+        const handlers: { [event: string]: Function } = {};
+        const stream: any = {
+            on: (event: string, handler: Function) => {
+                handlers[event] = handler;
+                return stream;
+            }
+        };
+        setTimeout(() => {
+            handlers["response"]({});
+            rows.forEach(row => handlers["data"](row));
+            handlers["stats"](stats);
+            handlers["end"]();
+        }, delay);
+        return stream;
+    };
+
+    // logger recording slow queries and warnings
+    const logger: Logger = {
+        logQuery: () => {},
+        logQueryError: () => {},
+        logQuerySlow: (time: number, query: string) => logs.push(["slow", query]),
+        logSchemaBuild: () => {},
+        logMigration: () => {},
+        log: (level: string, message: any) => logs.push([level, message])
+    };
+
+    const createQueryRunner = async (options: any = {}, delay: number = 0) => {
+        driver = await createStubSpannerDriver({
+            runStream: (request: any) => {
+                calls.push(["runStream", request.sql, request.queryMode]);
+                return createStream(request.queryMode === "PLAN" ? [] : [{ id: 1 }], createStats(request.queryMode === "PROFILE"), delay);
+            }
+        }, { entities: [Post], logger, ...options });
+        // connection of the stub is not connected, so metadatas are built here
+        (driver.connection as any).buildMetadatas();
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    beforeEach(() => {
+        calls = [];
+        logs = [];
+    });
+
+    it("should return plan tree of the query without executing it", async () => {
+        const queryRunner = await createQueryRunner();
+
+        const plan = await driver.connection.createQueryBuilder(Post, "post", queryRunner).where("post.id = :id", { id: 1 }).explain();
+
+        expect(calls).to.have.length(1);
+        expect(calls[0][2]).to.be.equal("PLAN");
+        expect(plan.nodes.map(node => [node.index, node.kind, node.displayName, node.rows])).to.be.eql([
+            [0, "RELATIONAL", "Distributed Union", undefined],
+            [1, "RELATIONAL", "Table Scan", undefined],
+            [2, "SCALAR", "Reference", undefined],
+        ]);
+        expect(plan.root!.children[0].displayName).to.be.equal("Table Scan");
+        expect(plan.root!.children[0].metadata).to.be.eql({ scan_target: "post" });
+        expect(plan.root!.children[0].children[0].description).to.be.equal("id");
+        expect(plan.stats).to.be.undefined;
+    });
+
+    it("should return plan tree with execution statistics with analyze", async () => {
+        const queryRunner = await createQueryRunner();
+
+        const plan = await driver.connection.createQueryBuilder(Post, "post", queryRunner).explain({ analyze: true });
+
+        expect(calls[0][2]).to.be.equal("PROFILE");
+        expect(plan.nodes.map(node => [node.displayName, node.rows, node.scannedRows, node.cpuTime])).to.be.eql([
+            ["Distributed Union", 1, undefined, "0.5 msecs"],
+            ["Table Scan", 1, 10, undefined],
+            ["Reference", undefined, undefined, undefined],
+        ]);
+        expect([plan.stats!.rowsReturned, plan.stats!.rowsScanned, plan.stats!.cpuTime, plan.stats!.elapsedTime]).to.be.eql([1, 10, "1.5 msecs", "2 msecs"]);
+    });
+
+    it("should refuse to explain queries other than SELECT", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await queryRunner.explain("DELETE FROM post WHERE true").should.be.rejectedWith("only SELECT query can be explained");
+
+        expect(calls).to.be.eql([]);
+    });
+
+    it("should log statistics and plan of slow queries", async () => {
+        const queryRunner = await createQueryRunner({ maxQueryExecutionTime: 1, logSlowQueryStats: true }, 10);
+
+        const result = await queryRunner.query("SELECT id FROM post");
+
+        expect(result).to.be.eql([{ id: 1 }]);
+        expect(calls[0][2]).to.be.equal("PROFILE");
+        expect(logs).to.be.eql([
+            ["slow", "SELECT id FROM post"],
+            ["warn", "query stats: rows returned 1, rows scanned 10, cpu time 1.5 msecs, elapsed time 2 msecs\n" +
+                "Distributed Union (rows: 1, cpu time: 0.5 msecs)\n" +
+                "  Table Scan (rows: 1, scanned rows: 10)"],
+        ]);
+    });
+
+});
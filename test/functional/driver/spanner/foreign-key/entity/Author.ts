@@ -0,0 +1,14 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+
+@Entity()
+export class Author {
+
+    @PrimaryColumn()
+    id: number;
+
+    @Column()
+    name: string;
+
+}
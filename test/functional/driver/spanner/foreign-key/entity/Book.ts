@@ -0,0 +1,19 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+import {ManyToOne} from "../../../../../../src/decorator/relations/ManyToOne";
+import {Author} from "./Author";
+
+@Entity()
+export class Book {
+
+    @PrimaryColumn()
+    id: number;
+
+    @Column()
+    title: string;
+
+    @ManyToOne(type => Author, { onDelete: "CASCADE" })
+    author: Author;
+
+}
@@ -0,0 +1,71 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+import {TableForeignKey} from "../../../../../src/schema-builder/table/TableForeignKey";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Author} from "./entity/Author";
+import {Book} from "./entity/Book";
+
+describe("spanner driver > foreign key", () => {
+
+    let statements: string[];
+
+    // records schema updates instead of applying them
+    const createDriver = () => createStubSpannerDriver({
+        getSchema: async () => [[
+            "CREATE TABLE author (\n  id INT64 NOT NULL,\n  name STRING(255) NOT NULL,\n) PRIMARY KEY(id)",
+            "CREATE TABLE book (\n  id INT64 NOT NULL,\n  title STRING(255) NOT NULL,\n  authorId INT64,\n  CONSTRAINT FK_book_author FOREIGN KEY (authorId) REFERENCES author (id) ON DELETE CASCADE,\n) PRIMARY KEY(id)",
+            "CREATE TABLE review (\n  id INT64 NOT NULL,\n  bookId INT64,\n) PRIMARY KEY(id)",
+            "ALTER TABLE review ADD CONSTRAINT FK_review_book FOREIGN KEY (bookId) REFERENCES book (id)",
+        ]],
+        updateSchema: async (ddl: string[]) => {
+            statements.push(...ddl);
+            return [{ promise: async () => undefined }];
+        }
+    });
+
+    beforeEach(() => statements = []);
+
+    it("should create and drop foreign key constraints of the relation", async () => {
+        const driver = await createDriver();
+        const [, book] = new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas([Author, Book]);
+        const table = Table.create(book, driver);
+        const foreignKey = TableForeignKey.create(book.foreignKeys[0]);
+        const queryRunner = driver.createQueryRunner();
+
+        await queryRunner.createTable(table);
+        await queryRunner.createForeignKey(table, foreignKey);
+        await queryRunner.dropForeignKey(table, foreignKey);
+
+        expect(statements).to.be.eql([
+            "CREATE TABLE `book` (`id` int64 NOT NULL, `title` string(255) NOT NULL, `authorId` int64) PRIMARY KEY (`id`)",
+            `ALTER TABLE \`book\` ADD CONSTRAINT \`${foreignKey.name}\` FOREIGN KEY (\`authorId\`) REFERENCES \`author\` (\`id\`) ON DELETE CASCADE`,
+            `ALTER TABLE \`book\` DROP CONSTRAINT \`${foreignKey.name}\``,
+        ]);
+    });
+
+    it("should refuse referential actions spanner does not support", async () => {
+        const driver = await createDriver();
+        const table = (await driver.createQueryRunner().getTable("book"))!;
+        const foreignKey = new TableForeignKey({ name: "FK_book_author", columnNames: ["authorId"], referencedTableName: "author", referencedColumnNames: ["id"], onDelete: "SET NULL" });
+
+        await driver.createQueryRunner().createForeignKey(table, foreignKey)
+            .should.be.rejectedWith("spanner does not support ON DELETE SET NULL of foreign key FK_book_author");
+
+        expect(statements).to.be.eql([]);
+    });
+
+    it("should read foreign keys of CREATE TABLE and ALTER TABLE statements from the schema", async () => {
+        const driver = await createDriver();
+
+        const [book, review] = await driver.loadTables(["book", "review"]);
+
+        const toArray = (foreignKey: TableForeignKey) => [foreignKey.name, foreignKey.columnNames, foreignKey.referencedTableName, foreignKey.referencedColumnNames, foreignKey.onDelete];
+        expect(book.foreignKeys.map(toArray)).to.be.eql([["FK_book_author", ["authorId"], "author", ["id"], "CASCADE"]]);
+        expect(review.foreignKeys.map(toArray)).to.be.eql([["FK_review_book", ["bookId"], "book", ["id"], "NO ACTION"]]);
+        // foreign key is not interleave
+        expect(book.interleave).to.be.undefined;
+    });
+
+});
@@ -0,0 +1,26 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+
+@Entity()
+export class Item {
+
+    @PrimaryColumn()
+    id: number;
+
+    @Column({ type: "float64" })
+    price: number;
+
+    @Column({ type: "int64", default: 1 })
+    quantity: number;
+
+    @Column({ default: "new" })
+    status: string;
+
+    @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP()" })
+    createdAt: Date;
+
+    @Column({ type: "float64", asExpression: "price * quantity", generatedType: "STORED", nullable: true })
+    total: number;
+
+}
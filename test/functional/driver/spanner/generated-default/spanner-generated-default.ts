@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+import {TableColumn} from "../../../../../src/schema-builder/table/TableColumn";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Item} from "./entity/Item";
+
+describe("spanner driver > generated columns and defaults", () => {
+
+    let statements: string[];
+
+    // records schema updates instead of applying them
+    const createDriver = () => createStubSpannerDriver({
+        getSchema: async () => [[
+            "CREATE TABLE item (\n  id INT64 NOT NULL,\n  price FLOAT64 NOT NULL,\n  quantity INT64 NOT NULL DEFAULT (1),\n  status STRING(255) NOT NULL DEFAULT ('new'),\n  createdAt TIMESTAMP NOT NULL DEFAULT (CURRENT_TIMESTAMP()),\n  total FLOAT64 AS (price * quantity) STORED,\n) PRIMARY KEY(id)",
+        ]],
+        updateSchema: async (ddl: string[]) => {
+            statements.push(...ddl);
+            return [{ promise: async () => undefined }];
+        }
+    });
+
+    const buildItemMetadata = (driver: SpannerDriver) => new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas([Item])[0];
+
+    beforeEach(() => statements = []);
+
+    it("should create DEFAULT expressions and stored generated columns", async () => {
+        const driver = await createDriver();
+
+        await driver.createQueryRunner().createTable(Table.create(buildItemMetadata(driver), driver));
+
+        expect(statements).to.be.eql([
+            "CREATE TABLE `item` (`id` int64 NOT NULL, `price` float64 NOT NULL, `quantity` int64 NOT NULL DEFAULT (1), `status` string(255) NOT NULL DEFAULT ('new'), " +
+            "`createdAt` timestamp NOT NULL DEFAULT (CURRENT_TIMESTAMP()), `total` float64 AS (price * quantity) STORED) PRIMARY KEY (`id`)",
+        ]);
+    });
+
+    it("should read DEFAULT expressions and generated columns from the schema without diff from the entity", async () => {
+        const driver = await createDriver();
+
+        const [item] = await driver.loadTables(["item"]);
+
+        const columns = item.columns.map(column => [column.name, column.default, column.asExpression, column.generatedType]);
+        expect(columns).to.be.eql([
+            ["id", undefined, undefined, undefined],
+            ["price", undefined, undefined, undefined],
+            ["quantity", "1", undefined, undefined],
+            ["status", "'new'", undefined, undefined],
+            ["createdAt", "CURRENT_TIMESTAMP()", undefined, undefined],
+            ["total", undefined, "price * quantity", "STORED"],
+        ]);
+        expect(driver.findChangedColumns(item.columns, buildItemMetadata(driver).columns)).to.be.eql([]);
+    });
+
+    it("should set and drop DEFAULT by ALTER COLUMN", async () => {
+        const driver = await createDriver();
+        const queryRunner = driver.createQueryRunner();
+        const table = (await queryRunner.getTable("item"))!;
+        const status = table.findColumnByName("status")!;
+        const newStatus = status.clone();
+        newStatus.default = "'open'";
+        const noDefaultStatus = status.clone();
+        noDefaultStatus.default = undefined;
+
+        await queryRunner.changeColumn(table, status, newStatus);
+        await queryRunner.changeColumn(table, newStatus, noDefaultStatus);
+
+        expect(statements).to.be.eql([
+            "ALTER TABLE `item` ALTER COLUMN `status` SET DEFAULT ('open')",
+            "ALTER TABLE `item` ALTER COLUMN `status` DROP DEFAULT",
+        ]);
+    });
+
+    it("should refuse virtual generated columns", async () => {
+        const driver = await createDriver();
+        const table = (await driver.createQueryRunner().getTable("item"))!;
+
+        await driver.createQueryRunner().addColumn(table, new TableColumn({ name: "tax", type: "float64", isNullable: true, asExpression: "price * 0.1", generatedType: "VIRTUAL" }))
+            .should.be.rejectedWith("only STORED generated column is supported");
+
+        expect(statements).to.be.eql([]);
+    });
+
+});
@@ -0,0 +1,24 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+import {Index} from "../../../../../../src/decorator/Index";
+import {Author} from "./Author";
+
+@Entity({ interleave: { parent: () => Author } })
+@Index("IDX_book_title", ["authorId", "title"], { storing: ["isbn"], interleaveIn: () => Author })
+@Index("IDX_book_isbn", ["isbn"], { unique: true, nullFiltered: true })
+export class Book {
+
+    @PrimaryColumn()
+    authorId: number;
+
+    @PrimaryColumn()
+    bookId: number;
+
+    @Column()
+    title: string;
+
+    @Column({ nullable: true })
+    isbn: string;
+
+}
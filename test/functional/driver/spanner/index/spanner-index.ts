@@ -0,0 +1,55 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Author} from "./entity/Author";
+import {Book} from "./entity/Book";
+
+describe("spanner driver > index", () => {
+
+    let statements: string[];
+
+    // records schema updates instead of applying them
+    const createDriver = () => createStubSpannerDriver({
+        getSchema: async () => [[
+            "CREATE TABLE author (\n  authorId INT64 NOT NULL,\n  name STRING(255) NOT NULL,\n) PRIMARY KEY(authorId)",
+            "CREATE TABLE book (\n  authorId INT64 NOT NULL,\n  bookId INT64 NOT NULL,\n  title STRING(255) NOT NULL,\n  isbn STRING(255),\n) PRIMARY KEY(authorId, bookId),\n  INTERLEAVE IN PARENT author ON DELETE NO ACTION",
+            "CREATE INDEX IDX_book_title ON book(authorId, title DESC) STORING (isbn), INTERLEAVE IN author",
+            "CREATE UNIQUE NULL_FILTERED INDEX IDX_book_isbn ON book(isbn)",
+        ]],
+        updateSchema: async (ddl: string[]) => {
+            statements.push(...ddl);
+            return [{ promise: async () => undefined }];
+        }
+    });
+
+    beforeEach(() => statements = []);
+
+    it("should create STORING, NULL_FILTERED and interleaved indices of the entity", async () => {
+        const driver = await createDriver();
+        const [, book] = new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas([Author, Book]);
+
+        await driver.createQueryRunner().createTable(Table.create(book, driver));
+
+        expect(statements.slice(1)).to.have.members([
+            "CREATE INDEX `IDX_book_title` ON `book`(`authorId`, `title`) STORING (`isbn`), INTERLEAVE IN `author`",
+            "CREATE UNIQUE NULL_FILTERED INDEX `IDX_book_isbn` ON `book`(`isbn`)",
+        ]);
+    });
+
+    it("should read STORING, NULL_FILTERED and interleaved indices from the schema", async () => {
+        const driver = await createDriver();
+
+        const [book] = await driver.loadTables(["book"]);
+
+        const indices = book.indices.map(index => [index.name, index.columnNames, index.isUnique, index.isNullFiltered, index.storingColumnNames, index.interleaveIn]);
+        expect(indices).to.be.eql([
+            ["IDX_book_title", ["authorId", "title"], false, false, ["isbn"], "author"],
+            ["IDX_book_isbn", ["isbn"], true, true, [], undefined],
+        ]);
+        // single column unique index is read as unique column
+        expect(book.findColumnByName("isbn")!.isUnique).to.be.true;
+    });
+
+});
@@ -0,0 +1,18 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+import {Post} from "./Post";
+
+@Entity({ interleave: { parent: () => Post, onDelete: "CASCADE" } })
+export class Comment {
+
+    @PrimaryColumn()
+    postId: number;
+
+    @PrimaryColumn()
+    commentId: number;
+
+    @Column()
+    text: string;
+
+}
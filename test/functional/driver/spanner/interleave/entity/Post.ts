@@ -0,0 +1,14 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+
+@Entity()
+export class Post {
+
+    @PrimaryColumn()
+    postId: number;
+
+    @Column()
+    title: string;
+
+}
@@ -0,0 +1,20 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+
+/**
+ * Interleaved in post, but its primary key does not start with the primary key of post.
+ */
+@Entity({ interleave: { parent: "Post" } })
+export class Reply {
+
+    @PrimaryColumn()
+    replyId: number;
+
+    @PrimaryColumn()
+    postId: number;
+
+    @Column()
+    text: string;
+
+}
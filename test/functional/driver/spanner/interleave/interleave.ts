@@ -0,0 +1,71 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {EntityMetadataValidator} from "../../../../../src/metadata-builder/EntityMetadataValidator";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Comment} from "./entity/Comment";
+import {Post} from "./entity/Post";
+import {Reply} from "./entity/Reply";
+
+describe("spanner driver > interleave", () => {
+
+    let statements: string[];
+
+    // records schema updates instead of applying them
+    const createDriver = () => createStubSpannerDriver({
+        getSchema: async () => [[
+            "CREATE TABLE post (\n  postId INT64 NOT NULL,\n  title STRING(255) NOT NULL,\n) PRIMARY KEY(postId)",
+            "CREATE TABLE comment (\n  postId INT64 NOT NULL,\n  commentId INT64 NOT NULL,\n  text STRING(255) NOT NULL,\n) PRIMARY KEY(postId, commentId),\n  INTERLEAVE IN PARENT post ON DELETE CASCADE",
+        ]],
+        updateSchema: async (ddl: string[]) => {
+            statements.push(...ddl);
+            return [{ promise: async () => undefined }];
+        }
+    });
+
+    const buildEntityMetadatas = (driver: SpannerDriver, entities: Function[]) => {
+        const entityMetadatas = new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas(entities);
+        new EntityMetadataValidator().validateMany(entityMetadatas, driver);
+        return entityMetadatas;
+    };
+
+    beforeEach(() => statements = []);
+
+    it("should build parent of interleaved entity", async () => {
+        const driver = await createDriver();
+        const [post, comment] = buildEntityMetadatas(driver, [Post, Comment]);
+
+        expect(comment.interleaveParentEntityMetadata).to.be.equal(post);
+        expect(comment.interleaveOnDelete).to.be.equal("CASCADE");
+        expect(post.interleaveParentEntityMetadata).to.be.undefined;
+    });
+
+    it("should refuse interleaved entity which primary key does not start with primary key of the parent", async () => {
+        const driver = await createDriver();
+
+        expect(() => buildEntityMetadatas(driver, [Post, Reply])).to.throw("primary key should start with the primary columns of the parent (postId)");
+    });
+
+    it("should create interleaved table of the entity", async () => {
+        const driver = await createDriver();
+        const [, comment] = buildEntityMetadatas(driver, [Post, Comment]);
+
+        await driver.createQueryRunner().createTable(Table.create(comment, driver));
+
+        expect(statements).to.be.eql([
+            "CREATE TABLE `comment` (`postId` int64 NOT NULL, `commentId` int64 NOT NULL, `text` string(255) NOT NULL) PRIMARY KEY (`postId`, `commentId`), INTERLEAVE IN PARENT `post` ON DELETE CASCADE",
+        ]);
+    });
+
+    it("should read interleave of the table from the schema", async () => {
+        const driver = await createDriver();
+
+        const [post, comment] = await driver.loadTables(["post", "comment"]);
+
+        expect(post.interleave).to.be.undefined;
+        expect([comment.interleave!.parentTableName, comment.interleave!.onDelete]).to.be.eql(["post", "CASCADE"]);
+    });
+
+});
@@ -0,0 +1,89 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerQueryRunner} from "../../../../src/driver/spanner/SpannerQueryRunner";
+import {Table} from "../../../../src/schema-builder/table/Table";
+
+describe("spanner driver > migration run", () => {
+
+    let calls: any[][];
+    let createdTables: Table[];
+    let progress: number[];
+
+    // records schema updates and mutations instead of sending them to spanner.
+    // table created by schema update becomes visible only after the update is applied
+    const createQueryRunner = () => {
+        const database: any = {
+            updateSchema: async (statements: string[]) => {
+                calls.push(["updateSchema", statements]);
+                statements
+                    .filter(statement => /^CREATE TABLE post\b/.test(statement))
+                    .forEach(() => createdTables.push(new Table({ name: "post", columns: [{ name: "id", type: "int64", isPrimary: true }] })));
+                const operation = { on: () => operation, promise: async () => undefined, metadata: undefined };
+                return [operation];
+            },
+            table: (tableName: string) => ({
+                insert: async (rows: any) => { calls.push(["insert", tableName, rows]); }
+            })
+        };
+        const logger = { logQuery: () => {}, logQueryError: () => {}, logMigration: () => {} };
+        const driver: any = {
+            connection: { logger, options: {} },
+            getDatabaseHandle: async () => database,
+            loadTables: async (tableNames: string[]) => createdTables.filter(table => tableNames.indexOf(table.name) !== -1)
+        };
+        return new SpannerQueryRunner(driver);
+    };
+
+    // insert query builder of the migration, reduced to what query runner reads from it
+    const createInsertQueryBuilder = (queryRunner: SpannerQueryRunner): any => ({
+        connection: queryRunner.connection,
+        mainTableName: "post",
+        expressionMap: { queryType: "insert", valuesSet: [{ id: 1 }] }
+    });
+
+    const runMigration = async (queryRunner: SpannerQueryRunner, skipStatements: number) => {
+        queryRunner.startMigrationRun(skipStatements, async appliedStatements => { progress.push(appliedStatements); });
+        await queryRunner.query("CREATE TABLE post (id INT64 NOT NULL) PRIMARY KEY (id)");
+        await queryRunner.query("CREATE INDEX IDX_post_id ON post (id)");
+        await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner));
+        await queryRunner.finishMigrationRun();
+    };
+
+    beforeEach(() => {
+        calls = [];
+        createdTables = [];
+        progress = [];
+    });
+
+    it("should apply queued DDL before rows are written by query builder", async () => {
+        await runMigration(createQueryRunner(), 0);
+
+        expect(calls).to.be.eql([
+            ["updateSchema", ["CREATE TABLE post (id INT64 NOT NULL) PRIMARY KEY (id)", "CREATE INDEX IDX_post_id ON post (id)"]],
+            ["insert", "post", [{ id: 1 }]],
+        ]);
+        // both DDL statements and the write are counted as applied statements
+        expect(progress).to.be.eql([2, 3]);
+    });
+
+    it("should skip writes by query builder applied by the previous failed run", async () => {
+        createdTables.push(new Table({ name: "post", columns: [{ name: "id", type: "int64", isPrimary: true }] }));
+
+        await runMigration(createQueryRunner(), 3);
+
+        expect(calls).to.be.eql([]);
+        expect(progress).to.be.eql([]);
+    });
+
+    it("should resume after DDL statements applied by the previous failed run", async () => {
+        createdTables.push(new Table({ name: "post", columns: [{ name: "id", type: "int64", isPrimary: true }] }));
+
+        await runMigration(createQueryRunner(), 2);
+
+        expect(calls).to.be.eql([
+            ["insert", "post", [{ id: 1 }]],
+        ]);
+        expect(progress).to.be.eql([3]);
+    });
+
+});
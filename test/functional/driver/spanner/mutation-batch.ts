@@ -0,0 +1,102 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerQueryRunner} from "../../../../src/driver/spanner/SpannerQueryRunner";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > mutation batch", () => {
+
+    let calls: any[][];
+
+    // records mutations sent outside of transaction (one commit per call) and buffered into transaction
+    const createQueryRunner = async (options: any = {}) => {
+        const driver = await createStubSpannerDriver({
+            getSchema: async () => [[
+                "CREATE TABLE post (\n  id INT64 NOT NULL,\n  title STRING(255) NOT NULL,\n  views INT64,\n) PRIMARY KEY(id)",
+                "CREATE INDEX IDX_post_title ON post(title)",
+            ]],
+            table: (tableName: string) => ({
+                update: async (rows: any[]) => {
+                    calls.push(["update", tableName, rows.map(row => row.id)]);
+                    return [{}];
+                }
+            }),
+            getTransaction: async () => [{
+                update: (tableName: string, rows: any[]) => calls.push(["tx.update", tableName, rows.map(row => row.id)]),
+                commit: (callback: Function) => {
+                    calls.push(["tx.commit"]);
+                    callback(null, {});
+                }
+            }]
+        }, options);
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    // multi-row update query builder, reduced to what query runner reads from it
+    const createUpdateQueryBuilder = (queryRunner: SpannerQueryRunner, valuesSet: any[]): any => ({
+        connection: queryRunner.connection,
+        mainTableName: "post",
+        expressionMap: { queryType: "update", valuesSet, wheres: [], whereEntities: [] }
+    });
+
+    beforeEach(() => calls = []);
+
+    it("should split rows into commits by mutations of written columns and indices containing them", async () => {
+        const queryRunner = await createQueryRunner({ mutationLimit: 8 });
+
+        // each row writes 3 columns and the index of title, that is 4 mutations
+        const [, affected] = await queryRunner.queryByBuilder(createUpdateQueryBuilder(queryRunner, [
+            { id: 1, title: "first", views: 1 },
+            { id: 2, title: "second", views: 2 },
+            { id: 3, title: "third", views: 3 },
+        ]));
+
+        expect(affected).to.be.equal(3);
+        expect(calls).to.be.eql([
+            ["update", "post", [1, 2]],
+            ["update", "post", [3]],
+        ]);
+    });
+
+    it("should not count indices of columns the rows do not write", async () => {
+        const queryRunner = await createQueryRunner({ mutationLimit: 4 });
+
+        await queryRunner.queryByBuilder(createUpdateQueryBuilder(queryRunner, [
+            { id: 1, views: 1 },
+            { id: 2, views: 2 },
+            { id: 3, views: 3 },
+        ]));
+
+        expect(calls).to.be.eql([
+            ["update", "post", [1, 2]],
+            ["update", "post", [3]],
+        ]);
+    });
+
+    it("should buffer all rows into the transaction, which spanner checks on commit", async () => {
+        const queryRunner = await createQueryRunner({ mutationLimit: 4 });
+
+        await queryRunner.startTransaction();
+        await queryRunner.queryByBuilder(createUpdateQueryBuilder(queryRunner, [
+            { id: 1, title: "first", views: 1 },
+            { id: 2, title: "second", views: 2 },
+        ]));
+        await queryRunner.commitTransaction();
+
+        expect(calls).to.be.eql([
+            ["tx.update", "post", [1, 2]],
+            ["tx.commit"],
+        ]);
+    });
+
+    it("should refuse multi-row update of value sets without primary keys", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await queryRunner.queryByBuilder(createUpdateQueryBuilder(queryRunner, [
+            { id: 1, title: "first" },
+            { title: "second" },
+        ])).should.be.rejectedWith("every value set of multi-row spanner update should contain all primary keys of post");
+
+        expect(calls).to.be.eql([]);
+    });
+
+});
@@ -0,0 +1,17 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+
+@Entity()
+export class Product {
+
+    @PrimaryColumn()
+    id: number;
+
+    @Column({ type: "numeric" })
+    price: string;
+
+    @Column({ type: "json", nullable: true })
+    attributes: any;
+
+}
@@ -0,0 +1,73 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {ConnectionMetadataBuilder} from "../../../../../src/connection/ConnectionMetadataBuilder";
+import {SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {SpannerParameter} from "../../../../../src/driver/spanner/SpannerParameter";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Product} from "./entity/Product";
+
+describe("spanner driver > numeric and json", () => {
+
+    let calls: any[][];
+
+    // records query requests
+    const createDriver = () => createStubSpannerDriver({
+        run: (request: any, callback: Function) => {
+            calls.push(["run", request.sql, request.params, request.types]);
+            callback(null, [{ id: 1 }]);
+        }
+    });
+
+    const buildProductMetadata = (driver: SpannerDriver) => new ConnectionMetadataBuilder(driver.connection).buildEntityMetadatas([Product])[0];
+
+    beforeEach(() => calls = []);
+
+    it("should keep precision of numeric values and serialize json values", async () => {
+        const driver = await createDriver();
+        const product = buildProductMetadata(driver);
+        const price = product.findColumnWithPropertyName("price")!;
+        const attributes = product.findColumnWithPropertyName("attributes")!;
+
+        expect(driver.preparePersistentValue(12.5, price)).to.be.equal("12.5");
+        expect(driver.prepareHydratedValue({ value: "12.345678901234567890" }, price)).to.be.equal("12.345678901234567890");
+        expect(driver.preparePersistentValue({ color: "red" }, attributes)).to.be.equal("{\"color\":\"red\"}");
+        expect(driver.prepareHydratedValue("{\"color\":\"red\"}", attributes)).to.be.eql({ color: "red" });
+    });
+
+    it("should encode numeric and json parameters as strings converted in SQL", async () => {
+        const driver = await createDriver();
+
+        expect(driver.getStringEncodedParameter("price", "numeric")).to.be.eql({ type: "string", expression: "CAST(@price AS NUMERIC)" });
+        expect(driver.getStringEncodedParameter("attributes", "json")).to.be.eql({ type: "string", expression: "PARSE_JSON(@attributes)" });
+        expect(driver.getStringEncodedParameter("prices", { type: "array", child: "numeric" })).to.be.eql({
+            type: { type: "array", child: "string" },
+            expression: "ARRAY(SELECT CAST(element AS NUMERIC) FROM UNNEST(@prices) AS element WITH OFFSET AS element_offset ORDER BY element_offset)"
+        });
+        expect(driver.getStringEncodedParameter("id", "int64")).to.be.undefined;
+
+        expect(driver.prepareParameterValue(new SpannerParameter(12.5, "numeric"), "numeric")).to.be.equal("12.5");
+        expect(driver.prepareParameterValue({ color: "red" }, "json")).to.be.equal("{\"color\":\"red\"}");
+        expect(driver.prepareParameterValue([1.5, null], { type: "array", child: "numeric" })).to.be.eql(["1.5", null]);
+    });
+
+    it("should send numeric and json parameters of the query", async () => {
+        const driver = await createDriver();
+        const product = buildProductMetadata(driver);
+        const price = driver.parametrizeValue(product.findColumnWithPropertyName("price")!, "12.5");
+
+        // plain object is inferred as json
+        const result = await driver.createQueryRunner().query(
+            "SELECT id FROM product WHERE price = @price AND attributes = @attributes",
+            [{ price }, { attributes: { color: "red" } }]
+        );
+
+        expect(result).to.be.eql([{ id: 1 }]);
+        expect(calls).to.be.eql([
+            ["run",
+                "SELECT id FROM product WHERE price = CAST(@price AS NUMERIC) AND attributes = PARSE_JSON(@attributes)",
+                { price: "12.5", attributes: "{\"color\":\"red\"}" },
+                { price: "string", attributes: "string" }],
+        ]);
+    });
+
+});
@@ -0,0 +1,17 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+
+@Entity()
+export class Account {
+
+    @PrimaryColumn({ type: "int64" })
+    id: string;
+
+    @Column({ type: "date", nullable: true })
+    birthday: Date|null;
+
+    @Column({ type: "bytes", nullable: true })
+    avatar: Buffer|null;
+
+}
@@ -0,0 +1,108 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {SpannerParameter} from "../../../../../src/driver/spanner/SpannerParameter";
+import {SpannerParameterType} from "../../../../../src/driver/spanner/SpannerRawTypes";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Account} from "./entity/Account";
+
+describe("spanner driver > typed parameters", () => {
+
+    let calls: any[][];
+    let driver: SpannerDriver;
+
+    // records query requests, and returns INT64 wrapped by Spanner.int() like spanner client does for wrapNumbers
+    const createDriver = (options: any = {}) => createStubSpannerDriver({
+        run: (request: any, callback: Function) => {
+            calls.push(["run", request.sql, request.params, request.types, request.jsonOptions]);
+            callback(null, [{ id: driver.spannerLib.Spanner.int("9007199254740993"), balance: driver.spannerLib.Spanner.float(1.5) }]);
+        }
+    }, { entities: [Account], ...options });
+
+    const buildAccountMetadata = () => {
+        // connection of the stub is not connected, so metadatas are built here
+        (driver.connection as any).buildMetadatas();
+        return driver.connection.getMetadata(Account);
+    };
+
+    beforeEach(() => calls = []);
+
+    it("should infer spanner types of parameter values", async () => {
+        driver = await createDriver();
+        const Spanner = driver.spannerLib.Spanner;
+
+        expect(driver.getParameterType(null)).to.be.undefined;
+        expect(driver.getParameterType(true)).to.be.equal("bool");
+        expect(driver.getParameterType(1)).to.be.equal("int64");
+        expect(driver.getParameterType(1.5)).to.be.equal("float64");
+        expect(driver.getParameterType("text")).to.be.equal("string");
+        expect(driver.getParameterType(new Date())).to.be.equal("timestamp");
+        expect(driver.getParameterType(Buffer.from("text"))).to.be.equal("bytes");
+        expect(driver.getParameterType(new SpannerParameter("2018-07-01", "date"))).to.be.equal("date");
+        expect(driver.getParameterType(Spanner.int("9007199254740993"))).to.be.equal("int64");
+        expect(driver.getParameterType(Spanner.float(1.5))).to.be.equal("float64");
+        expect(driver.getParameterType([null, 1])).to.be.eql({ type: "array", child: "int64" });
+        expect(driver.getParameterType([null])).to.be.undefined;
+        expect(driver.getParameterType(Spanner.struct({ id: 1, name: "first", price: new SpannerParameter("1.5", "numeric") }))).to.be.eql({
+            type: "struct",
+            fields: [{ name: "id", type: "int64" }, { name: "name", type: "string" }, { name: "price", type: "string" }]
+        });
+    });
+
+    it("should type parameters by the column they are compared with", async () => {
+        driver = await createDriver();
+        const account = buildAccountMetadata();
+
+        // INT64 given as string keeps values beyond 2^53, and NULL is typed by the column
+        expect(driver.parametrizeValue(account.findColumnWithPropertyName("id")!, "9007199254740993")).to.be.eql(new SpannerParameter("9007199254740993", "int64"));
+        expect(driver.parametrizeValue(account.findColumnWithPropertyName("birthday")!, new Date(2018, 6, 1))).to.be.eql(new SpannerParameter("2018-07-01", "date"));
+        expect(driver.parametrizeValue(account.findColumnWithPropertyName("avatar")!, null)).to.be.eql(new SpannerParameter(null, "bytes"));
+
+        const [sql, parameters] = driver.connection.createQueryBuilder(Account, "account")
+            .whereInIds(["9007199254740993", "9007199254740995"])
+            .getQueryAndParameters();
+        expect(sql).to.contain("`account`.`id` IN (@qb_ids0, @qb_ids1)");
+        expect(parameters).to.be.eql([
+            { qb_ids0: new SpannerParameter("9007199254740993", "int64") },
+            { qb_ids1: new SpannerParameter("9007199254740995", "int64") },
+        ]);
+    });
+
+    it("should send parameters of raw query with their types", async () => {
+        driver = await createDriver();
+
+        await driver.createQueryRunner().query("SELECT id FROM account WHERE birthday = @birthday AND avatar = @avatar AND id IN UNNEST(@ids)", [
+            { birthday: new SpannerParameter("2018-07-01", "date") },
+            { avatar: new SpannerParameter(null, "bytes") },
+            { ids: [1, 2] },
+        ]);
+
+        expect(calls).to.be.eql([
+            ["run",
+                "SELECT id FROM account WHERE birthday = @birthday AND avatar = @avatar AND id IN UNNEST(@ids)",
+                { birthday: "2018-07-01", avatar: null, ids: [1, 2] },
+                { birthday: "date", avatar: "bytes", ids: { type: "array", child: "int64" } },
+                undefined],
+        ]);
+    });
+
+    it("should convert plain object given for struct parameter into struct", async () => {
+        driver = await createDriver();
+        const type: SpannerParameterType = { type: "struct", fields: [{ name: "id", type: "int64" }] };
+
+        const value = driver.prepareParameterValue(new SpannerParameter({ id: 1 }, type), type);
+
+        expect(value.constructor.name).to.be.equal("Struct");
+        expect(Array.from(value)).to.be.eql([{ name: "id", value: 1 }]);
+    });
+
+    it("should read INT64 values as strings without rounding if bigNumberStrings is enabled", async () => {
+        driver = await createDriver({ bigNumberStrings: true });
+
+        const result = await driver.createQueryRunner().query("SELECT id, balance FROM account");
+
+        expect(result).to.be.eql([{ id: "9007199254740993", balance: 1.5 }]);
+        expect(calls[0][4]).to.be.eql({ wrapNumbers: true });
+    });
+
+});
@@ -0,0 +1,64 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerQueryRunner} from "../../../../src/driver/spanner/SpannerQueryRunner";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > partitioned dml", () => {
+
+    let calls: any[][];
+
+    // runs partitioned DML by spanner stub, which reports 100 as lower bound of affected rows
+    const createQueryRunner = async () => {
+        const driver = await createStubSpannerDriver({
+            runPartitionedUpdate: (request: any, callback: Function) => {
+                calls.push(["runPartitionedUpdate", request.sql, request.params]);
+                callback(null, 100);
+            },
+            getTransaction: async () => [{ end: () => {} }]
+        });
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    // update/delete query builder using partitioned DML, reduced to what query runner reads from it
+    const createQueryBuilder = (queryRunner: SpannerQueryRunner, queryType: string, query: string, parameters: any[]): any => ({
+        connection: queryRunner.connection,
+        mainTableName: "post",
+        expressionMap: { queryType, partitionedDml: true },
+        getQueryAndParameters: () => [query, parameters]
+    });
+
+    beforeEach(() => calls = []);
+
+    it("should run update and delete by partitioned DML and report lower bound of affected rows", async () => {
+        const queryRunner = await createQueryRunner();
+
+        const [, updated] = await queryRunner.queryByBuilder(createQueryBuilder(queryRunner, "update", "UPDATE `post` SET `views` = @views WHERE true", [{ views: 0 }]));
+        const [, deleted] = await queryRunner.queryByBuilder(createQueryBuilder(queryRunner, "delete", "DELETE FROM `post` WHERE `views` = @views", [{ views: 0 }]));
+
+        expect([updated, deleted]).to.be.eql([100, 100]);
+        expect(calls).to.be.eql([
+            ["runPartitionedUpdate", "UPDATE `post` SET `views` = @views WHERE true", { views: 0 }],
+            ["runPartitionedUpdate", "DELETE FROM `post` WHERE `views` = @views", { views: 0 }],
+        ]);
+    });
+
+    it("should refuse partitioned DML inside transaction", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction();
+
+        await queryRunner.queryByBuilder(createQueryBuilder(queryRunner, "delete", "DELETE FROM `post` WHERE true", []))
+            .should.be.rejectedWith("partitioned DML cannot be executed inside transaction");
+
+        expect(calls).to.be.eql([]);
+    });
+
+    it("should refuse statements referring other tables", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await queryRunner.queryByBuilder(createQueryBuilder(queryRunner, "delete", "DELETE FROM `post` WHERE `authorId` IN (SELECT `id` FROM `author` WHERE `active` = false)", []))
+            .should.be.rejectedWith("refers author other than post");
+
+        expect(calls).to.be.eql([]);
+    });
+
+});
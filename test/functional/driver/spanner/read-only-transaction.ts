@@ -0,0 +1,106 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerQueryRunner} from "../../../../src/driver/spanner/SpannerQueryRunner";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > read-only transaction", () => {
+
+    let calls: any[][];
+
+    // result stream of spanner client, which emits the response metadata and rows once it is listened
+    const createStream = (rows: any[], metadata: any = {}) => {
+        const handlers: { [event: string]: Function } = {};
+        const stream: any = {
+            on: (event: string, handler: Function) => {
+                handlers[event] = handler;
+                return stream;
+            }
+        };
+        setImmediate(() => {
+            handlers["response"]({ metadata });
+            rows.forEach(row => handlers["data"](row));
+            handlers["end"]();
+        });
+        return stream;
+    };
+
+    const createQueryRunner = async () => {
+        const driver = await createStubSpannerDriver({
+            getSchema: async () => [["CREATE TABLE post (\n  id INT64 NOT NULL,\n) PRIMARY KEY(id)"]],
+            getTransaction: async (options: any) => {
+                calls.push(["getTransaction", options]);
+                return [{
+                    readTimestamp: new Date("2018-07-01T00:00:00Z"),
+                    runStream: (request: any) => {
+                        calls.push(["tx.runStream", request.sql]);
+                        return createStream([{ id: 1 }]);
+                    },
+                    end: () => calls.push(["tx.end"])
+                }];
+            },
+            runStream: (request: any, options: any) => {
+                calls.push(["runStream", request.sql, options]);
+                return createStream([{ id: 1 }], { transaction: { readTimestamp: { seconds: "1530403200", nanos: 0 } } });
+            }
+        });
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    beforeEach(() => calls = []);
+
+    it("should read in snapshot transaction with the timestamp bound", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction({ readOnly: { exactStaleness: 10 } });
+        expect(queryRunner.isReadOnly()).to.be.true;
+
+        expect(await queryRunner.query("SELECT id FROM post")).to.be.eql([{ id: 1 }]);
+        expect(queryRunner.getReadTimestamp()).to.be.eql(new Date("2018-07-01T00:00:00Z"));
+
+        await queryRunner.commitTransaction();
+        expect(queryRunner.isReadOnly()).to.be.false;
+        expect(calls).to.be.eql([
+            ["getTransaction", { exactStaleness: 10, readOnly: true }],
+            ["tx.runStream", "SELECT id FROM post"],
+            ["tx.end"],
+        ]);
+    });
+
+    it("should start strong read-only transaction by readOnly true", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction({ readOnly: true });
+        await queryRunner.rollbackTransaction();
+
+        expect(calls).to.be.eql([
+            ["getTransaction", { strong: true, readOnly: true }],
+            ["tx.end"],
+        ]);
+    });
+
+    it("should read by single-use reads with max staleness and remember the timestamp spanner selected", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction({ readOnly: { maxStaleness: 15 } });
+        expect(queryRunner.getReadTimestamp()).to.be.undefined;
+
+        expect(await queryRunner.query("SELECT id FROM post")).to.be.eql([{ id: 1 }]);
+        expect(queryRunner.getReadTimestamp()).to.be.eql(new Date("2018-07-01T00:00:00Z"));
+        await queryRunner.commitTransaction();
+
+        // spanner accepts max staleness only for single-use reads, so no transaction is started
+        expect(calls).to.be.eql([
+            ["runStream", "SELECT id FROM post", { maxStaleness: 15, returnReadTimestamp: true }],
+        ]);
+    });
+
+    it("should refuse writes in read-only transaction", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction({ readOnly: true });
+
+        await queryRunner.query("DELETE FROM post WHERE id = 1").should.be.rejectedWith("cannot execute DML in read-only transaction");
+        await queryRunner.queryByBuilder({
+            connection: queryRunner.connection,
+            mainTableName: "post",
+            expressionMap: { queryType: "insert", valuesSet: [{ id: 2 }] }
+        } as any).should.be.rejectedWith("cannot insert post in read-only transaction");
+    });
+
+});
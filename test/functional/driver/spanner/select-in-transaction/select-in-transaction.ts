@@ -0,0 +1,92 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerDriver} from "../../../../../src/driver/spanner/SpannerDriver";
+import {SpannerQueryRunner} from "../../../../../src/driver/spanner/SpannerQueryRunner";
+import {PessimisticLockTransactionRequiredError} from "../../../../../src/error/PessimisticLockTransactionRequiredError";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Author} from "./entity/Author";
+import {Post} from "./entity/Post";
+
+describe("spanner driver > select in transaction", () => {
+
+    let calls: any[][];
+    let driver: SpannerDriver;
+
+    // rows of the joined query, returned both by the database and by the transaction
+    const rows = [{ post_id: 1, post_title: "first", author_id: 1, author_name: "author" }];
+
+    const createQueryRunner = async () => {
+        driver = await createStubSpannerDriver({
+            run: (request: any, callback: Function) => {
+                calls.push(["run", request.sql]);
+                callback(null, rows);
+            },
+            getTransaction: async () => [{
+                run: (request: any, callback: Function) => {
+                    calls.push(["tx.run", request.sql]);
+                    if (request.sql.indexOf("aborted") !== -1)
+                        return callback({ code: 10, message: "aborted" });
+                    callback(null, rows);
+                },
+                end: () => {}
+            }]
+        }, { entities: [Author, Post] });
+        // connection of the stub is not connected, so metadatas are built here
+        (driver.connection as any).buildMetadatas();
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    const createSelectQueryBuilder = (queryRunner: SpannerQueryRunner) => driver.connection.createQueryBuilder(Post, "post", queryRunner)
+        .leftJoinAndSelect("post.author", "author")
+        .orderBy("post.id");
+
+    beforeEach(() => calls = []);
+
+    it("should run the whole query through the active transaction", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction();
+
+        const posts = await createSelectQueryBuilder(queryRunner).getMany();
+
+        expect(posts).to.be.eql([Object.assign(new Post(), { id: 1, title: "first", author: Object.assign(new Author(), { id: 1, name: "author" }) })]);
+        expect(calls).to.have.length(1);
+        expect(calls[0][0]).to.be.equal("tx.run");
+        expect(calls[0][1]).to.contain("LEFT JOIN `author` `author`").and.contain("ORDER BY `post`.`id` ASC");
+    });
+
+    it("should run the query by the database outside of transaction", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await createSelectQueryBuilder(queryRunner).getMany();
+
+        expect(calls.map(call => call[0])).to.be.eql(["run"]);
+    });
+
+    it("should lock rows read by pessimistic_write lock inside read-write transaction", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await createSelectQueryBuilder(queryRunner).setLock("pessimistic_write").getMany()
+            .should.be.rejectedWith(PessimisticLockTransactionRequiredError);
+
+        await queryRunner.startTransaction({ readOnly: true });
+        await createSelectQueryBuilder(queryRunner).setLock("pessimistic_write").getMany()
+            .should.be.rejectedWith("Pessimistic lock cannot be taken in spanner read-only transaction.");
+        await queryRunner.commitTransaction();
+
+        await queryRunner.startTransaction();
+        await createSelectQueryBuilder(queryRunner).setLock("pessimistic_write").getMany();
+
+        expect(calls.map(call => call[0])).to.be.eql(["tx.run"]);
+        expect(calls[0][1]).to.match(/ FOR UPDATE$/);
+    });
+
+    it("should release the transaction spanner aborted while reading", async () => {
+        const queryRunner = await createQueryRunner();
+        await queryRunner.startTransaction();
+
+        await queryRunner.query("SELECT 'aborted'").should.be.rejectedWith("aborted");
+
+        expect(queryRunner.isTransactionActive).to.be.false;
+    });
+
+});
@@ -0,0 +1,114 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {SpannerQueryRunner} from "../../../../src/driver/spanner/SpannerQueryRunner";
+import {TableColumn} from "../../../../src/schema-builder/table/TableColumn";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > table rebuild", () => {
+
+    let calls: any[][];
+
+    // records schema updates and copied rows. rows are read from stream of spanner client, as arrays of fields
+    const createQueryRunner = async (options: any = {}) => {
+        const driver = await createStubSpannerDriver({
+            getSchema: async () => [[
+                "CREATE TABLE post (\n  id INT64 NOT NULL,\n  views INT64,\n) PRIMARY KEY(id)",
+                "CREATE INDEX IDX_post_views ON post(views)",
+            ]],
+            updateSchema: async (ddl: string[]) => {
+                calls.push(...ddl.map(statement => ["updateSchema", statement]));
+                return [{ promise: async () => undefined }];
+            },
+            runStream: (request: any) => {
+                calls.push(["runStream", request.sql]);
+                const handlers: { [event: string]: Function } = {};
+                const stream: any = {
+                    on: (event: string, handler: Function) => {
+                        handlers[event] = handler;
+                        return stream;
+                    }
+                };
+                setImmediate(() => {
+                    handlers["data"]([{ name: "id", value: 1 }, { name: "views", value: "10" }]);
+                    handlers["end"]();
+                });
+                return stream;
+            },
+            table: (tableName: string) => ({
+                insert: async (rows: any[]) => {
+                    calls.push(["insert", tableName, rows]);
+                    return [{}];
+                }
+            })
+        }, options);
+        return driver.createQueryRunner() as SpannerQueryRunner;
+    };
+
+    const changeViewsToString = async (queryRunner: SpannerQueryRunner) => {
+        const table = (await queryRunner.getTable("post"))!;
+        const views = table.findColumnByName("views")!;
+        const newViews = new TableColumn({ name: "views", type: "string", length: "MAX", isNullable: true });
+        await queryRunner.changeColumn(table, views, newViews);
+    };
+
+    beforeEach(() => calls = []);
+
+    it("should alter column if spanner can change it by ALTER TABLE", async () => {
+        const queryRunner = await createQueryRunner();
+        const table = (await queryRunner.getTable("post"))!;
+        const views = table.findColumnByName("views")!;
+        const newViews = views.clone();
+        newViews.isNullable = false;
+
+        // only single column index prevents change of nullable
+        const findChange = (queryRunner as any).findUnalterableColumnChange.bind(queryRunner);
+        expect(findChange(table, views, newViews)).to.be.equal("change nullable for views, which is indexed");
+        table.indices = [];
+        expect(findChange(table, views, newViews)).to.be.undefined;
+
+        const bytesColumn = new TableColumn({ name: "title", type: "bytes", length: "255" });
+        const stringColumn = new TableColumn({ name: "title", type: "string", length: "MAX" });
+        expect(findChange(table, bytesColumn, stringColumn)).to.be.undefined;
+        expect(findChange(table, views, new TableColumn({ name: "views", type: "string", isNullable: true }))).to.be.equal("change column type int64 => string");
+    });
+
+    it("should refuse change ALTER TABLE cannot do unless table rebuild is allowed", async () => {
+        const queryRunner = await createQueryRunner();
+
+        await changeViewsToString(queryRunner).should.be.rejectedWith("NYI: spanner: changeColumn: change column type int64 => string. enable allowTableRebuild");
+
+        expect(calls).to.be.eql([]);
+    });
+
+    it("should rebuild table by copying rows into new table and swapping it with old one", async () => {
+        const queryRunner = await createQueryRunner({ allowTableRebuild: true });
+
+        await changeViewsToString(queryRunner);
+
+        expect(calls).to.be.eql([
+            ["updateSchema", "CREATE TABLE `post_rebuild` (`id` int64 NOT NULL, `views` string(MAX)) PRIMARY KEY (`id`)"],
+            ["runStream", "SELECT `id`, CAST(`views` AS STRING) AS `views` FROM `post`"],
+            ["insert", "post_rebuild", [{ id: 1, views: "10" }]],
+            ["updateSchema", "DROP INDEX `IDX_post_views`"],
+            ["updateSchema", "DROP TABLE `post`"],
+            ["updateSchema", "CREATE TABLE `post` (`id` int64 NOT NULL, `views` string(MAX)) PRIMARY KEY (`id`)"],
+            ["runStream", "SELECT `id`, `views` FROM `post_rebuild`"],
+            ["insert", "post", [{ id: 1, views: "10" }]],
+            ["updateSchema", "DROP TABLE `post_rebuild`"],
+            ["updateSchema", "CREATE INDEX `IDX_post_views` ON `post`(`views`)"],
+        ]);
+    });
+
+    it("should record rebuild as queries of the migration", async () => {
+        const queryRunner = await createQueryRunner({ allowTableRebuild: true });
+        queryRunner.enableSqlMemory();
+
+        await changeViewsToString(queryRunner);
+
+        const sqlInMemory = queryRunner.getMemorySql();
+        expect(sqlInMemory.upQueries).to.contain("/* batched copy */ INSERT INTO `post_rebuild` (`id`, `views`) SELECT `id`, CAST(`views` AS STRING) AS `views` FROM `post`");
+        expect(sqlInMemory.downQueries).to.contain("/* batched copy */ INSERT INTO `post` (`id`, `views`) SELECT `id`, CAST(`views` AS INT64) AS `views` FROM `post_rebuild`");
+        expect(calls).to.be.eql([]);
+    });
+
+});
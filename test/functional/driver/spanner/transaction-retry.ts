@@ -0,0 +1,81 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {QueryFailedError} from "../../../../src/error/QueryFailedError";
+import {createStubSpannerDriver} from "../../../utils/spanner-stub";
+
+describe("spanner driver > transaction retry", () => {
+
+    let commitErrors: any[];
+    let commits: number;
+
+    // commits transactions by spanner stub, which fails commits with given errors in order
+    const createManager = async (options: any = {}) => {
+        const driver = await createStubSpannerDriver({
+            getTransaction: async () => [{
+                commit: (callback: Function) => {
+                    const err = commitErrors.shift();
+                    if (!err)
+                        commits++;
+                    callback(err, err ? undefined : {});
+                },
+                rollback: (callback: Function) => callback(),
+                end: () => {}
+            }]
+        }, options);
+        // retry without waiting for the backoff
+        driver.getTransactionRetryDelay = () => 0;
+        return driver.connection.manager;
+    };
+
+    beforeEach(() => {
+        commitErrors = [];
+        commits = 0;
+    });
+
+    it("should run the callback again when spanner aborts the transaction", async () => {
+        commitErrors = [{ code: 10, message: "aborted" }, { code: 10, message: "aborted" }];
+
+        let runs = 0;
+        const result = await (await createManager()).transaction(async () => ++runs);
+
+        expect(result).to.be.equal(3);
+        expect(commits).to.be.equal(1);
+    });
+
+    it("should fail with the aborted error after the retry limit", async () => {
+        commitErrors = [{ code: 10, message: "aborted" }, { code: 10, message: "aborted" }, { code: 10, message: "aborted" }];
+
+        let runs = 0;
+        await (await createManager({ transactionRetryLimit: 2 })).transaction(async () => ++runs).should.be.rejectedWith("aborted");
+
+        expect(runs).to.be.equal(3);
+        expect(commits).to.be.equal(0);
+    });
+
+    it("should not run the callback again when it fails by other errors", async () => {
+        let runs = 0;
+        await (await createManager()).transaction(async () => {
+            runs++;
+            throw new Error("callback failed");
+        }).should.be.rejectedWith("callback failed");
+
+        expect(runs).to.be.equal(1);
+    });
+
+    it("should detect aborted error wrapped by QueryFailedError", async () => {
+        const driver = await createStubSpannerDriver();
+        expect(driver.isTransactionAbortedError(new QueryFailedError("SELECT 1", [], { code: 10, message: "aborted" }))).to.be.true;
+        expect(driver.isTransactionAbortedError(new QueryFailedError("SELECT 1", [], { code: 6, message: "already exists" }))).to.be.false;
+        expect(driver.isTransactionAbortedError(undefined)).to.be.false;
+    });
+
+    it("should wait exponential backoff when spanner gives no retry delay", async () => {
+        const driver = await createStubSpannerDriver();
+        const delays = [1, 2, 3].map(attempts => driver.getTransactionRetryDelay({ code: 10 }, attempts));
+
+        expect(delays[0]).to.be.within(2000, 2999);
+        expect(delays[1]).to.be.within(4000, 4999);
+        expect(delays[2]).to.be.within(8000, 8999);
+    });
+
+});
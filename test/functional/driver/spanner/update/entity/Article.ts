@@ -0,0 +1,27 @@
+import {Entity} from "../../../../../../src/decorator/entity/Entity";
+import {PrimaryColumn} from "../../../../../../src/decorator/columns/PrimaryColumn";
+import {Column} from "../../../../../../src/decorator/columns/Column";
+import {VersionColumn} from "../../../../../../src/decorator/columns/VersionColumn";
+import {UpdateDateColumn} from "../../../../../../src/decorator/columns/UpdateDateColumn";
+
+@Entity()
+export class Article {
+
+    @PrimaryColumn()
+    id: number;
+
+    @Column({
+        transformer: {
+            to: (value: string) => value.toUpperCase(),
+            from: (value: string) => value.toLowerCase()
+        }
+    })
+    title: string;
+
+    @VersionColumn()
+    version: number;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+
+}
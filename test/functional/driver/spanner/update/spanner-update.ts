@@ -0,0 +1,125 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Connection} from "../../../../../src/connection/Connection";
+import {closeTestingConnections, createTestingConnections, reloadTestingDatabases} from "../../../../utils/test-utils";
+import {Post} from "./entity/Post";
+import {Article} from "./entity/Article";
+
+describe("spanner driver > update", () => {
+
+    let connections: Connection[];
+    before(async () => connections = await createTestingConnections({
+        entities: [__dirname + "/entity/*{.js,.ts}"],
+        enabledDrivers: ["spanner"]
+    }));
+    beforeEach(() => reloadTestingDatabases(connections));
+    after(() => closeTestingConnections(connections));
+
+    const insertPosts = (connection: Connection) => connection.manager.save([
+        Object.assign(new Post(), { id: 1, title: "first" }),
+        Object.assign(new Post(), { id: 2, title: "second" }),
+    ]);
+
+    const loadTitles = async (connection: Connection) => {
+        const posts = await connection.manager.find(Post, { order: { id: "ASC" } });
+        return posts.map(post => post.title);
+    };
+
+    it("should update the row of value set containing primary keys", () => Promise.all(connections.map(async connection => {
+        await insertPosts(connection);
+
+        const result = await connection.createQueryBuilder()
+            .update(Post)
+            .set({ id: 2, title: "updated" })
+            .execute();
+
+        expect(result.affected).to.be.equal(1);
+        expect(await loadTitles(connection)).to.be.eql(["first", "updated"]);
+    })));
+
+    it("should update the row of value set containing primary keys only if where conditions match", () => Promise.all(connections.map(async connection => {
+        await insertPosts(connection);
+
+        const notMatched = await connection.createQueryBuilder()
+            .update(Post)
+            .set({ id: 1, title: "updated" })
+            .where("title = :title", { title: "second" })
+            .execute();
+        expect(notMatched.affected).to.be.equal(0);
+        expect(await loadTitles(connection)).to.be.eql(["first", "second"]);
+
+        const matched = await connection.createQueryBuilder()
+            .update(Post)
+            .set({ id: 1, title: "updated" })
+            .where("title = :title OR title = :otherTitle", { title: "first", otherTitle: "second" })
+            .execute();
+        expect(matched.affected).to.be.equal(1);
+        expect(await loadTitles(connection)).to.be.eql(["updated", "second"]);
+    })));
+
+    it("should report the number of rows updated by multi-row update", () => Promise.all(connections.map(async connection => {
+        await insertPosts(connection);
+
+        const result = await connection.createQueryBuilder()
+            .update(Post)
+            .set([{ id: 1, title: "first updated" }, { id: 2, title: "second updated" }])
+            .execute();
+
+        expect(result.affected).to.be.equal(2);
+        expect(await loadTitles(connection)).to.be.eql(["first updated", "second updated"]);
+    })));
+
+    it("should refuse multi-row update with where conditions other than whereEntity", () => Promise.all(connections.map(async connection => {
+        await insertPosts(connection);
+
+        await connection.createQueryBuilder()
+            .update(Post)
+            .set([{ id: 1, title: "first updated" }, { id: 2, title: "second updated" }])
+            .where("title = :title", { title: "first" })
+            .execute()
+            .should.be.rejectedWith(Error);
+
+        expect(await loadTitles(connection)).to.be.eql(["first", "second"]);
+    })));
+
+    describe("of entities saved together", () => {
+
+        const loadRawArticles = (connection: Connection) => connection.createQueryBuilder()
+            .select()
+            .from("article", "article")
+            .orderBy("id", "ASC")
+            .getRawMany();
+
+        // saves articles, and updates all of them by single save, which writes them as one multi-row update
+        const updateArticles = async (connection: Connection) => {
+            await connection.manager.save([
+                Object.assign(new Article(), { id: 1, title: "first" }),
+                Object.assign(new Article(), { id: 2, title: "second" }),
+            ]);
+            const before = await loadRawArticles(connection);
+            const articles = await connection.manager.find(Article, { order: { id: "ASC" } });
+            articles.forEach(article => article.title += " updated");
+            await connection.manager.save(articles);
+            return [before, await loadRawArticles(connection)];
+        };
+
+        it("should write values transformed and prepared by the driver", () => Promise.all(connections.map(async connection => {
+            const [, after] = await updateArticles(connection);
+
+            expect(after.map(row => row["title"])).to.be.eql(["FIRST UPDATED", "SECOND UPDATED"]);
+            const articles = await connection.manager.find(Article, { order: { id: "ASC" } });
+            expect(articles.map(article => article.title)).to.be.eql(["first updated", "second updated"]);
+        })));
+
+        it("should increment versions and renew update dates", () => Promise.all(connections.map(async connection => {
+            const [before, after] = await updateArticles(connection);
+
+            after.forEach((row, index) => {
+                expect(Number(row["version"])).to.be.equal(Number(before[index]["version"]) + 1);
+                expect(new Date(row["updatedAt"]).getTime()).to.be.greaterThan(new Date(before[index]["updatedAt"]).getTime());
+            });
+        })));
+
+    });
+
+});
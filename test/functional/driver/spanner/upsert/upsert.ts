@@ -0,0 +1,113 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Connection} from "../../../../../src/connection/Connection";
+import {SpannerQueryRunner} from "../../../../../src/driver/spanner/SpannerQueryRunner";
+import {closeTestingConnections, createTestingConnections, reloadTestingDatabases} from "../../../../utils/test-utils";
+import {createStubSpannerDriver} from "../../../../utils/spanner-stub";
+import {Post} from "./entity/Post";
+
+describe("spanner driver > upsert", () => {
+
+    describe("with spanner", () => {
+
+        let connections: Connection[];
+        before(async () => connections = await createTestingConnections({
+            entities: [Post],
+            enabledDrivers: ["spanner"]
+        }));
+        beforeEach(() => reloadTestingDatabases(connections));
+        after(() => closeTestingConnections(connections));
+
+        it("should insert new rows and update existing rows", () => Promise.all(connections.map(async connection => {
+            await connection.manager.save(Object.assign(new Post(), { id: 1, title: "first", text: "first text" }));
+
+            await connection.getRepository(Post).upsert([{ id: 1, title: "first updated" }, { id: 2, title: "second" }]);
+
+            const posts = await connection.manager.find(Post, { order: { id: "ASC" } });
+            expect(posts.map(post => [post.id, post.title, post.text])).to.be.eql([
+                [1, "first updated", "first text"],
+                [2, "second", null],
+            ]);
+        })));
+
+        it("should reset columns not given by replace", () => Promise.all(connections.map(async connection => {
+            await connection.manager.save(Object.assign(new Post(), { id: 1, title: "first", text: "first text" }));
+
+            await connection.createQueryBuilder()
+                .insert()
+                .into(Post)
+                .values({ id: 1, title: "first replaced" })
+                .orReplace()
+                .execute();
+
+            const post = await connection.manager.findOne(Post, 1);
+            expect([post!.title, post!.text]).to.be.eql(["first replaced", null]);
+        })));
+
+    });
+
+    describe("with other drivers", () => {
+
+        let connections: Connection[];
+        before(async () => connections = await createTestingConnections({
+            entities: [Post],
+            enabledDrivers: ["mysql", "mariadb", "postgres", "sqlite", "sqljs"]
+        }));
+        after(() => closeTestingConnections(connections));
+
+        it("should refuse orUpdate and orReplace", () => Promise.all(connections.map(async connection => {
+            expect(() => connection.createQueryBuilder().insert().into(Post).values({ id: 1, title: "first" }).orUpdate()).to.throw(Error);
+            expect(() => connection.createQueryBuilder().insert().into(Post).values({ id: 1, title: "first" }).orReplace()).to.throw(Error);
+        })));
+
+    });
+
+    describe("mutations", () => {
+
+        let calls: any[][];
+
+        const createQueryRunner = async () => {
+            const record = (method: string, tableName: string) => async (rows: any[]) => {
+                calls.push([method, tableName, rows]);
+                return [{}];
+            };
+            const driver = await createStubSpannerDriver({
+                getSchema: async () => [["CREATE TABLE post (\n  id INT64 NOT NULL,\n  title STRING(255) NOT NULL,\n  text STRING(255),\n) PRIMARY KEY(id)"]],
+                table: (tableName: string) => ({ upsert: record("upsert", tableName), replace: record("replace", tableName) })
+            });
+            return driver.createQueryRunner() as SpannerQueryRunner;
+        };
+
+        // insert query builder with orUpdate or orReplace, reduced to what query runner reads from it
+        const createInsertQueryBuilder = (queryRunner: SpannerQueryRunner, onDuplicate: "update"|"replace", valuesSet: any[]): any => ({
+            connection: queryRunner.connection,
+            mainTableName: "post",
+            expressionMap: { queryType: "insert", onDuplicate, valuesSet }
+        });
+
+        beforeEach(() => calls = []);
+
+        it("should write value sets by insertOrUpdate and replace mutations", async () => {
+            const queryRunner = await createQueryRunner();
+
+            await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner, "update", [{ id: 1, title: "first" }, { id: 2, title: "second" }]));
+            await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner, "replace", [{ id: 1, title: "first" }]));
+
+            expect(calls).to.be.eql([
+                ["upsert", "post", [{ id: 1, title: "first" }, { id: 2, title: "second" }]],
+                ["replace", "post", [{ id: 1, title: "first" }]],
+            ]);
+        });
+
+        it("should refuse value sets without primary keys", async () => {
+            const queryRunner = await createQueryRunner();
+
+            await queryRunner.queryByBuilder(createInsertQueryBuilder(queryRunner, "update", [{ title: "first" }]))
+                .should.be.rejectedWith("every value set of spanner upsert should contain all primary keys of post");
+
+            expect(calls).to.be.eql([]);
+        });
+
+    });
+
+});
@@ -0,0 +1,183 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Connection} from "../../../../src/connection/Connection";
+import {MigrationExecutor} from "../../../../src/migration/MigrationExecutor";
+import {MigrationChecksumMismatchError} from "../../../../src/error/MigrationChecksumMismatchError";
+import {SpannerDriver} from "../../../../src/driver/spanner/SpannerDriver";
+import {Logger} from "../../../../src/logger/Logger";
+import {Table} from "../../../../src/schema-builder/table/Table";
+import {closeTestingConnections, createTestingConnections, reloadTestingDatabases} from "../../../utils/test-utils";
+import {First1530000000001} from "./migration/First1530000000001";
+import {Second1530000000002} from "./migration/Second1530000000002";
+
+/**
+ * Collects warnings logged by the connections.
+ */
+class WarningLogger implements Logger {
+
+    warnings: string[] = [];
+
+    logQuery() {
+    }
+
+    logQueryError() {
+    }
+
+    logQuerySlow() {
+    }
+
+    logSchemaBuild() {
+    }
+
+    logMigration() {
+    }
+
+    log(level: "log"|"info"|"warn", message: any) {
+        if (level === "warn")
+            this.warnings.push(message);
+    }
+
+}
+
+describe("migrations > checksum", () => {
+
+    const logger = new WarningLogger();
+
+    const loadExecutedMigrations = async (connection: Connection): Promise<{ name: string, checksum: string|null }[]> => {
+        const rows = await connection.createQueryBuilder()
+            .select()
+            .from("migrations", "migrations")
+            .getRawMany();
+        return rows
+            .map(row => ({ name: row["name"], checksum: row["checksum"] }))
+            .sort((a, b) => a.name < b.name ? -1 : 1);
+    };
+
+    // records migration as executed, as the executor does after the migration runs.
+    // spanner has no generated id, and stores timestamp of the migration as timestamp
+    const insertExecutedMigration = async (connection: Connection, timestamp: number, name: string, checksum?: string) => {
+        const values = connection.driver instanceof SpannerDriver ? { id: timestamp, timestamp: new Date(timestamp).toISOString(), name } : { timestamp, name };
+        await connection.createQueryBuilder()
+            .insert()
+            .into("migrations")
+            .values(checksum ? { ...values, checksum } : values)
+            .execute();
+    };
+
+    // records First1530000000001 as executed with the checksum of its different source
+    const insertChangedMigration = async (connection: Connection) => {
+        // migrations tables are created by repairing checksums, which updates nothing while no migration is executed
+        await new MigrationExecutor(connection).repairMigrationChecksums();
+        await insertExecutedMigration(connection, 1530000000001, "First1530000000001", "changed");
+    };
+
+    describe("with migrationsChecksumMismatch \"warn\"", () => {
+
+        let connections: Connection[];
+        before(async () => connections = await createTestingConnections({
+            enabledDrivers: ["mysql", "mariadb", "postgres", "sqlite", "sqljs", "spanner"],
+            driverSpecific: {
+                migrations: [First1530000000001, Second1530000000002],
+                logger
+            }
+        }));
+        beforeEach(async () => {
+            logger.warnings = [];
+            await reloadTestingDatabases(connections);
+        });
+        after(() => closeTestingConnections(connections));
+
+        it("should record checksum of executed migrations", () => Promise.all(connections.map(async connection => {
+            await new MigrationExecutor(connection).executePendingMigrations();
+
+            const executedMigrations = await loadExecutedMigrations(connection);
+            expect(executedMigrations.map(migration => migration.name)).to.be.eql(["First1530000000001", "Second1530000000002"]);
+            executedMigrations.forEach(migration => expect(migration.checksum).to.match(/^[0-9a-f]{64}$/));
+
+            // checksum of unchanged migration is verified without warning
+            await new MigrationExecutor(connection).executePendingMigrations();
+            expect(logger.warnings).to.be.eql([]);
+        })));
+
+        it("should warn about changed migration and run pending migrations", () => Promise.all(connections.map(async connection => {
+            await insertChangedMigration(connection);
+
+            await new MigrationExecutor(connection).executePendingMigrations();
+
+            expect(logger.warnings.some(warning => warning.indexOf("First1530000000001") !== -1)).to.be.true;
+            const executedMigrations = await loadExecutedMigrations(connection);
+            expect(executedMigrations.map(migration => migration.name)).to.be.eql(["First1530000000001", "Second1530000000002"]);
+            expect(executedMigrations[0].checksum).to.be.equal("changed");
+        })));
+
+        it("should add checksum column to migrations table created without it", () => Promise.all(connections.map(async connection => {
+            const driver = connection.driver;
+            const queryRunner = connection.createQueryRunner();
+            await queryRunner.createTable(new Table({
+                name: "migrations",
+                columns: [
+                    { name: "id", type: driver.normalizeType({ type: driver.mappedDataTypes.migrationId }), isGenerated: true, generationStrategy: "increment", isPrimary: true },
+                    { name: "timestamp", type: driver.normalizeType({ type: driver.mappedDataTypes.migrationTimestamp }) },
+                    { name: "name", type: driver.normalizeType({ type: driver.mappedDataTypes.migrationName }) },
+                ]
+            }));
+            await queryRunner.release();
+            await insertExecutedMigration(connection, 1530000000001, "First1530000000001");
+
+            await new MigrationExecutor(connection).executePendingMigrations();
+
+            // migrations executed before checksums were recorded are not verified
+            expect(logger.warnings).to.be.eql([]);
+            const executedMigrations = await loadExecutedMigrations(connection);
+            expect(executedMigrations.map(migration => migration.name)).to.be.eql(["First1530000000001", "Second1530000000002"]);
+            expect(executedMigrations[0].checksum).to.be.null;
+            expect(executedMigrations[1].checksum).to.match(/^[0-9a-f]{64}$/);
+        })));
+
+    });
+
+    describe("with migrationsChecksumMismatch \"error\"", () => {
+
+        let connections: Connection[];
+        before(async () => connections = await createTestingConnections({
+            enabledDrivers: ["mysql", "mariadb", "postgres", "sqlite", "sqljs", "spanner"],
+            driverSpecific: {
+                migrations: [First1530000000001, Second1530000000002],
+                migrationsChecksumMismatch: "error",
+                logger
+            }
+        }));
+        beforeEach(() => reloadTestingDatabases(connections));
+        after(() => closeTestingConnections(connections));
+
+        it("should refuse to run pending migrations when executed migration has been changed", () => Promise.all(connections.map(async connection => {
+            await insertChangedMigration(connection);
+
+            await new MigrationExecutor(connection).executePendingMigrations().should.be.rejectedWith(MigrationChecksumMismatchError);
+
+            const executedMigrations = await loadExecutedMigrations(connection);
+            expect(executedMigrations.map(migration => migration.name)).to.be.eql(["First1530000000001"]);
+        })));
+
+        it("should update checksums of changed migrations by repairMigrationChecksums", () => Promise.all(connections.map(async connection => {
+            await insertChangedMigration(connection);
+            await insertExecutedMigration(connection, 1530000000000, "Removed1530000000000", "removed");
+
+            await new MigrationExecutor(connection).repairMigrationChecksums();
+
+            let executedMigrations = await loadExecutedMigrations(connection);
+            expect(executedMigrations[0].name).to.be.equal("First1530000000001");
+            expect(executedMigrations[0].checksum).to.match(/^[0-9a-f]{64}$/);
+            // checksum of migration missing in the source code is kept
+            expect(executedMigrations[1]).to.be.eql({ name: "Removed1530000000000", checksum: "removed" });
+
+            await new MigrationExecutor(connection).executePendingMigrations();
+            executedMigrations = await loadExecutedMigrations(connection);
+            expect(executedMigrations.map(migration => migration.name)).to.be.eql(["First1530000000001", "Removed1530000000000", "Second1530000000002"]);
+            // both migrations have the same source of up and down methods
+            expect(executedMigrations[2].checksum).to.be.equal(executedMigrations[0].checksum);
+        })));
+
+    });
+
+});
@@ -0,0 +1,12 @@
+import {MigrationInterface} from "../../../../../src/migration/MigrationInterface";
+import {QueryRunner} from "../../../../../src/query-runner/QueryRunner";
+
+export class First1530000000001 implements MigrationInterface {
+
+    async up(queryRunner: QueryRunner): Promise<any> {
+    }
+
+    async down(queryRunner: QueryRunner): Promise<any> {
+    }
+
+}
@@ -0,0 +1,137 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Connection} from "../../../../src/connection/Connection";
+import {MigrationExecutor} from "../../../../src/migration/MigrationExecutor";
+import {MigrationLockTimeoutError} from "../../../../src/error/MigrationLockTimeoutError";
+import {MigrationLockLostError} from "../../../../src/error/MigrationLockLostError";
+import {PromiseUtils} from "../../../../src/util/PromiseUtils";
+import {AbstractSqliteDriver} from "../../../../src/driver/sqlite-abstract/AbstractSqliteDriver";
+import {SpannerDriver} from "../../../../src/driver/spanner/SpannerDriver";
+import {closeTestingConnections, createTestingConnections, reloadTestingDatabases} from "../../../utils/test-utils";
+import {LockTest1530000000000} from "./migration/LockTest1530000000000";
+
+describe("migrations > lock", () => {
+
+    let connections: Connection[];
+    before(async () => connections = await createTestingConnections({
+        enabledDrivers: ["mysql", "mariadb", "postgres", "sqlite", "sqljs", "spanner"],
+        driverSpecific: {
+            migrations: [LockTest1530000000000],
+            migrationsLockTimeout: 3000,
+            migrationsLockLeaseTime: 600
+        }
+    }));
+    beforeEach(async () => {
+        LockTest1530000000000.runs = {};
+        LockTest1530000000000.onUp = undefined;
+        await reloadTestingDatabases(connections);
+    });
+    after(() => closeTestingConnections(connections));
+
+    // migration tables are created by repairing checksums, which updates nothing while no migration is executed
+    const createMigrationTables = (connection: Connection) => new MigrationExecutor(connection).repairMigrationChecksums();
+
+    // lock times are stored as numbers, and as timestamps in spanner
+    const lockTimestamp = (connection: Connection, time: number) => connection.driver instanceof SpannerDriver ? new Date(time) : time;
+
+    // writes the lock of other process directly into the lock table
+    const insertLockOfOtherProcess = async (connection: Connection, expiresAt: number) => {
+        await createMigrationTables(connection);
+        await connection.createQueryBuilder()
+            .insert()
+            .into("migrations_lock")
+            .values({
+                name: "migrations",
+                owner: "other-process",
+                acquiredAt: lockTimestamp(connection, Date.now() - 60000),
+                expiresAt: lockTimestamp(connection, expiresAt)
+            })
+            .execute();
+    };
+
+    const isExecuted = async (connection: Connection) => {
+        const migrations = await new MigrationExecutor(connection).showMigrations();
+        return migrations.some(migration => migration.executed);
+    };
+
+    it("should execute pending migrations only once when two executors run them at the same time", () => Promise.all(connections.map(async connection => {
+        // sqlite query runners share single database connection and its transaction, so executors of one process cannot race
+        if (connection.driver instanceof AbstractSqliteDriver) return;
+
+        LockTest1530000000000.onUp = () => PromiseUtils.delay(300);
+
+        // migration tables are created before, because creating them is not guarded by the lock
+        await createMigrationTables(connection);
+        await Promise.all([
+            new MigrationExecutor(connection).executePendingMigrations(),
+            new MigrationExecutor(connection).executePendingMigrations(),
+        ]);
+
+        expect(LockTest1530000000000.runs[connection.name] || 0).to.be.equal(1);
+        expect(await isExecuted(connection)).to.be.true;
+        expect(await new MigrationExecutor(connection).getMigrationLock()).to.be.undefined;
+    })));
+
+    it("should report no lock without creating migration tables when migrations never ran", () => Promise.all(connections.map(async connection => {
+        const executor = new MigrationExecutor(connection);
+        expect(await executor.getMigrationLock()).to.be.undefined;
+        await executor.forceReleaseMigrationLock();
+
+        const queryRunner = connection.createQueryRunner();
+        expect(await queryRunner.hasTable("migrations")).to.be.false;
+        expect(await queryRunner.hasTable("migrations_lock")).to.be.false;
+        await queryRunner.release();
+    })));
+
+    it("should take over expired lock of other process", () => Promise.all(connections.map(async connection => {
+        await insertLockOfOtherProcess(connection, Date.now() - 1000);
+
+        const executor = new MigrationExecutor(connection);
+        let lockDuringRun: any;
+        LockTest1530000000000.onUp = async () => { lockDuringRun = await executor.getMigrationLock(); };
+        await executor.executePendingMigrations();
+
+        expect(LockTest1530000000000.runs[connection.name] || 0).to.be.equal(1);
+        expect(lockDuringRun.owner).to.be.not.equal("other-process");
+        expect(lockDuringRun.expiresAt.getTime()).to.be.greaterThan(Date.now());
+        expect(await executor.getMigrationLock()).to.be.undefined;
+    })));
+
+    it("should fail with MigrationLockTimeoutError when other process holds the lock", () => Promise.all(connections.map(async connection => {
+        await insertLockOfOtherProcess(connection, Date.now() + 60000);
+
+        await new MigrationExecutor(connection).executePendingMigrations().should.be.rejectedWith(MigrationLockTimeoutError);
+
+        expect(LockTest1530000000000.runs[connection.name] || 0).to.be.equal(0);
+        const lock = await new MigrationExecutor(connection).getMigrationLock();
+        expect(lock!.owner).to.be.equal("other-process");
+    })));
+
+    it("should release the lock of other process by forceReleaseMigrationLock", () => Promise.all(connections.map(async connection => {
+        await insertLockOfOtherProcess(connection, Date.now() + 60000);
+
+        const executor = new MigrationExecutor(connection);
+        await executor.forceReleaseMigrationLock();
+        expect(await executor.getMigrationLock()).to.be.undefined;
+
+        await executor.executePendingMigrations();
+        expect(LockTest1530000000000.runs[connection.name] || 0).to.be.equal(1);
+    })));
+
+    it("should fail the run when the lock is taken over while migrations run", () => Promise.all(connections.map(async connection => {
+        LockTest1530000000000.onUp = async () => {
+            // other process takes the lock over, and renewal finds it before the migration is committed
+            await connection.createQueryBuilder()
+                .update("migrations_lock")
+                .set({ owner: "other-process" })
+                .execute();
+            await PromiseUtils.delay(700);
+        };
+
+        await new MigrationExecutor(connection).executePendingMigrations().should.be.rejectedWith(MigrationLockLostError);
+
+        expect(LockTest1530000000000.runs[connection.name] || 0).to.be.equal(1);
+        expect(await isExecuted(connection)).to.be.false;
+    })));
+
+});
@@ -0,0 +1,23 @@
+import {MigrationInterface} from "../../../../../src/migration/MigrationInterface";
+import {QueryRunner} from "../../../../../src/query-runner/QueryRunner";
+
+/**
+ * Counts its runs per connection, and runs given hook while it is executed, so that tests can act while the migration lock is held.
+ */
+export class LockTest1530000000000 implements MigrationInterface {
+
+    static runs: { [connectionName: string]: number } = {};
+
+    static onUp?: (queryRunner: QueryRunner) => Promise<void>;
+
+    async up(queryRunner: QueryRunner): Promise<any> {
+        const connectionName = queryRunner.connection.name;
+        LockTest1530000000000.runs[connectionName] = (LockTest1530000000000.runs[connectionName] || 0) + 1;
+        if (LockTest1530000000000.onUp)
+            await LockTest1530000000000.onUp(queryRunner);
+    }
+
+    async down(queryRunner: QueryRunner): Promise<any> {
+    }
+
+}
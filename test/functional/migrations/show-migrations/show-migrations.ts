@@ -0,0 +1,63 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Connection} from "../../../../src/connection/Connection";
+import {MigrationExecutor} from "../../../../src/migration/MigrationExecutor";
+import {SpannerDriver} from "../../../../src/driver/spanner/SpannerDriver";
+import {closeTestingConnections, createTestingConnections, reloadTestingDatabases} from "../../../utils/test-utils";
+import {Executed1530000000001} from "./migration/Executed1530000000001";
+import {Pending1530000000003} from "./migration/Pending1530000000003";
+
+describe("migrations > show migrations", () => {
+
+    let connections: Connection[];
+    before(async () => connections = await createTestingConnections({
+        enabledDrivers: ["mysql", "mariadb", "postgres", "sqlite", "sqljs", "spanner"],
+        driverSpecific: {
+            migrations: [Pending1530000000003, Executed1530000000001]
+        }
+    }));
+    beforeEach(() => reloadTestingDatabases(connections));
+    after(() => closeTestingConnections(connections));
+
+    // records migration as executed, as the executor does after the migration runs.
+    // spanner has no generated id, and stores timestamp of the migration as timestamp
+    const insertExecutedMigration = async (connection: Connection, timestamp: number, name: string) => {
+        await connection.createQueryBuilder()
+            .insert()
+            .into("migrations")
+            .values(connection.driver instanceof SpannerDriver ? { id: timestamp, timestamp: new Date(timestamp).toISOString(), name } : { timestamp, name })
+            .execute();
+    };
+
+    it("should list all migrations as pending when nothing is executed", () => Promise.all(connections.map(async connection => {
+        const migrations = await new MigrationExecutor(connection).showMigrations();
+
+        expect(migrations.map(({ migration, executed, inSource }) => [migration.name, executed, inSource])).to.be.eql([
+            ["Executed1530000000001", false, true],
+            ["Pending1530000000003", false, true],
+        ]);
+
+        // listing migrations does not create migrations table
+        const queryRunner = connection.createQueryRunner();
+        expect(await queryRunner.hasTable("migrations")).to.be.false;
+        await queryRunner.release();
+    })));
+
+    it("should list executed, pending and executed migrations missing in the source code ordered by timestamp", () => Promise.all(connections.map(async connection => {
+        // migrations table is created by repairing checksums, which updates nothing while no migration is executed
+        await new MigrationExecutor(connection).repairMigrationChecksums();
+        await insertExecutedMigration(connection, 1530000000002, "Removed1530000000002");
+        await insertExecutedMigration(connection, 1530000000001, "Executed1530000000001");
+
+        const migrations = await new MigrationExecutor(connection).showMigrations();
+
+        expect(migrations.map(({ migration, executed, inSource }) => [migration.name, migration.timestamp, executed, inSource])).to.be.eql([
+            ["Executed1530000000001", 1530000000001, true, true],
+            ["Removed1530000000002", 1530000000002, true, false],
+            ["Pending1530000000003", 1530000000003, false, true],
+        ]);
+        expect(migrations[0].migration.instance).to.be.instanceOf(Executed1530000000001);
+        expect(migrations[1].migration.instance).to.be.undefined;
+    })));
+
+});
@@ -0,0 +1,49 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Connection} from "../../../../src/connection/Connection";
+import {MigrationExecutor} from "../../../../src/migration/MigrationExecutor";
+import {MysqlDriver} from "../../../../src/driver/mysql/MysqlDriver";
+import {closeTestingConnections, createTestingConnections, reloadTestingDatabases} from "../../../utils/test-utils";
+import {CreateTable1530000000001} from "./migration/CreateTable1530000000001";
+import {Failing1530000000002} from "./migration/Failing1530000000002";
+
+describe("migrations > transaction", () => {
+
+    let connections: Connection[];
+    before(async () => connections = await createTestingConnections({
+        enabledDrivers: ["mysql", "mariadb", "postgres", "sqlite", "sqljs"],
+        driverSpecific: {
+            migrations: [CreateTable1530000000001, Failing1530000000002]
+        }
+    }));
+    beforeEach(() => reloadTestingDatabases(connections));
+    after(() => closeTestingConnections(connections));
+
+    it("should roll back migrations executed before the failed one only where DDL is transactional", () => Promise.all(connections.map(async connection => {
+        await new MigrationExecutor(connection).executePendingMigrations().should.be.rejectedWith("migration failed");
+
+        const migrations = await new MigrationExecutor(connection).showMigrations();
+        const executedMigrations = migrations.filter(migration => migration.executed).map(migration => migration.migration.name);
+        const queryRunner = connection.createQueryRunner();
+        const hasCreatedTable = await queryRunner.hasTable("created_by_migration");
+        await queryRunner.release();
+
+        // mysql and mariadb commit the transaction before DDL, so migrations run without transaction there
+        if (connection.driver instanceof MysqlDriver) {
+            expect(executedMigrations).to.be.eql(["CreateTable1530000000001"]);
+            expect(hasCreatedTable).to.be.true;
+        } else {
+            expect(executedMigrations).to.be.eql([]);
+            expect(hasCreatedTable).to.be.false;
+        }
+    })));
+
+    it("should not create progress table where failed migrations are not resumed", () => Promise.all(connections.map(async connection => {
+        await new MigrationExecutor(connection).executePendingMigrations().should.be.rejectedWith("migration failed");
+
+        const queryRunner = connection.createQueryRunner();
+        expect(await queryRunner.hasTable("migrations_progress")).to.be.false;
+        await queryRunner.release();
+    })));
+
+});
@@ -0,0 +1,18 @@
+import {MigrationInterface} from "../../../../../src/migration/MigrationInterface";
+import {QueryRunner} from "../../../../../src/query-runner/QueryRunner";
+import {Table} from "../../../../../src/schema-builder/table/Table";
+
+export class CreateTable1530000000001 implements MigrationInterface {
+
+    async up(queryRunner: QueryRunner): Promise<any> {
+        await queryRunner.createTable(new Table({
+            name: "created_by_migration",
+            columns: [{ name: "id", type: "int", isPrimary: true }]
+        }));
+    }
+
+    async down(queryRunner: QueryRunner): Promise<any> {
+        await queryRunner.dropTable("created_by_migration");
+    }
+
+}
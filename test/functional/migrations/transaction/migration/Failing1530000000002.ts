@@ -0,0 +1,13 @@
+import {MigrationInterface} from "../../../../../src/migration/MigrationInterface";
+import {QueryRunner} from "../../../../../src/query-runner/QueryRunner";
+
+export class Failing1530000000002 implements MigrationInterface {
+
+    async up(queryRunner: QueryRunner): Promise<any> {
+        throw new Error("migration failed");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<any> {
+    }
+
+}
@@ -0,0 +1,101 @@
+import {Connection} from "../../src/connection/Connection";
+import {SpannerConnectionOptions} from "../../src/driver/spanner/SpannerConnectionOptions";
+import {SpannerDriver} from "../../src/driver/spanner/SpannerDriver";
+import {PlatformTools} from "../../src/platform/PlatformTools";
+
+/**
+ * Constructor of the values created by Spanner.struct() of the spanner client stub, which are arrays of fields.
+ */
+class Struct {
+}
+
+/**
+ * Value created by Spanner.int() of the spanner client stub.
+ */
+class Int {
+    constructor(public value: string) {
+    }
+}
+
+/**
+ * Value created by Spanner.float() of the spanner client stub.
+ */
+class Float {
+    constructor(public value: number) {
+    }
+}
+
+/**
+ * Spanner client stub, which gives the database stub instead of connecting to spanner.
+ */
+class Spanner {
+
+    static database: any;
+
+    constructor(public options: any) {
+    }
+
+    instance(instanceId: string) {
+        return {
+            instanceId,
+            database: (name: string, sessionPool?: any) => Object.assign(Spanner.database, { name, sessionPool })
+        };
+    }
+
+    static struct(value: { [name: string]: any }) {
+        const fields = Object.keys(value).map(name => ({ name, value: value[name] }));
+        return Object.defineProperty(fields, "constructor", { value: Struct });
+    }
+
+    static int(value: string) {
+        return new Int(value);
+    }
+
+    static float(value: number) {
+        return new Float(value);
+    }
+
+}
+
+/**
+ * Creates connection, and connects its spanner driver to the given database stub instead of spanner.
+ * spanner client package is replaced by the stub while the driver is created, so that tests run without grpc.
+ * connection itself is not connected, so that entity metadatas are not built and schema is not synchronized.
+ */
+export async function createStubSpannerDriver(database: any = {}, options: Partial<SpannerConnectionOptions> = {}): Promise<SpannerDriver> {
+    const spannerLib = {
+        Spanner,
+        Transaction: {
+            getRetryDelay_: (err: any, attempts: number) => Math.pow(2, attempts) * 1000
+        },
+        TransactionRequest: {
+            fromProtoTimestamp_: (timestamp: any) => new Date(Number(timestamp.seconds) * 1000 + Math.floor((timestamp.nanos || 0) / 1000000))
+        }
+    };
+    const grpc = { credentials: { createInsecure: () => "insecure credentials" } };
+
+    const load = PlatformTools.load;
+    PlatformTools.load = (name: string) => name === "@google-cloud/spanner" ? spannerLib : name === "grpc" ? grpc : load(name);
+    try {
+        // requests tests do not stub are answered as if the database were empty
+        Spanner.database = {
+            get: async () => [Spanner.database],
+            close: async () => {},
+            getSchema: async () => [[]],
+            updateSchema: async () => [{ promise: async () => undefined }],
+            runTransaction: (runFn: Function) => runFn(null, {
+                runUpdate: (request: any, callback: Function) => callback(null, 0),
+                commit: (callback: Function) => callback(null, {}),
+                end: () => {}
+            }),
+            ...database
+        };
+        const connection = new Connection({ type: "spanner", projectId: "project", instanceId: "instance", database: "database", ...options } as SpannerConnectionOptions);
+        const driver = connection.driver as SpannerDriver;
+        await driver.connect();
+        return driver;
+
+    } finally {
+        PlatformTools.load = load;
+    }
+}